@@ -1,35 +1,78 @@
 // cspell:word viem WebAuthn
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
 import { WebAuthnP256 } from "ox";
 import { QRCodeSVG } from "qrcode.react";
 import {
 	type Hex,
+	concat,
 	createPublicClient,
 	encodeAbiParameters,
 	encodeFunctionData,
 	encodePacked,
 	formatUnits,
 	http,
+	isAddress,
+	parseUnits,
 } from "viem";
 import type { PackedUserOperation } from "viem/account-abstraction";
-import { sepolia } from "viem/chains";
 import {
-	ENTRYPOINT_ADDRESS,
-	USDC_ADDRESS,
-	USDC_DECIMALS,
+	ApiRequestError,
+	type ApiDeposit,
+	type ApiInput,
+	type ApiRefundJob,
+	type ApiSession,
+	DEFAULT_CHAIN_ID,
+	type DepositStatus,
+	MAX_INVITE_CODE_LENGTH,
+	type RefundJobStatus,
+	accountFactoryAbi,
 	accountWebAuthnAbi,
+	createApiClient,
 	entryPointAbi,
+	getChainConfig,
+	isNativeToken,
+	solveProofOfWork,
 	usdcAbi,
 } from "../../shared";
-import { serializeBigInts } from "./utils";
+import { useAccountEvents } from "./useAccountEvents";
+import { formatApiError } from "./utils";
 
 const SERVER_URL = "http://localhost:8787";
+const CHAIN_ID = Number(import.meta.env.VITE_CHAIN_ID ?? DEFAULT_CHAIN_ID);
+const chainConfig = getChainConfig(CHAIN_ID);
+if (!chainConfig) {
+	throw new Error(`Chain ${CHAIN_ID} is not in the chain registry`);
+}
+const { chain, entryPoint, factory, explorerUrl, confirmations } = chainConfig;
+const tokens = Object.values(chainConfig.tokens);
+const tokenSymbols = tokens.map((token) => token.symbol).join(", ");
+
+const findDepositToken = (address: string) =>
+	tokens.find((token) => token.address.toLowerCase() === address.toLowerCase());
+
 const publicClient = createPublicClient({
 	transport: http(),
-	chain: sepolia,
+	chain,
 });
 
+/** Token of the passkey session, sent with every account request. */
+let sessionToken: string | null = null;
+
+/** Worker API client, scoped to the configured chain. */
+const api = createApiClient({
+	baseUrl: SERVER_URL,
+	chainId: CHAIN_ID,
+	sessionToken: () => sessionToken,
+});
+
+// Sessions are renewed this long before they expire.
+const SESSION_REFRESH_MARGIN_MS = 60_000;
+
+// ox types the indexes as optional but always sets them; the client checks
+// request bodies before sending them anyway.
+type AssertionMetadata = ApiInput<"login", "body">["metadata"];
+
 const EXECUTE_MODE = encodePacked(
 	["bytes1", "bytes1", "bytes4", "bytes4", "bytes22"],
 	[
@@ -41,19 +84,56 @@ const EXECUTE_MODE = encodePacked(
 	],
 );
 
-type CreatedCredential = Awaited<ReturnType<typeof createCompatCredential>>;
-type DepositRecord = {
-	sender: `0x${string}`;
+/** Edits to the default intent of refunding the rest of a deposit to its sender. */
+type IntentDraft = {
 	amount: string;
-	txHash: `0x${string}`;
-	logIndex: number;
-	blockNumber: string;
-	blockTimestamp: number;
-	ready: boolean;
-	refunded: boolean;
-	refundTxHash?: `0x${string}` | null;
+	recipient: string;
+	reason: string;
+};
+
+const EMPTY_INTENT_DRAFT: IntentDraft = { amount: "", recipient: "", reason: "" };
+
+const REFUND_POLL_INTERVAL_MS = 3_000;
+
+const REFUND_STATUS_MESSAGES: Record<RefundJobStatus, string> = {
+	queued: "Refund queued…",
+	simulated: "Refund simulated. Sending transaction…",
+	submitted: "Refund sent! Waiting for confirmation…",
+	replaced: "Refund sent! Re-sent with higher fees, waiting for confirmation…",
+	confirmed: "Refund confirmed!",
+	failed: "Error: Refund failed",
 };
 
+const describeRefundJob = (job: ApiRefundJob) =>
+	job.status === "failed" && job.error
+		? `Error: ${formatApiError({ error: job.error, code: job.errorCode }, "Refund failed")}`
+		: REFUND_STATUS_MESSAGES[job.status];
+
+const DEPOSIT_FILTERS: { label: string; status?: DepositStatus }[] = [
+	{ label: "All" },
+	{ label: "Ready", status: "ready" },
+	{ label: "Pending", status: "pending" },
+	{ label: "Refunded", status: "refunded" },
+];
+
+/** Human-readable amount, e.g. `1.5 USDC`, for a deposit of a registry token. */
+function formatDepositAmount(deposit: ApiDeposit, amount = deposit.amount) {
+	const token = findDepositToken(deposit.token);
+	if (!token) {
+		return `${amount} (unknown token)`;
+	}
+	return `${formatUnits(BigInt(amount), token.decimals)} ${token.symbol}`;
+}
+
+const getRemainingAmount = (deposit: ApiDeposit) =>
+	BigInt(deposit.amount) - BigInt(deposit.refundedAmount);
+
+const getDepositKey = (deposit: ApiDeposit) =>
+	`${deposit.txHash}-${deposit.logIndex}`;
+
+const isRefundable = (deposit: ApiDeposit) =>
+	deposit.ready && !deposit.refunded;
+
 function formatAddress(address: string) {
 	return `${address.slice(0, 6)}…${address.slice(-4)}`;
 }
@@ -99,96 +179,182 @@ async function createCompatCredential() {
 
 function App() {
 	const [isDeploying, setIsDeploying] = useState(false);
+	const [isRestoring, setIsRestoring] = useState(false);
 	const [isRefunding, setIsRefunding] = useState(false);
 	const [statusMessage, setStatusMessage] = useState("");
-	const [pollError, setPollError] = useState<string | null>(null);
-	const [accountAddress, setAccountAddress] = useState<string | null>(null);
-	const [credential, setCredential] = useState<CreatedCredential | null>(null);
-	const [deposits, setDeposits] = useState<DepositRecord[]>([]);
-	const [selectedDeposit, setSelectedDeposit] = useState<DepositRecord | null>(
+	const [accountAddress, setAccountAddress] = useState<Hex | null>(null);
+	const [credentialId, setCredentialId] = useState<string | null>(null);
+	const [publicKey, setPublicKey] = useState<{ qx: Hex; qy: Hex } | null>(
 		null,
 	);
-	const [lastRefundTxHash, setLastRefundTxHash] = useState<string | null>(null);
-	const [watching, setWatching] = useState(false);
-
-	const readyDeposits = useMemo(
-		() => deposits.filter((deposit) => deposit.ready && !deposit.refunded),
-		[deposits],
+	const [selectedDeposits, setSelectedDeposits] = useState<ApiDeposit[]>(
+		[],
+	);
+	const [intentDrafts, setIntentDrafts] = useState<Record<string, IntentDraft>>(
+		{},
 	);
+	const [refundJob, setRefundJob] = useState<ApiRefundJob | null>(null);
+	const [depositFilter, setDepositFilter] = useState<DepositStatus>();
+	const [inviteCode, setInviteCode] = useState("");
+	const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(
+		null,
+	);
+	const {
+		deposits,
+		scanner,
+		live,
+		error: pollError,
+		hasMore,
+		loadingMore,
+		loadMore,
+	} = useAccountEvents(accountAddress, api, depositFilter);
+	const scanning = Boolean(scanner?.active && !scanner.stale);
+	const loadMoreRef = useRef<HTMLLIElement | null>(null);
 
+	// Load older deposits whenever the end of the list scrolls into view.
 	useEffect(() => {
-		if (readyDeposits.length > 0 && !isRefunding && !isDeploying) {
-			setStatusMessage("Money arrived! You can refund it now.");
+		const sentinel = loadMoreRef.current;
+		if (!sentinel || !hasMore) {
+			return;
 		}
-	}, [isDeploying, isRefunding, readyDeposits.length]);
+		const observer = new IntersectionObserver((entries) => {
+			if (entries.some((entry) => entry.isIntersecting)) {
+				void loadMore();
+			}
+		});
+		observer.observe(sentinel);
+		return () => observer.disconnect();
+	}, [hasMore, loadMore]);
+
+	const startSession = useCallback((session: ApiSession | null) => {
+		sessionToken = session?.token ?? null;
+		setSessionExpiresAt(session?.expiresAt ?? null);
+	}, []);
 
+	const signOut = useCallback(
+		(message: string) => {
+			startSession(null);
+			setAccountAddress(null);
+			setCredentialId(null);
+			setPublicKey(null);
+			setSelectedDeposits([]);
+			setRefundJob(null);
+			setStatusMessage(message);
+		},
+		[startSession],
+	);
+
+	// Renew the session while the page is open; once it lapses, the account
+	// has to be restored with the passkey again.
 	useEffect(() => {
-		if (!accountAddress) {
+		if (sessionExpiresAt === null) {
 			return;
 		}
 
-		let isMounted = true;
-		let intervalId: number | undefined;
-
-		const fetchDeposits = async () => {
-			try {
-				const response = await fetch(
-					`${SERVER_URL}/account/${accountAddress}/deposits`,
-				);
-				if (!response.ok) {
-					throw new Error("Failed to fetch deposits");
-				}
-				const payload = await response.json();
-				if (!isMounted) {
-					return;
+		const timeoutId = window.setTimeout(
+			async () => {
+				try {
+					const { session } = await api.refreshSession();
+					startSession(session);
+				} catch (error) {
+					console.error("Error refreshing session:", error);
+					signOut("Session expired. Restore the account to sign in again.");
 				}
+			},
+			Math.max(sessionExpiresAt - Date.now() - SESSION_REFRESH_MARGIN_MS, 0),
+		);
+		return () => clearTimeout(timeoutId);
+	}, [sessionExpiresAt, signOut, startSession]);
 
-				setDeposits(payload.deposits ?? []);
-				setWatching(payload.watching ?? false);
-				setPollError(null);
-			} catch (error) {
-				if (isMounted) {
-					setPollError(
-						error instanceof Error ? error.message : "Failed to poll deposits",
-					);
-				}
-			}
-		};
-
-		void fetchDeposits();
-		intervalId = window.setInterval(fetchDeposits, 5_000);
+	const logout = useCallback(async () => {
+		try {
+			await api.logout();
+		} catch (error) {
+			console.error("Error signing out:", error);
+		}
+		signOut("Signed out.");
+	}, [signOut]);
 
-		return () => {
-			isMounted = false;
-			if (intervalId) {
-				clearInterval(intervalId);
-			}
-		};
-	}, [accountAddress]);
+	const readyDeposits = useMemo(
+		() => deposits.filter(isRefundable),
+		[deposits],
+	);
 
+	// Follow the latest refund job until it is confirmed or failed.
 	useEffect(() => {
-		if (!deposits.length) {
-			setSelectedDeposit(null);
+		if (
+			!refundJob ||
+			refundJob.status === "confirmed" ||
+			refundJob.status === "failed"
+		) {
 			return;
 		}
 
-		setSelectedDeposit((current) => {
-			if (current) {
-				const stillAvailable = deposits.find(
-					(deposit) =>
-						deposit.txHash === current.txHash &&
-						deposit.logIndex === current.logIndex,
+		const timeoutId = window.setTimeout(async () => {
+			try {
+				const result = await api.getRefundJob({
+					params: { id: refundJob.id },
+				});
+				setRefundJob(result.job);
+				setStatusMessage(describeRefundJob(result.job));
+			} catch (error) {
+				setStatusMessage(
+					`Error: ${
+						error instanceof ApiRequestError
+							? formatApiError(error.body, "Failed to load refund status")
+							: error instanceof Error
+								? error.message
+								: "Unknown error"
+					}`,
 				);
-				if (stillAvailable) {
-					return stillAvailable;
-				}
 			}
-			return (
-				deposits.find((deposit) => deposit.ready && !deposit.refunded) ??
-				deposits[0]
+		}, REFUND_POLL_INTERVAL_MS);
+		return () => clearTimeout(timeoutId);
+	}, [refundJob]);
+
+	useEffect(() => {
+		if (
+			readyDeposits.length > 0 &&
+			!isRefunding &&
+			!isDeploying &&
+			!isRestoring
+		) {
+			setStatusMessage("Money arrived! You can refund it now.");
+		}
+	}, [isDeploying, isRefunding, isRestoring, readyDeposits.length]);
+
+	// Keep selected deposits that can still be refunded, defaulting to every
+	// ready deposit so they go back in one batch.
+	useEffect(() => {
+		setSelectedDeposits((current) => {
+			const selectedKeys = new Set(current.map(getDepositKey));
+			const stillAvailable = readyDeposits.filter((deposit) =>
+				selectedKeys.has(getDepositKey(deposit)),
 			);
+			return stillAvailable.length ? stillAvailable : readyDeposits;
 		});
-	}, [deposits]);
+	}, [readyDeposits]);
+
+	const updateIntentDraft = useCallback(
+		(deposit: ApiDeposit, changes: Partial<IntentDraft>) => {
+			const key = getDepositKey(deposit);
+			setIntentDrafts((current) => ({
+				...current,
+				[key]: { ...EMPTY_INTENT_DRAFT, ...current[key], ...changes },
+			}));
+		},
+		[],
+	);
+
+	const toggleDeposit = useCallback((deposit: ApiDeposit) => {
+		setSelectedDeposits((current) =>
+			current.some((entry) => getDepositKey(entry) === getDepositKey(deposit))
+				? current.filter(
+						(entry) => getDepositKey(entry) !== getDepositKey(deposit),
+					)
+				: [...current, deposit],
+		);
+	}, []);
 
 	const copyAddress = useCallback(async () => {
 		if (!accountAddress) {
@@ -211,52 +377,138 @@ function App() {
 		try {
 			setIsDeploying(true);
 			setStatusMessage("Creating WebAuthn credential…");
-			setPollError(null);
-			setDeposits([]);
-			setSelectedDeposit(null);
-			setLastRefundTxHash(null);
+			setSelectedDeposits([]);
+			setRefundJob(null);
 
+			const { challenge } = await api.createLoginChallenge();
 			const createdCredential = await createCompatCredential();
-			setCredential(createdCredential);
+			setCredentialId(createdCredential.id);
 
 			const publicKey = {
-				prefix: createdCredential.publicKey.prefix,
-				x: `0x${createdCredential.publicKey.x.toString(16).padStart(64, "0")}`,
-				y: `0x${createdCredential.publicKey.y.toString(16).padStart(64, "0")}`,
+				x: `0x${createdCredential.publicKey.x.toString(16).padStart(64, "0")}` as Hex,
+				y: `0x${createdCredential.publicKey.y.toString(16).padStart(64, "0")}` as Hex,
 			};
 
-			setStatusMessage("Deploying WebAuthn account…");
-
-			const response = await fetch(`${SERVER_URL}/account/create`, {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({
-					credentialId: createdCredential.id,
-					publicKey,
-				}),
+			// The server only registers a key whose passkey signs its challenge.
+			setStatusMessage("Confirm the new passkey…");
+			const { signature, metadata } = await WebAuthnP256.sign({
+				challenge,
+				credentialId: createdCredential.id,
 			});
 
-			if (!response.ok) {
-				const error = await response.json();
-				throw new Error(error.error || "Failed to create account");
-			}
+			const rHex = `0x${signature.r.toString(16).padStart(64, "0")}` as Hex;
+			const sHex = `0x${signature.s.toString(16).padStart(64, "0")}` as Hex;
 
-			const result = await response.json();
-			const deployedAddress = result.accountAddress as string;
-			setAccountAddress(deployedAddress);
-			setStatusMessage("Account ready. Deposit at least 1 USDC (Sepolia) to continue.");
+			setStatusMessage("Registering WebAuthn account…");
+
+			const register = (proofOfWork?: number) =>
+				api.createAccount({
+					body: {
+						credentialId: createdCredential.id,
+						publicKey,
+						challenge,
+						metadata: metadata as AssertionMetadata,
+						rHex,
+						sHex,
+						inviteCode: inviteCode.trim() || undefined,
+						proofOfWork,
+					},
+				});
+			// Only solved when the worker asks for it.
+			const result = await register().catch(async (error: unknown) => {
+				if (
+					!(error instanceof ApiRequestError) ||
+					error.body.code !== "invalid_proof_of_work"
+				) {
+					throw error;
+				}
+				setStatusMessage("Proving work to the server…");
+				return register(await solveProofOfWork(publicKey));
+			});
+			if (!result.session) {
+				throw new Error(
+					"This account is already registered. Restore it to sign in.",
+				);
+			}
+			startSession(result.session);
+			setAccountAddress(result.accountAddress);
+			setPublicKey(result.publicKey);
+			setStatusMessage(`Account ready. Deposit ${tokenSymbols} on ${chain.name} to continue.`);
 		} catch (err) {
 			console.error("Error creating account:", err);
 			setStatusMessage(
-				`Error: ${err instanceof Error ? err.message : "Unknown error occurred"}`,
+				`Error: ${
+					err instanceof ApiRequestError
+						? formatApiError(err.body, "Failed to create account")
+						: err instanceof Error
+							? err.message
+							: "Unknown error occurred"
+				}`,
 			);
 		} finally {
 			setIsDeploying(false);
 		}
-	}, []);
+	}, [inviteCode, startSession]);
+
+	const restoreAccount = useCallback(async () => {
+		try {
+			setIsRestoring(true);
+			setStatusMessage("Requesting login challenge…");
+			setSelectedDeposits([]);
+			setRefundJob(null);
 
-	const refundDeposit = useCallback(async () => {
-		if (!accountAddress || !credential || !selectedDeposit) {
+			const { challenge } = await api.createLoginChallenge();
+
+			setStatusMessage("Sign in with your passkey…");
+
+			// No credentialId: let the authenticator offer every passkey for this origin.
+			const { signature, metadata, raw } = await WebAuthnP256.sign({
+				challenge,
+			});
+
+			const rHex = `0x${signature.r.toString(16).padStart(64, "0")}` as Hex;
+			const sHex = `0x${signature.s.toString(16).padStart(64, "0")}` as Hex;
+
+			setStatusMessage("Restoring WebAuthn account…");
+
+			const result = await api.login({
+				body: {
+					credentialId: raw.id,
+					challenge,
+					metadata: metadata as AssertionMetadata,
+					rHex,
+					sHex,
+				},
+			});
+
+			startSession(result.session);
+			setCredentialId(raw.id);
+			setAccountAddress(result.accountAddress);
+			setPublicKey(result.publicKey);
+			setStatusMessage("Account restored. Deposits are being refreshed.");
+		} catch (err) {
+			console.error("Error restoring account:", err);
+			setStatusMessage(
+				`Error: ${
+					err instanceof ApiRequestError
+						? formatApiError(err.body, "Failed to restore account")
+						: err instanceof Error
+							? err.message
+							: "Unknown error occurred"
+				}`,
+			);
+		} finally {
+			setIsRestoring(false);
+		}
+	}, [startSession]);
+
+	const refundDeposits = useCallback(async () => {
+		if (
+			!accountAddress ||
+			!credentialId ||
+			!publicKey ||
+			!selectedDeposits.length
+		) {
 			return;
 		}
 
@@ -265,18 +517,83 @@ function App() {
 			setStatusMessage("Preparing refund user operation…");
 
 			const nonce = await publicClient.readContract({
-				address: ENTRYPOINT_ADDRESS,
+				address: entryPoint,
 				abi: entryPointAbi,
 				functionName: "getNonce",
-				args: [accountAddress as `0x${string}`, 0n],
+				args: [accountAddress, 0n],
 			});
 
-			const transferCalldata = encodeFunctionData({
-				abi: usdcAbi,
-				functionName: "transfer",
-				args: [selectedDeposit.sender, BigInt(selectedDeposit.amount)],
+			// Accounts are counterfactual until their first user operation, which
+			// deploys them through the factory.
+			const code = await publicClient.getCode({ address: accountAddress });
+			if (!factory) {
+				throw new Error(`No account factory is deployed on ${chain.name}`);
+			}
+			const initCode: Hex =
+				code && code !== "0x"
+					? "0x"
+					: concat([
+							factory,
+							encodeFunctionData({
+								abi: accountFactoryAbi,
+								functionName: "cloneAndInitialize",
+								args: [
+									encodeFunctionData({
+										abi: accountWebAuthnAbi,
+										functionName: "initializeWebAuthn",
+										args: [publicKey.qx, publicKey.qy],
+									}),
+								],
+							}),
+						]);
+
+			// Each intent returns some or all of what is left on a deposit, to its
+			// sender unless another recipient is given.
+			const intents = selectedDeposits.map((deposit) => {
+				const token = findDepositToken(deposit.token);
+				if (!token) {
+					throw new Error(`Unsupported deposit token ${deposit.token}`);
+				}
+
+				const draft = intentDrafts[getDepositKey(deposit)] ?? EMPTY_INTENT_DRAFT;
+				const amount = draft.amount
+					? parseUnits(draft.amount, token.decimals)
+					: getRemainingAmount(deposit);
+				const recipient = draft.recipient.trim() || deposit.sender;
+				if (!isAddress(recipient)) {
+					throw new Error(`Invalid refund recipient ${recipient}`);
+				}
+
+				return {
+					deposit,
+					token,
+					amount,
+					recipient,
+					reason: draft.reason.trim() || undefined,
+				};
 			});
 
+			// Native deposits are returned with a plain value call, tokens with
+			// an ERC-20 `transfer`; the batch executes the intents in order.
+			const refundCalls = intents.map(
+				({
+					token,
+					amount,
+					recipient,
+				}): readonly [`0x${string}`, bigint, Hex] =>
+					isNativeToken(token)
+						? [recipient, amount, "0x"]
+						: [
+								token.address,
+								0n,
+								encodeFunctionData({
+									abi: usdcAbi,
+									functionName: "transfer",
+									args: [recipient, amount],
+								}),
+							],
+			);
+
 			const executionData = encodeAbiParameters(
 				[
 					{
@@ -288,7 +605,7 @@ function App() {
 						],
 					},
 				],
-				[[[USDC_ADDRESS, 0n, transferCalldata]]],
+				[refundCalls],
 			);
 
 			const callData = encodeFunctionData({
@@ -297,31 +614,66 @@ function App() {
 				args: [EXECUTE_MODE, executionData],
 			});
 
-			const feeData = await publicClient.estimateFeesPerGas();
+			setStatusMessage("Estimating user operation gas…");
+
+			const gasEstimate = await api
+				.estimateGas({
+					body: {
+						userOp: {
+							sender: accountAddress,
+							nonce: nonce.toString(),
+							initCode,
+							callData,
+							paymasterAndData: "0x",
+						},
+					},
+				})
+				.catch((error: unknown) => {
+					throw error instanceof ApiRequestError
+						? new Error(formatApiError(error.body, "Gas estimation failed"))
+						: error;
+				});
+
+			setStatusMessage("Requesting gas sponsorship…");
+
+			// Without a paymaster the account pays for gas from its own balance.
+			let paymasterAndData: Hex = "0x";
+			try {
+				const sponsorship = await api.sponsorUserOperation({
+					body: {
+						userOp: {
+							sender: accountAddress,
+							nonce: nonce.toString(),
+							initCode,
+							callData,
+							accountGasLimits: gasEstimate.accountGasLimits,
+							preVerificationGas: gasEstimate.preVerificationGas,
+							gasFees: gasEstimate.gasFees,
+						},
+						intentRecipients: intents.map((intent) => intent.recipient),
+					},
+				});
+				paymasterAndData = sponsorship.paymasterAndData;
+			} catch (error) {
+				if (!(error instanceof ApiRequestError && error.status === 503)) {
+					throw error;
+				}
+			}
 
 			const userOp: PackedUserOperation = {
-				sender: accountAddress as `0x${string}`,
+				sender: accountAddress,
 				nonce,
-				initCode: "0x",
+				initCode,
 				callData,
-				accountGasLimits: encodePacked(
-					["uint128", "uint128"],
-					[
-						1_000_000n,
-						300_000n,
-					],
-				),
-				preVerificationGas: 100_000n,
-				gasFees: encodePacked(
-					["uint128", "uint128"],
-					[feeData.maxPriorityFeePerGas, feeData.maxFeePerGas],
-				),
-				paymasterAndData: "0x",
+				accountGasLimits: gasEstimate.accountGasLimits,
+				preVerificationGas: BigInt(gasEstimate.preVerificationGas),
+				gasFees: gasEstimate.gasFees,
+				paymasterAndData,
 				signature: "0x" as Hex,
 			};
 
 			const userOpHash = await publicClient.readContract({
-				address: ENTRYPOINT_ADDRESS,
+				address: entryPoint,
 				abi: entryPointAbi,
 				functionName: "getUserOpHash",
 				args: [userOp],
@@ -331,7 +683,7 @@ function App() {
 
 			const { signature, metadata } = await WebAuthnP256.sign({
 				challenge: userOpHash,
-				credentialId: credential.id,
+				credentialId,
 			});
 
 			const rHex = `0x${signature.r.toString(16).padStart(64, "0")}` as Hex;
@@ -339,80 +691,117 @@ function App() {
 
 			setStatusMessage("Submitting refund to bundler…");
 
-			const response = await fetch(`${SERVER_URL}/account/refund`, {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({
+			// Retrying the same signed operation returns the same job.
+			const result = await api.createRefund({
+				headers: { "idempotency-key": userOpHash },
+				body: {
 					accountAddress,
-					credentialId: credential.id,
 					rHex,
 					sHex,
-					metadata,
-					userOp: serializeBigInts(userOp),
-					nonce: nonce.toString(),
-					deposit: {
-						txHash: selectedDeposit.txHash,
-						logIndex: selectedDeposit.logIndex,
-						sender: selectedDeposit.sender,
-						amount: selectedDeposit.amount,
+					metadata: metadata as AssertionMetadata,
+					userOp: {
+						...userOp,
+						nonce: userOp.nonce.toString(),
+						preVerificationGas: userOp.preVerificationGas.toString(),
 					},
-				}),
+					nonce: nonce.toString(),
+					intents: intents.map(({ deposit, amount, recipient, reason }) => ({
+						deposit: {
+							token: deposit.token,
+							txHash: deposit.txHash,
+							logIndex: deposit.logIndex,
+							sender: deposit.sender,
+							amount: deposit.amount,
+						},
+						amount: amount.toString(),
+						recipient,
+						reason,
+					})),
+				},
 			});
 
-			const result = await response.json();
-			if (!response.ok) {
-				throw new Error(result.error || "Refund failed");
-			}
-
-			if (result.hash) {
-				setLastRefundTxHash(result.hash);
-				setStatusMessage("Refund sent! Waiting for confirmation…");
-			} else {
-				setStatusMessage("Refund sent.");
-			}
+			setIntentDrafts({});
+			setRefundJob(result.job);
+			setStatusMessage(describeRefundJob(result.job));
 		} catch (error) {
 			console.error("Error refunding deposit:", error);
 			setStatusMessage(
-				`Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+				`Error: ${
+					error instanceof ApiRequestError
+						? formatApiError(error.body, "Refund failed")
+						: error instanceof Error
+							? error.message
+							: "Unknown error"
+				}`,
 			);
 		} finally {
 			setIsRefunding(false);
 		}
-	}, [accountAddress, credential, selectedDeposit]);
+	}, [accountAddress, credentialId, intentDrafts, publicKey, selectedDeposits]);
 
-	const minDepositDisplay = useMemo(() => {
-		return formatUnits(10n ** BigInt(USDC_DECIMALS), USDC_DECIMALS);
-	}, []);
+	const minDepositDisplay = useMemo(
+		() =>
+			tokens
+				.map(
+					(token) =>
+						`${formatUnits(token.minRefundAmount, token.decimals)} ${token.symbol}`,
+				)
+				.join(" or "),
+		[],
+	);
 
 	return (
 		<div className="app-shell">
 			<h1>WebAuthn Account Abstraction</h1>
 			<p className="subtitle">
-				Create an AA wallet, deposit testnet USDC, and safely refund it using WebAuthn
-				signatures.
+				Create an AA wallet, deposit testnet ETH or tokens, and safely refund them using
+				WebAuthn signatures.
 			</p>
 
 			<div className="card">
 				<div className="actions">
+					<input
+						type="text"
+						className="invite-code"
+						placeholder="Invite code (if you were given one)"
+						maxLength={MAX_INVITE_CODE_LENGTH}
+						value={inviteCode}
+						onChange={(event) => setInviteCode(event.target.value)}
+					/>
 					<button
 						type="button"
 						onClick={createAccount}
-						disabled={isDeploying || isRefunding}
+						disabled={isDeploying || isRestoring || isRefunding}
 					>
-						{isDeploying ? "Deploying…" : "Create / Restore Account"}
+						{isDeploying ? "Deploying…" : "Create Account"}
 					</button>
+					<button
+						type="button"
+						onClick={restoreAccount}
+						disabled={isDeploying || isRestoring || isRefunding}
+					>
+						{isRestoring ? "Restoring…" : "Restore Account"}
+					</button>
+					{accountAddress && (
+						<button type="button" onClick={logout} disabled={isRefunding}>
+							Sign Out
+						</button>
+					)}
 					{statusMessage && (
 						<div
 							className={`status-message ${
 								statusMessage.startsWith("Error")
 									? "error"
 									: statusMessage.startsWith("Success") ||
-											statusMessage.startsWith("Refund sent")
+											statusMessage.startsWith("Refund sent") ||
+											statusMessage.startsWith("Refund confirmed")
 										? "success"
 										: ""
 							}`}
 						>
-							{(isDeploying || isRefunding) && <div className="spinner" />}
+							{(isDeploying || isRestoring || isRefunding) && (
+								<div className="spinner" />
+							)}
 							<p>{statusMessage}</p>
 						</div>
 					)}
@@ -423,7 +812,7 @@ function App() {
 						<section className="account-panel">
 							<div className="qr-section">
 								<QRCodeSVG value={accountAddress} size={180} />
-								<p>Scan or copy the AA address to send ≥ {minDepositDisplay} USDC.</p>
+								<p>Scan or copy the AA address to send ≥ {minDepositDisplay}.</p>
 								<button type="button" onClick={copyAddress}>
 									Copy Address
 								</button>
@@ -432,7 +821,7 @@ function App() {
 								<h3>Account Address</h3>
 								<code>{accountAddress}</code>
 								<p className="hint">
-									Fund this account with Sepolia USDC (Circle faucet) from another wallet,
+									Fund this account with {chain.name} {tokenSymbols} from another wallet,
 									then return here to trigger a refund.
 								</p>
 							</div>
@@ -442,41 +831,76 @@ function App() {
 							<header>
 								<h3>Incoming Deposits</h3>
 								<span
-									className={`badge ${pollError ? "badge-error" : watching ? "badge-live" : "badge-idle"}`}
+									className={`badge ${pollError ? "badge-error" : scanning ? "badge-live" : "badge-idle"}`}
 								>
-									{pollError ? "Polling error" : watching ? "Watching" : "Idle"}
+									{pollError
+										? "Polling error"
+										: scanning
+											? live
+												? "Live"
+												: "Scanning (polling)"
+											: "Idle"}
 								</span>
 							</header>
 
 							{pollError && <p className="error-text">{pollError}</p>}
+							{(scanner?.lagBlocks ?? 0) > 1 && (
+								<p className="hint">
+									Catching up: the scanner is {scanner?.lagBlocks} blocks behind.
+								</p>
+							)}
+
+							<div className="deposit-filters" role="group" aria-label="Filter deposits">
+								{DEPOSIT_FILTERS.map((filter) => (
+									<button
+										key={filter.label}
+										type="button"
+										className={filter.status === depositFilter ? "active" : ""}
+										aria-pressed={filter.status === depositFilter}
+										onClick={() => setDepositFilter(filter.status)}
+									>
+										{filter.label}
+									</button>
+								))}
+							</div>
 
 							{deposits.length === 0 ? (
-								<p className="hint">Waiting for the first USDC transfer…</p>
+								<p className="hint">
+									{depositFilter
+										? `No ${depositFilter} deposits.`
+										: "Waiting for the first deposit…"}
+								</p>
 							) : (
 								<ul className="deposit-list">
 									{deposits.map((deposit) => {
-										const isSelected =
-											selectedDeposit &&
-											deposit.txHash === selectedDeposit.txHash &&
-											deposit.logIndex === selectedDeposit.logIndex;
-										const amountDisplay = formatUnits(
-											BigInt(deposit.amount),
-											USDC_DECIMALS,
+										const isSelected = selectedDeposits.some(
+											(entry) =>
+												getDepositKey(entry) === getDepositKey(deposit),
 										);
+										const amountDisplay = formatDepositAmount(deposit);
 
 										return (
-											<li key={`${deposit.txHash}-${deposit.logIndex}`}>
+											<li key={getDepositKey(deposit)}>
 												<button
 													type="button"
 													className={`deposit-card ${
 														isSelected ? "selected" : ""
 													}`}
-													onClick={() => setSelectedDeposit(deposit)}
+													onClick={() => toggleDeposit(deposit)}
+													disabled={!isRefundable(deposit)}
 												>
 													<div className="deposit-row">
 														<span className="label">Amount</span>
-														<strong>{amountDisplay} USDC</strong>
+														<strong>{amountDisplay}</strong>
 													</div>
+													{deposit.refundedAmount !== "0" && (
+														<div className="deposit-row">
+															<span className="label">Refunded</span>
+															<span>
+																{formatDepositAmount(deposit, deposit.refundedAmount)}
+															</span>
+														</div>
+													)}
 													<div className="deposit-row">
 														<span className="label">Sender</span>
 														<span>{formatAddress(deposit.sender)}</span>
@@ -496,7 +920,9 @@ function App() {
 																? "Refunded"
 																: deposit.ready
 																	? "Ready"
-																	: "Pending"}
+																	: deposit.pending
+																		? `Confirming (${deposit.confirmations}/${confirmations})`
+																		: "Pending"}
 														</span>
 													</div>
 													<div className="deposit-row">
@@ -511,6 +937,11 @@ function App() {
 											</li>
 										);
 									})}
+									{hasMore && (
+										<li ref={loadMoreRef} className="hint">
+											{loadingMore ? "Loading older deposits…" : "Scroll for more"}
+										</li>
+									)}
 								</ul>
 							)}
 						</section>
@@ -518,25 +949,75 @@ function App() {
 						<section className="refund-panel">
 							<h3>Refund Funds</h3>
 							<p className="hint">
-								Select a ready deposit and trigger a WebAuthn-signed refund to the original sender.
+								Select ready deposits and refund them with a single WebAuthn signature. Each
+								returns what is left to its sender unless you enter a smaller amount or
+								another recipient.
 							</p>
+							{selectedDeposits.map((deposit) => {
+								const key = getDepositKey(deposit);
+								const draft = intentDrafts[key] ?? EMPTY_INTENT_DRAFT;
+								const token = findDepositToken(deposit.token);
+
+								return (
+									<fieldset key={key} className="refund-intent">
+										<legend>
+											{formatDepositAmount(
+												deposit,
+												getRemainingAmount(deposit).toString(),
+											)}{" "}
+											left from {formatAddress(deposit.sender)}
+										</legend>
+										<input
+											type="text"
+											inputMode="decimal"
+											placeholder={`Amount (default: all${token ? ` ${token.symbol}` : ""} left)`}
+											value={draft.amount}
+											onChange={(event) =>
+												updateIntentDraft(deposit, { amount: event.target.value })
+											}
+										/>
+										<input
+											type="text"
+											placeholder={`Recipient (default: ${formatAddress(deposit.sender)})`}
+											value={draft.recipient}
+											onChange={(event) =>
+												updateIntentDraft(deposit, {
+													recipient: event.target.value,
+												})
+											}
+										/>
+										<input
+											type="text"
+											placeholder="Reason (optional)"
+											maxLength={280}
+											value={draft.reason}
+											onChange={(event) =>
+												updateIntentDraft(deposit, { reason: event.target.value })
+											}
+										/>
+									</fieldset>
+								);
+							})}
 							<button
 								type="button"
-								onClick={refundDeposit}
+								onClick={refundDeposits}
 								disabled={
-									!selectedDeposit ||
-									!selectedDeposit.ready ||
-									selectedDeposit.refunded ||
+									!selectedDeposits.length ||
 									isRefunding ||
-									isDeploying
+									isDeploying ||
+									isRestoring
 								}
 							>
-								{isRefunding ? "Submitting…" : "Refund Selected Deposit"}
+								{isRefunding
+									? "Submitting…"
+									: `Refund ${selectedDeposits.length} Selected Deposit${
+											selectedDeposits.length === 1 ? "" : "s"
+										}`}
 							</button>
-							{lastRefundTxHash && (
+							{refundJob?.transactionHash && explorerUrl && (
 								<p className="tx-link">
 									<a
-										href={`https://sepolia.etherscan.io/tx/${lastRefundTxHash}`}
+										href={`${explorerUrl}/tx/${refundJob.transactionHash}`}
 										target="_blank"
 										rel="noopener noreferrer"
 									>
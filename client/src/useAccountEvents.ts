@@ -0,0 +1,315 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+	API_ROUTES,
+	type AccountEventType,
+	type ApiClient,
+	type ApiDeposit,
+	type ApiDepositsPage,
+	type ApiScannerStatus,
+	type DepositStatus,
+} from "../../shared";
+
+type AccountEventsState = {
+	/** Account and filter the state belongs to. */
+	key: string | null;
+	deposits: ApiDeposit[];
+	/** Cursor of the next older page, if there is one. */
+	nextCursor: string | null;
+	loadingMore: boolean;
+	scanner: ApiScannerStatus | null;
+	/** Whether updates arrive over the event stream rather than polling. */
+	live: boolean;
+	error: string | null;
+};
+
+const POLL_INTERVAL_MS = 5_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+const STREAMED_EVENT_TYPES: AccountEventType[] = [
+	"deposit.detected",
+	"deposit.updated",
+	"deposit.confirmed",
+	"deposit.ready",
+	"deposit.removed",
+	"refund.confirmed",
+];
+
+const EMPTY_STATE: AccountEventsState = {
+	key: null,
+	deposits: [],
+	nextCursor: null,
+	loadingMore: false,
+	scanner: null,
+	live: false,
+	error: null,
+};
+
+const getDepositKey = (deposit: ApiDeposit) =>
+	`${deposit.txHash}-${deposit.logIndex}`;
+
+const matchesStatus = (deposit: ApiDeposit, status?: DepositStatus) => {
+	switch (status) {
+		case "pending":
+			return deposit.pending;
+		case "ready":
+			return deposit.ready && !deposit.refunded;
+		case "refunded":
+			return deposit.refunded;
+		default:
+			return true;
+	}
+};
+
+/** Replaces deposits already in the list and puts new ones first. */
+const upsertDeposits = (current: ApiDeposit[], updates: ApiDeposit[]) => {
+	const updatesByKey = new Map(
+		updates.map((deposit) => [getDepositKey(deposit), deposit]),
+	);
+	const merged = current.map((deposit) => {
+		const key = getDepositKey(deposit);
+		const update = updatesByKey.get(key);
+		updatesByKey.delete(key);
+		return update ?? deposit;
+	});
+	return [...updatesByKey.values(), ...merged];
+};
+
+/**
+ * Deposits matching `status` and the scanner status of `accountAddress`, kept
+ * current by the server's event stream. While the stream is down the deposits
+ * endpoint is polled instead, and the stream is reopened with exponential
+ * backoff. Older deposits are fetched a page at a time with `loadMore`.
+ */
+export function useAccountEvents(
+	accountAddress: `0x${string}` | null,
+	api: ApiClient,
+	status?: DepositStatus,
+) {
+	const key = accountAddress ? `${accountAddress}:${status ?? "all"}` : null;
+	const [state, setState] = useState<AccountEventsState>(EMPTY_STATE);
+
+	useEffect(() => {
+		if (!accountAddress) {
+			return;
+		}
+
+		let isMounted = true;
+		let eventSource: EventSource | undefined;
+		let pollIntervalId: number | undefined;
+		let reconnectTimeoutId: number | undefined;
+		let reconnectAttempts = 0;
+
+		const update = (changes: Partial<AccountEventsState>) =>
+			setState((current) => ({
+				...(current.key === key ? current : EMPTY_STATE),
+				...changes,
+				key,
+			}));
+
+		const updateDeposits = (
+			change: (deposits: ApiDeposit[]) => ApiDeposit[],
+		) =>
+			setState((current) =>
+				current.key === key
+					? {
+							...current,
+							deposits: change(current.deposits).filter((deposit) =>
+								matchesStatus(deposit, status),
+							),
+						}
+					: current,
+			);
+
+		// Older pages the user already scrolled to stay loaded.
+		const applyFirstPage = (
+			page: ApiDepositsPage,
+			changes: Partial<AccountEventsState>,
+		) =>
+			setState((current) => {
+				const base = current.key === key ? current : EMPTY_STATE;
+				return {
+					...base,
+					...changes,
+					key,
+					scanner: page.scanner,
+					...(base.deposits.length
+						? {
+								deposits: upsertDeposits(base.deposits, page.deposits).filter(
+									(deposit) => matchesStatus(deposit, status),
+								),
+							}
+						: { deposits: page.deposits, nextCursor: page.nextCursor }),
+				};
+			});
+
+		const fetchDeposits = async () => {
+			try {
+				const payload = await api.listDeposits({
+					params: { address: accountAddress },
+					query: { status },
+				});
+				if (isMounted) {
+					applyFirstPage(payload, { error: null });
+				}
+			} catch (error) {
+				if (isMounted) {
+					update({
+						error:
+							error instanceof Error ? error.message : "Failed to poll deposits",
+					});
+				}
+			}
+		};
+
+		const startPolling = () => {
+			if (pollIntervalId === undefined) {
+				void fetchDeposits();
+				pollIntervalId = window.setInterval(fetchDeposits, POLL_INTERVAL_MS);
+			}
+		};
+
+		const stopPolling = () => {
+			clearInterval(pollIntervalId);
+			pollIntervalId = undefined;
+		};
+
+		const handleEvent = (message: MessageEvent<string>) => {
+			const event = API_ROUTES.accountEvents.response.parse(
+				JSON.parse(message.data),
+			);
+			const { deposit, deposits } = event.data;
+			if (deposit && event.type === "deposit.removed") {
+				// Its block was reorged out.
+				updateDeposits((current) =>
+					current.filter(
+						(entry) => getDepositKey(entry) !== getDepositKey(deposit),
+					),
+				);
+			} else if (deposit) {
+				updateDeposits((current) => upsertDeposits(current, [deposit]));
+			}
+			if (deposits) {
+				updateDeposits((current) => upsertDeposits(current, deposits));
+			}
+		};
+
+		const connect = () => {
+			const source = new EventSource(
+				api.url("accountEvents", {
+					params: { address: accountAddress },
+					query: { status },
+				}),
+			);
+			eventSource = source;
+
+			source.addEventListener("snapshot", (message) => {
+				reconnectAttempts = 0;
+				stopPolling();
+				applyFirstPage(
+					API_ROUTES.listDeposits.response.parse(JSON.parse(message.data)),
+					{ live: true, error: null },
+				);
+			});
+			source.addEventListener("scanner", (message) => {
+				update({ scanner: JSON.parse(message.data) });
+			});
+			for (const type of STREAMED_EVENT_TYPES) {
+				source.addEventListener(type, handleEvent);
+			}
+
+			source.onerror = () => {
+				update({ live: false });
+				startPolling();
+				// The browser retries dropped connections itself, but gives up
+				// on error responses.
+				if (source.readyState === EventSource.CLOSED) {
+					const delay = Math.min(
+						1_000 * 2 ** reconnectAttempts,
+						MAX_RECONNECT_DELAY_MS,
+					);
+					reconnectAttempts++;
+					reconnectTimeoutId = window.setTimeout(connect, delay);
+				}
+			};
+		};
+
+		if (typeof EventSource === "undefined") {
+			startPolling();
+		} else {
+			connect();
+		}
+
+		return () => {
+			isMounted = false;
+			eventSource?.close();
+			stopPolling();
+			clearTimeout(reconnectTimeoutId);
+		};
+	}, [accountAddress, api, key, status]);
+
+	const current = state.key === key ? state : EMPTY_STATE;
+
+	const loadMore = useCallback(async () => {
+		const cursor = current.nextCursor;
+		if (!accountAddress || !cursor || current.loadingMore) {
+			return;
+		}
+
+		setState((latest) =>
+			latest.key === key ? { ...latest, loadingMore: true } : latest,
+		);
+		try {
+			const page = await api.listDeposits({
+				params: { address: accountAddress },
+				query: { status, cursor },
+			});
+			setState((latest) => {
+				if (latest.key !== key) {
+					return latest;
+				}
+				const loaded = new Set(latest.deposits.map(getDepositKey));
+				return {
+					...latest,
+					deposits: [
+						...latest.deposits,
+						...page.deposits.filter(
+							(deposit) => !loaded.has(getDepositKey(deposit)),
+						),
+					],
+					nextCursor: page.nextCursor,
+					loadingMore: false,
+				};
+			});
+		} catch (error) {
+			setState((latest) =>
+				latest.key === key
+					? {
+							...latest,
+							loadingMore: false,
+							error:
+								error instanceof Error
+									? error.message
+									: "Failed to load older deposits",
+						}
+					: latest,
+			);
+		}
+	}, [
+		accountAddress,
+		api,
+		current.loadingMore,
+		current.nextCursor,
+		key,
+		status,
+	]);
+
+	return {
+		deposits: current.deposits,
+		scanner: current.scanner,
+		live: current.live,
+		error: current.error,
+		hasMore: Boolean(current.nextCursor),
+		loadingMore: current.loadingMore,
+		loadMore,
+	};
+}
@@ -1,24 +1,36 @@
-type Jsonish =
-	| string
-	| number
-	| boolean
-	| null
-	| bigint
-	| Jsonish[]
-	| { [key: string]: Jsonish };
+import type { ApiError } from "../../shared";
 
-export function serializeBigInts(value: Jsonish): Jsonish {
-	if (typeof value === "bigint") {
-		return value.toString();
-	}
-	if (Array.isArray(value)) {
-		return value.map((item) => serializeBigInts(item));
-	}
-	if (value !== null && typeof value === "object") {
-		const entries = Object.entries(value as Record<string, Jsonish>).map(
-			([key, entryValue]) => [key, serializeBigInts(entryValue)],
-		);
-		return Object.fromEntries(entries) as Jsonish;
-	}
-	return value;
-}
+// What the account owner can do about each decoded EntryPoint error.
+const ERROR_HINTS: Record<string, string> = {
+	account_creation_failed: "Restore the account and try again.",
+	account_not_deployed: "Restore the account so the next refund deploys it.",
+	insufficient_prefund:
+		"Send the account some ETH for gas, or enable the paymaster.",
+	signature_expired: "Start the refund again to get a fresh signature.",
+	invalid_signature:
+		"Sign with the passkey that created this account, or restore the account first.",
+	invalid_nonce: "Another operation used the nonce. Start the refund again.",
+	verification_gas_too_low: "Start the refund again to re-estimate gas.",
+	paymaster_deposit_too_low:
+		"The paymaster is out of funds. Try again later or pay gas with ETH.",
+	sponsorship_expired: "Start the refund again to get a new sponsorship.",
+	insufficient_token_balance:
+		"Refund a smaller amount or wait for incoming deposits.",
+	token_transfer_blocked:
+		"The token issuer must lift the restriction before this refund can go through.",
+	invite_required: "Enter the invite code you were given.",
+	rate_limited: "Wait a while before creating another account.",
+	funding_budget_exhausted:
+		"New accounts can no longer be funded today. Try again tomorrow.",
+	relayer_balance_low:
+		"The service is waiting for its operator to add funds. Try again later.",
+};
+
+/** Message for a failed request, followed by what to do about it when known. */
+export const formatApiError = (body: ApiError, fallback: string) => {
+	const hint = body.code ? ERROR_HINTS[body.code] : undefined;
+	const retry = body.retryAfter
+		? `Retry in ${Math.ceil(body.retryAfter / 60)} min.`
+		: undefined;
+	return [body.error || fallback, hint, retry].filter(Boolean).join(" ");
+};
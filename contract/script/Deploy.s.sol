@@ -5,6 +5,7 @@ import "forge-std/Script.sol";
 import "../src/AccountWebAuthn.sol";
 import "../src/AccountFactory.sol";
 import "../src/MyNFT.sol";
+import "../src/VerifyingPaymaster.sol";
 
 contract Deploy is Script {
     function run() external {
@@ -30,6 +31,11 @@ contract Deploy is Script {
         AccountFactory accountFactory = new AccountFactory(address(accountImpl));
         console.log("AccountFactory deployed at:", address(accountFactory));
 
+        // Deploy the paymaster; the relayer key signs sponsorships by default
+        VerifyingPaymaster paymaster = new VerifyingPaymaster(vm.addr(deployerPrivateKey), vm.addr(deployerPrivateKey));
+        paymaster.deposit{value: vm.envOr("PAYMASTER_DEPOSIT", uint256(0.05 ether))}();
+        console.log("VerifyingPaymaster deployed at:", address(paymaster));
+
         // Deploy test NFT
         MyNFT nftContract = new MyNFT(vm.addr(deployerPrivateKey));
         console.log("AccountWebAuthn implementation deployed at:", address(nftContract));
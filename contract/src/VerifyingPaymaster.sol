@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ERC4337Utils} from "@openzeppelin/contracts/account/utils/draft-ERC4337Utils.sol";
+import {IEntryPoint, IPaymaster, PackedUserOperation} from "@openzeppelin/contracts/interfaces/draft-IERC4337.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+
+/**
+ * @dev Paymaster that sponsors user operations approved off-chain by the relayer.
+ *
+ * `paymasterData` layout: `abi.encodePacked(uint48 validUntil, uint48 validAfter, bytes signature)`,
+ * where `signature` is an EIP-191 signature by `verifyingSigner` over {getHash}.
+ */
+contract VerifyingPaymaster is IPaymaster, Ownable {
+    using ERC4337Utils for PackedUserOperation;
+
+    uint256 private constant _SIGNATURE_OFFSET = 12;
+
+    address public verifyingSigner;
+
+    error PaymasterUnauthorized(address caller);
+    error InvalidPaymasterData();
+
+    event VerifyingSignerChanged(address indexed signer);
+
+    modifier onlyEntryPoint() {
+        if (msg.sender != address(entryPoint())) {
+            revert PaymasterUnauthorized(msg.sender);
+        }
+        _;
+    }
+
+    constructor(address owner_, address signer_) Ownable(owner_) {
+        verifyingSigner = signer_;
+    }
+
+    function entryPoint() public view virtual returns (IEntryPoint) {
+        return ERC4337Utils.ENTRYPOINT_V08;
+    }
+
+    function setVerifyingSigner(address signer_) external onlyOwner {
+        verifyingSigner = signer_;
+        emit VerifyingSignerChanged(signer_);
+    }
+
+    /// @dev Hash signed by the relayer. Covers every field except the signatures themselves.
+    function getHash(
+        PackedUserOperation calldata userOp,
+        uint48 validUntil,
+        uint48 validAfter
+    ) public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                userOp.sender,
+                userOp.nonce,
+                keccak256(userOp.initCode),
+                keccak256(userOp.callData),
+                userOp.accountGasLimits,
+                userOp.paymasterVerificationGasLimit(),
+                userOp.paymasterPostOpGasLimit(),
+                userOp.preVerificationGas,
+                userOp.gasFees,
+                block.chainid,
+                address(this),
+                validUntil,
+                validAfter
+            )
+        );
+    }
+
+    function validatePaymasterUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32,
+        uint256
+    ) external view onlyEntryPoint returns (bytes memory context, uint256 validationData) {
+        bytes calldata data = userOp.paymasterData();
+        if (data.length < _SIGNATURE_OFFSET) revert InvalidPaymasterData();
+
+        uint48 validUntil = uint48(bytes6(data[0:6]));
+        uint48 validAfter = uint48(bytes6(data[6:12]));
+        bytes32 hash = MessageHashUtils.toEthSignedMessageHash(getHash(userOp, validUntil, validAfter));
+        (address recovered, ECDSA.RecoverError err, ) = ECDSA.tryRecoverCalldata(hash, data[_SIGNATURE_OFFSET:]);
+
+        bool sigSuccess = err == ECDSA.RecoverError.NoError && recovered == verifyingSigner;
+        return ("", ERC4337Utils.packValidationData(sigSuccess, validAfter, validUntil));
+    }
+
+    function postOp(PostOpMode, bytes calldata, uint256, uint256) external view onlyEntryPoint {}
+
+    /// @dev Tops up this paymaster's EntryPoint deposit.
+    function deposit() external payable {
+        entryPoint().depositTo{value: msg.value}(address(this));
+    }
+
+    function getDeposit() external view returns (uint256) {
+        return entryPoint().balanceOf(address(this));
+    }
+
+    function withdrawTo(address payable to, uint256 amount) external onlyOwner {
+        entryPoint().withdrawTo(to, amount);
+    }
+
+    function addStake(uint32 unstakeDelaySec) external payable onlyOwner {
+        entryPoint().addStake{value: msg.value}(unstakeDelaySec);
+    }
+}
@@ -0,0 +1,23 @@
+-- Migration number: 0001 	 Account sessions and deposit history
+CREATE TABLE IF NOT EXISTS accounts (
+	address TEXT PRIMARY KEY,
+	credential_id TEXT NOT NULL,
+	last_synced_block INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS deposits (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	account TEXT NOT NULL REFERENCES accounts (address),
+	sender TEXT NOT NULL,
+	amount TEXT NOT NULL,
+	tx_hash TEXT NOT NULL,
+	log_index INTEGER NOT NULL,
+	block_number INTEGER NOT NULL,
+	block_timestamp INTEGER NOT NULL,
+	ready INTEGER NOT NULL DEFAULT 0,
+	refunded INTEGER NOT NULL DEFAULT 0,
+	refund_tx_hash TEXT,
+	UNIQUE (account, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS deposits_account_idx ON deposits (account, id);
@@ -0,0 +1,10 @@
+-- Migration number: 0002 	 Credential public keys and login challenges
+ALTER TABLE accounts ADD COLUMN public_key_x TEXT;
+ALTER TABLE accounts ADD COLUMN public_key_y TEXT;
+
+CREATE INDEX IF NOT EXISTS accounts_credential_idx ON accounts (credential_id);
+
+CREATE TABLE IF NOT EXISTS login_challenges (
+	challenge TEXT PRIMARY KEY,
+	expires_at INTEGER NOT NULL
+);
@@ -0,0 +1,8 @@
+-- Migration number: 0003 	 Per-account daily spend used by the user-operation policy
+CREATE TABLE IF NOT EXISTS daily_spend (
+	account TEXT NOT NULL,
+	day TEXT NOT NULL,
+	token TEXT NOT NULL,
+	amount TEXT NOT NULL,
+	PRIMARY KEY (account, day, token)
+);
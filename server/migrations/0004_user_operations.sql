@@ -0,0 +1,11 @@
+-- Migration number: 0004 	 User operations submitted through the relayer
+CREATE TABLE IF NOT EXISTS user_operations (
+	user_op_hash TEXT PRIMARY KEY,
+	sender TEXT NOT NULL,
+	entry_point TEXT NOT NULL,
+	user_op TEXT NOT NULL,
+	transaction_hash TEXT NOT NULL,
+	submitted_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS user_operations_sender_idx ON user_operations (sender);
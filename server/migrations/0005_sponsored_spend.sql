@@ -0,0 +1,5 @@
+-- Migration number: 0005 	 Wei committed by the verifying paymaster per account
+CREATE TABLE IF NOT EXISTS sponsored_spend (
+	account TEXT PRIMARY KEY,
+	amount TEXT NOT NULL
+);
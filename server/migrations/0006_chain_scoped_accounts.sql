@@ -0,0 +1,78 @@
+-- Migration number: 0006 	 Scope accounts and their history by chain id
+-- Existing rows predate multi-chain support and all belong to Sepolia.
+PRAGMA defer_foreign_keys = on;
+
+CREATE TABLE accounts_by_chain (
+	chain_id INTEGER NOT NULL,
+	address TEXT NOT NULL,
+	credential_id TEXT NOT NULL,
+	last_synced_block INTEGER,
+	public_key_x TEXT,
+	public_key_y TEXT,
+	PRIMARY KEY (chain_id, address)
+);
+
+INSERT INTO accounts_by_chain (chain_id, address, credential_id, last_synced_block, public_key_x, public_key_y)
+SELECT 11155111, address, credential_id, last_synced_block, public_key_x, public_key_y FROM accounts;
+
+-- Copy deposits aside without their foreign key so the old accounts table can
+-- be replaced before the new deposits table references the chain-scoped key.
+CREATE TABLE deposits_legacy AS SELECT * FROM deposits;
+DROP TABLE deposits;
+DROP TABLE accounts;
+ALTER TABLE accounts_by_chain RENAME TO accounts;
+
+CREATE TABLE deposits (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	sender TEXT NOT NULL,
+	amount TEXT NOT NULL,
+	tx_hash TEXT NOT NULL,
+	log_index INTEGER NOT NULL,
+	block_number INTEGER NOT NULL,
+	block_timestamp INTEGER NOT NULL,
+	ready INTEGER NOT NULL DEFAULT 0,
+	refunded INTEGER NOT NULL DEFAULT 0,
+	refund_tx_hash TEXT,
+	FOREIGN KEY (chain_id, account) REFERENCES accounts (chain_id, address),
+	UNIQUE (chain_id, account, tx_hash, log_index)
+);
+
+INSERT INTO deposits (id, chain_id, account, sender, amount, tx_hash, log_index, block_number, block_timestamp, ready, refunded, refund_tx_hash)
+SELECT id, 11155111, account, sender, amount, tx_hash, log_index, block_number, block_timestamp, ready, refunded, refund_tx_hash FROM deposits_legacy;
+
+DROP TABLE deposits_legacy;
+
+CREATE INDEX IF NOT EXISTS accounts_credential_idx ON accounts (chain_id, credential_id);
+CREATE INDEX IF NOT EXISTS deposits_account_idx ON deposits (chain_id, account, id);
+
+CREATE TABLE daily_spend_by_chain (
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	day TEXT NOT NULL,
+	token TEXT NOT NULL,
+	amount TEXT NOT NULL,
+	PRIMARY KEY (chain_id, account, day, token)
+);
+
+INSERT INTO daily_spend_by_chain (chain_id, account, day, token, amount)
+SELECT 11155111, account, day, token, amount FROM daily_spend;
+
+DROP TABLE daily_spend;
+ALTER TABLE daily_spend_by_chain RENAME TO daily_spend;
+
+CREATE TABLE sponsored_spend_by_chain (
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	amount TEXT NOT NULL,
+	PRIMARY KEY (chain_id, account)
+);
+
+INSERT INTO sponsored_spend_by_chain (chain_id, account, amount)
+SELECT 11155111, account, amount FROM sponsored_spend;
+
+DROP TABLE sponsored_spend;
+ALTER TABLE sponsored_spend_by_chain RENAME TO sponsored_spend;
+
+ALTER TABLE user_operations ADD COLUMN chain_id INTEGER NOT NULL DEFAULT 11155111;
@@ -0,0 +1,5 @@
+-- Migration number: 0007 	 Deposits tagged with the token they moved
+ALTER TABLE deposits ADD COLUMN token TEXT;
+
+-- Every deposit recorded so far was a Sepolia USDC transfer.
+UPDATE deposits SET token = '0x1c7d4b196cb0c7b01d743fbc6116a902379c7238' WHERE token IS NULL;
@@ -0,0 +1,22 @@
+-- Migration number: 0008 	 Partial refunds and the signed intents behind them
+ALTER TABLE deposits ADD COLUMN refunded_amount TEXT NOT NULL DEFAULT '0';
+
+UPDATE deposits SET refunded_amount = amount WHERE refunded = 1;
+
+CREATE TABLE IF NOT EXISTS refunds (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	deposit_tx_hash TEXT NOT NULL,
+	deposit_log_index INTEGER NOT NULL,
+	token TEXT NOT NULL,
+	amount TEXT NOT NULL,
+	recipient TEXT NOT NULL,
+	reason TEXT,
+	user_op_hash TEXT NOT NULL,
+	signature TEXT NOT NULL,
+	transaction_hash TEXT NOT NULL,
+	created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS refunds_account_idx ON refunds (chain_id, account, id);
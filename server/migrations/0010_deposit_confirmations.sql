@@ -0,0 +1,7 @@
+-- Migration number: 0010 	 Confirmation depth and reorg checks for deposits
+ALTER TABLE deposits ADD COLUMN block_hash TEXT;
+ALTER TABLE deposits ADD COLUMN confirmations INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE deposits ADD COLUMN pending INTEGER NOT NULL DEFAULT 0;
+
+-- Deposits recorded so far were treated as final once their log was seen.
+UPDATE deposits SET confirmations = 1;
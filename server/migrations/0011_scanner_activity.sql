@@ -0,0 +1,5 @@
+-- Migration number: 0011 	 Scheduled deposit scanning of recently active accounts
+ALTER TABLE accounts ADD COLUMN last_synced_at INTEGER;
+ALTER TABLE accounts ADD COLUMN last_active_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS accounts_active_idx ON accounts (chain_id, last_active_at);
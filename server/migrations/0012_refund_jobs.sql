@@ -0,0 +1,34 @@
+-- Migration number: 0012 	 Asynchronous refund jobs and per-deposit refund locks
+CREATE TABLE IF NOT EXISTS refund_jobs (
+	id TEXT PRIMARY KEY,
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	-- NULL for requests sent without an Idempotency-Key header.
+	idempotency_key TEXT,
+	request_hash TEXT NOT NULL,
+	status TEXT NOT NULL,
+	user_op_hash TEXT NOT NULL,
+	user_op TEXT NOT NULL,
+	intents TEXT NOT NULL,
+	-- JSON of the relayer transaction, once signed.
+	transaction_json TEXT,
+	replaced_transaction_hashes TEXT NOT NULL DEFAULT '',
+	error TEXT,
+	created_at INTEGER NOT NULL,
+	updated_at INTEGER NOT NULL,
+	UNIQUE (chain_id, account, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS refund_jobs_status_idx ON refund_jobs (chain_id, status, created_at);
+
+-- One row per deposit an open job refunds; the primary key is the lock.
+CREATE TABLE IF NOT EXISTS refund_locks (
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	deposit_tx_hash TEXT NOT NULL,
+	deposit_log_index INTEGER NOT NULL,
+	job_id TEXT NOT NULL REFERENCES refund_jobs (id),
+	PRIMARY KEY (chain_id, account, deposit_tx_hash, deposit_log_index)
+);
+
+CREATE INDEX IF NOT EXISTS refund_locks_job_idx ON refund_locks (job_id);
@@ -0,0 +1,2 @@
+-- Migration number: 0013 	 Decoded EntryPoint error codes of failed refund jobs
+ALTER TABLE refund_jobs ADD COLUMN error_code TEXT;
@@ -0,0 +1,25 @@
+-- Migration number: 0014 	 Bundled handleOps transactions and the relayer nonce
+CREATE TABLE IF NOT EXISTS relayer_bundles (
+	id TEXT PRIMARY KEY,
+	chain_id INTEGER NOT NULL,
+	status TEXT NOT NULL,
+	-- Comma-separated refund job ids, in handleOps order.
+	job_ids TEXT NOT NULL,
+	transaction_json TEXT NOT NULL,
+	replaced_transaction_hashes TEXT NOT NULL DEFAULT '',
+	created_at INTEGER NOT NULL,
+	updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS relayer_bundles_status_idx ON relayer_bundles (chain_id, status, created_at);
+
+-- Set when a queue flush claims the job, before its bundle is signed.
+ALTER TABLE refund_jobs ADD COLUMN bundle_id TEXT;
+
+-- Next nonce to hand out for each relayer EOA.
+CREATE TABLE IF NOT EXISTS relayer_nonces (
+	chain_id INTEGER NOT NULL,
+	address TEXT NOT NULL,
+	next_nonce INTEGER NOT NULL,
+	PRIMARY KEY (chain_id, address)
+);
@@ -0,0 +1,12 @@
+-- Migration number: 0015 	 Passkey login sessions
+CREATE TABLE IF NOT EXISTS auth_sessions (
+	-- SHA-256 of the bearer token.
+	token_hash TEXT PRIMARY KEY,
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	credential_id TEXT NOT NULL,
+	expires_at INTEGER NOT NULL,
+	created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS auth_sessions_expiry_idx ON auth_sessions (expires_at);
@@ -0,0 +1,8 @@
+-- Migration number: 0016 	 Fixed-window rate limits
+CREATE TABLE IF NOT EXISTS rate_limits (
+	chain_id INTEGER NOT NULL,
+	key TEXT NOT NULL,
+	window_start INTEGER NOT NULL,
+	hits INTEGER NOT NULL,
+	PRIMARY KEY (chain_id, key)
+);
@@ -0,0 +1,3 @@
+-- Migration number: 0017 	 Indexes for the admin dashboard's listings
+CREATE INDEX IF NOT EXISTS refund_jobs_account_idx ON refund_jobs (chain_id, account, created_at);
+CREATE INDEX IF NOT EXISTS relayer_bundles_created_idx ON relayer_bundles (chain_id, created_at);
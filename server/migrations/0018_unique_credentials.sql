@@ -0,0 +1,10 @@
+-- Migration number: 0018 	 One account per credential id on each chain
+-- A credential registered for several accounts stays with the first one; the
+-- others keep their rows, and their deposits, under an id no login can send.
+UPDATE accounts SET credential_id = credential_id || ':' || address
+WHERE rowid NOT IN (
+	SELECT MIN(rowid) FROM accounts GROUP BY chain_id, credential_id
+);
+
+DROP INDEX IF EXISTS accounts_credential_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS accounts_credential_idx ON accounts (chain_id, credential_id);
@@ -0,0 +1,9 @@
+-- Migration number: 0019 	 Paymaster gas signed for but not charged yet
+CREATE TABLE IF NOT EXISTS sponsorship_reservations (
+	chain_id INTEGER NOT NULL,
+	account TEXT NOT NULL,
+	nonce TEXT NOT NULL,
+	max_cost TEXT NOT NULL,
+	valid_until INTEGER NOT NULL,
+	PRIMARY KEY (chain_id, account, nonce)
+);
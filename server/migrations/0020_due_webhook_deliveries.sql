@@ -0,0 +1,2 @@
+-- Migration number: 0020 	 Index for the cron's retries of pending webhook deliveries
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (status, next_attempt_at);
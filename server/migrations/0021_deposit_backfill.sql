@@ -0,0 +1,3 @@
+-- Migration number: 0021 	 Older blocks each account's deposit sync still has to scan
+ALTER TABLE accounts ADD COLUMN backfill_floor INTEGER;
+ALTER TABLE accounts ADD COLUMN backfill_before INTEGER;
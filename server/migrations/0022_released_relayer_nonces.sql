@@ -0,0 +1,7 @@
+-- Migration number: 0022 	 Relayer nonces handed back after a failed send
+CREATE TABLE IF NOT EXISTS relayer_released_nonces (
+	chain_id INTEGER NOT NULL,
+	address TEXT NOT NULL,
+	nonce INTEGER NOT NULL,
+	PRIMARY KEY (chain_id, address, nonce)
+);
@@ -0,0 +1,14 @@
+-- Migration number: 0023 	 Daily spend reserved by each refund job when it is queued
+-- Rows of failed jobs are deleted; `daily_spend` keeps the totals recorded
+-- before, which still count.
+CREATE TABLE IF NOT EXISTS refund_spend (
+	chain_id INTEGER NOT NULL,
+	job_id TEXT NOT NULL REFERENCES refund_jobs (id),
+	account TEXT NOT NULL,
+	day TEXT NOT NULL,
+	token TEXT NOT NULL,
+	amount TEXT NOT NULL,
+	PRIMARY KEY (job_id, token)
+);
+
+CREATE INDEX IF NOT EXISTS refund_spend_day_idx ON refund_spend (chain_id, account, day);
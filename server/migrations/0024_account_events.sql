@@ -0,0 +1,21 @@
+-- Migration number: 0024 	 Account event log read by event streams, and the last chain head scanned
+-- Sequences are shared by all chains; rows older than an hour are dropped as
+-- new ones are logged.
+CREATE TABLE IF NOT EXISTS account_events (
+	sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+	chain_id INTEGER NOT NULL,
+	id TEXT NOT NULL,
+	type TEXT NOT NULL,
+	account TEXT NOT NULL,
+	payload TEXT NOT NULL,
+	created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS account_events_account_idx ON account_events (chain_id, account, sequence);
+CREATE INDEX IF NOT EXISTS account_events_created_idx ON account_events (chain_id, created_at);
+
+CREATE TABLE IF NOT EXISTS chain_heads (
+	chain_id INTEGER PRIMARY KEY,
+	block_number TEXT NOT NULL,
+	seen_at INTEGER NOT NULL
+);
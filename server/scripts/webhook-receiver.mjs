@@ -0,0 +1,39 @@
+// Local endpoint for trying out webhooks: logs every delivery and checks its
+// signature. Usage: WEBHOOK_SECRET=0x... node scripts/webhook-receiver.mjs [port]
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? 8788);
+const secret = process.env.WEBHOOK_SECRET;
+
+const verify = (timestamp, body, header) => {
+	const expected = `sha256=${createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`)
+		.digest("hex")}`;
+	return (
+		header?.length === expected.length &&
+		timingSafeEqual(Buffer.from(header), Buffer.from(expected))
+	);
+};
+
+createServer((request, response) => {
+	let body = "";
+	request.on("data", (chunk) => {
+		body += chunk;
+	});
+	request.on("end", () => {
+		const timestamp = request.headers["x-webhook-timestamp"];
+		const signature = request.headers["x-webhook-signature"];
+		const valid = secret ? verify(timestamp, body, signature) : undefined;
+
+		console.log(
+			`${request.headers["x-webhook-event"]} ${request.headers["x-webhook-id"]}`,
+			valid === undefined ? "(unverified)" : valid ? "(valid)" : "(INVALID)",
+		);
+		console.log(JSON.stringify(JSON.parse(body || "null"), null, 2));
+
+		response.writeHead(valid === false ? 401 : 204).end();
+	});
+}).listen(port, () => {
+	console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
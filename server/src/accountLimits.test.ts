@@ -0,0 +1,170 @@
+import { parseEther } from "viem";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { solveProofOfWork } from "../../shared";
+import {
+	type AccountCreationLimits,
+	checkAccountCreationGate,
+	hitAccountCreationLimits,
+	reserveAccountFunding,
+} from "./accountLimits";
+import { createMemoryStorage } from "./storage";
+import type { WebAuthnPublicKey } from "./types";
+
+const limits: AccountCreationLimits = {
+	ipLimit: 2,
+	publicKeyLimit: 3,
+	dailyFundingBudget: parseEther("0.03"),
+	inviteCodes: [],
+	requireProofOfWork: false,
+};
+
+const publicKey: WebAuthnPublicKey = {
+	x: `0x${"ab".repeat(32)}`,
+	y: `0x${"cd".repeat(32)}`,
+};
+
+const FUNDING = parseEther("0.01");
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.setSystemTime(new Date("2026-03-01T10:15:00Z"));
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("hitAccountCreationLimits", () => {
+	it("limits each IP per hour until the next hour starts", async () => {
+		const storage = createMemoryStorage();
+		const hit = (ip: string) =>
+			hitAccountCreationLimits(
+				storage,
+				{ ...limits, publicKeyLimit: 10 },
+				{ ip, publicKey },
+			);
+
+		expect(await hit("1.1.1.1")).toBeUndefined();
+		expect(await hit("1.1.1.1")).toBeUndefined();
+		expect(await hit("1.1.1.1")).toEqual({
+			status: 429,
+			error: "Too many accounts created; try again later",
+			code: "rate_limited",
+			retryAfter: 45 * 60,
+		});
+		expect(await hit("2.2.2.2")).toBeUndefined();
+
+		vi.setSystemTime(new Date("2026-03-01T11:00:00Z"));
+		expect(await hit("1.1.1.1")).toBeUndefined();
+	});
+
+	it("limits each public key per day across IPs and hex casing", async () => {
+		const storage = createMemoryStorage();
+		const hit = (ip: string, key = publicKey) =>
+			hitAccountCreationLimits(storage, limits, { ip, publicKey: key });
+
+		expect(await hit("1.1.1.1")).toBeUndefined();
+		expect(await hit("2.2.2.2")).toBeUndefined();
+		expect(
+			await hit("3.3.3.3", {
+				x: publicKey.x.toUpperCase() as WebAuthnPublicKey["x"],
+				y: publicKey.y,
+			}),
+		).toBeUndefined();
+		expect((await hit("4.4.4.4"))?.retryAfter).toBe((13 * 60 + 45) * 60);
+		expect(
+			await hit("4.4.4.4", { ...publicKey, y: `0x${"ef".repeat(32)}` }),
+		).toBeUndefined();
+
+		vi.setSystemTime(new Date("2026-03-02T00:00:00Z"));
+		expect(await hit("5.5.5.5")).toBeUndefined();
+	});
+});
+
+describe("reserveAccountFunding", () => {
+	it("counts fundings against the budget until UTC midnight", async () => {
+		const storage = createMemoryStorage();
+		for (let i = 0; i < 3; i++) {
+			expect(
+				await reserveAccountFunding(storage, limits, FUNDING),
+			).toBeUndefined();
+		}
+
+		vi.setSystemTime(new Date("2026-03-01T23:59:30Z"));
+		expect(await reserveAccountFunding(storage, limits, FUNDING)).toEqual({
+			status: 429,
+			error: "Today's budget for funding new accounts is used up",
+			code: "funding_budget_exhausted",
+			retryAfter: 30,
+		});
+
+		vi.setSystemTime(new Date("2026-03-02T00:00:00Z"));
+		expect(
+			await reserveAccountFunding(storage, limits, FUNDING),
+		).toBeUndefined();
+	});
+
+	it("refuses every funding when the budget is below one", async () => {
+		const storage = createMemoryStorage();
+		expect(
+			(
+				await reserveAccountFunding(
+					storage,
+					{ ...limits, dailyFundingBudget: FUNDING - 1n },
+					FUNDING,
+				)
+			)?.code,
+		).toBe("funding_budget_exhausted");
+	});
+});
+
+describe("checkAccountCreationGate", () => {
+	it("passes when no gate is enabled", async () => {
+		expect(await checkAccountCreationGate(limits, { publicKey })).toBe(
+			undefined,
+		);
+	});
+
+	it("requires one of the invite codes", async () => {
+		const gated = { ...limits, inviteCodes: ["alpha", "beta"] };
+
+		expect(await checkAccountCreationGate(gated, { publicKey })).toEqual({
+			status: 403,
+			error: "A valid invite code is required to create an account",
+			code: "invite_required",
+		});
+		expect(
+			(
+				await checkAccountCreationGate(gated, {
+					publicKey,
+					inviteCode: "gamma",
+				})
+			)?.code,
+		).toBe("invite_required");
+		expect(
+			await checkAccountCreationGate(gated, { publicKey, inviteCode: "beta" }),
+		).toBeUndefined();
+	});
+
+	it("requires a proof of work over the public key", async () => {
+		const gated = { ...limits, requireProofOfWork: true };
+		const proofOfWork = await solveProofOfWork(publicKey);
+
+		expect(await checkAccountCreationGate(gated, { publicKey })).toEqual({
+			status: 403,
+			error: "Missing or invalid proof of work",
+			code: "invalid_proof_of_work",
+		});
+		expect(
+			(
+				await checkAccountCreationGate(gated, {
+					publicKey: { ...publicKey, y: publicKey.x },
+					proofOfWork,
+				})
+			)?.code,
+		).toBe("invalid_proof_of_work");
+		expect(
+			await checkAccountCreationGate(gated, { publicKey, proofOfWork }),
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,166 @@
+import { parseEther } from "viem";
+import { verifyProofOfWork } from "../../shared";
+import type { AccountStorage } from "./storage";
+import type { Bindings, WebAuthnPublicKey } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DEFAULT_IP_LIMIT = 10;
+const DEFAULT_PUBLIC_KEY_LIMIT = 3;
+const DEFAULT_DAILY_FUNDING_BUDGET = parseEther("0.1");
+
+export type AccountCreationLimits = {
+	/** Calls per client IP and hour. */
+	ipLimit: number;
+	/**
+	 * Calls per passkey public key and day. Keyed on the key rather than the
+	 * credential ID, which the client picks freely.
+	 */
+	publicKeyLimit: number;
+	/** Wei the chain may spend funding new accounts per UTC day. */
+	dailyFundingBudget: bigint;
+	/** Empty when no invite code is needed. */
+	inviteCodes: string[];
+	requireProofOfWork: boolean;
+};
+
+/** Why an account may not be created; becomes the error response. */
+export type AccountCreationRefusal = {
+	status: 403 | 429;
+	error: string;
+	code:
+		| "invite_required"
+		| "invalid_proof_of_work"
+		| "rate_limited"
+		| "funding_budget_exhausted";
+	/** Seconds until the limit resets, for `429`s. */
+	retryAfter?: number;
+};
+
+export const loadAccountCreationLimits = (
+	env: Bindings,
+): AccountCreationLimits => ({
+	ipLimit: env.ACCOUNT_CREATE_IP_LIMIT
+		? Number(env.ACCOUNT_CREATE_IP_LIMIT)
+		: DEFAULT_IP_LIMIT,
+	publicKeyLimit: env.ACCOUNT_CREATE_CREDENTIAL_LIMIT
+		? Number(env.ACCOUNT_CREATE_CREDENTIAL_LIMIT)
+		: DEFAULT_PUBLIC_KEY_LIMIT,
+	dailyFundingBudget: env.DAILY_FUNDING_BUDGET
+		? BigInt(env.DAILY_FUNDING_BUDGET)
+		: DEFAULT_DAILY_FUNDING_BUDGET,
+	inviteCodes: (env.ACCOUNT_INVITE_CODES ?? "")
+		.split(",")
+		.map((code) => code.trim())
+		.filter(Boolean),
+	requireProofOfWork: env.REQUIRE_ACCOUNT_PROOF_OF_WORK === "true",
+});
+
+/** Windows are aligned to UTC, so daily ones reset at midnight. */
+const hitWindow = async (
+	storage: AccountStorage,
+	key: string,
+	limit: number,
+	windowMs: number,
+	now: number,
+) => {
+	const windowStart = now - (now % windowMs);
+	if (await storage.hitRateLimit(key, windowStart, limit)) {
+		return undefined;
+	}
+	return Math.ceil((windowStart + windowMs - now) / 1000);
+};
+
+/** Invite code and proof of work, when the worker asks for them. */
+export const checkAccountCreationGate = async (
+	limits: AccountCreationLimits,
+	request: {
+		publicKey: WebAuthnPublicKey;
+		inviteCode?: string;
+		proofOfWork?: number;
+	},
+): Promise<AccountCreationRefusal | undefined> => {
+	if (
+		limits.inviteCodes.length &&
+		!limits.inviteCodes.includes(request.inviteCode ?? "")
+	) {
+		return {
+			status: 403,
+			error: "A valid invite code is required to create an account",
+			code: "invite_required",
+		};
+	}
+	if (
+		limits.requireProofOfWork &&
+		(request.proofOfWork === undefined ||
+			!(await verifyProofOfWork(request.publicKey, request.proofOfWork)))
+	) {
+		return {
+			status: 403,
+			error: "Missing or invalid proof of work",
+			code: "invalid_proof_of_work",
+		};
+	}
+	return undefined;
+};
+
+/** Counts the call against the client's IP and the passkey's public key. */
+export const hitAccountCreationLimits = async (
+	storage: AccountStorage,
+	limits: AccountCreationLimits,
+	request: { ip: string; publicKey: WebAuthnPublicKey },
+	now = Date.now(),
+): Promise<AccountCreationRefusal | undefined> => {
+	const { x, y } = request.publicKey;
+	const retryAfter =
+		(await hitWindow(
+			storage,
+			`create:ip:${request.ip}`,
+			limits.ipLimit,
+			HOUR_MS,
+			now,
+		)) ??
+		(await hitWindow(
+			storage,
+			`create:key:${x}:${y}`.toLowerCase(),
+			limits.publicKeyLimit,
+			DAY_MS,
+			now,
+		));
+	return retryAfter === undefined
+		? undefined
+		: {
+				status: 429,
+				error: "Too many accounts created; try again later",
+				code: "rate_limited",
+				retryAfter,
+			};
+};
+
+/**
+ * Takes `amount` out of today's funding budget. The budget is tracked as a
+ * count of fundings, since every new account gets the same amount.
+ */
+export const reserveAccountFunding = async (
+	storage: AccountStorage,
+	limits: AccountCreationLimits,
+	amount: bigint,
+	now = Date.now(),
+): Promise<AccountCreationRefusal | undefined> => {
+	const retryAfter = await hitWindow(
+		storage,
+		"create:funding",
+		Number(limits.dailyFundingBudget / amount),
+		DAY_MS,
+		now,
+	);
+	return retryAfter === undefined
+		? undefined
+		: {
+				status: 429,
+				error: "Today's budget for funding new accounts is used up",
+				code: "funding_budget_exhausted",
+				retryAfter,
+			};
+};
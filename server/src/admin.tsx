@@ -0,0 +1,534 @@
+import { type Context, Hono } from "hono";
+import { basicAuth } from "hono/basic-auth";
+import { csrf } from "hono/csrf";
+import type { PropsWithChildren } from "hono/jsx";
+import {
+	type Address,
+	type Hex,
+	formatEther,
+	formatGwei,
+	formatUnits,
+} from "viem";
+import { CHAINS, findToken } from "../../shared";
+import { address, bytes32, object, string } from "../../shared/schema";
+import { getPublicClient, getSupportedChain } from "./clients";
+import { NATIVE_DEPOSIT_LOG_INDEX } from "./deposits";
+import { createRefundJobContext, reconcileRefundJob } from "./refunds";
+import { renderer } from "./renderer";
+import { syncAccountDeposits, toScannerStatus } from "./scanner";
+import { getStorage } from "./storage";
+import { getTreasuryStatus } from "./treasury";
+import type {
+	AccountSession,
+	AppEnv,
+	DepositRecord,
+	RefundJob,
+	RefundRecord,
+	RelayerBundle,
+	SupportedChain,
+} from "./types";
+import { getErrorMessage } from "./utils";
+import { validate } from "./validation";
+
+// Operator dashboard served under `/admin`: accounts, the deposit scanner, the
+// relayer and its treasury, plus manual fixes for accounts and refunds that got
+// stuck.
+
+const ACCOUNT_LIST_LIMIT = 100;
+const BUNDLE_LIST_LIMIT = 20;
+const DEPOSIT_LIST_LIMIT = 50;
+
+type AdminContext = Context<AppEnv>;
+
+/** Dashboard URL on the request's chain, with an optional banner message. */
+const adminUrl = (c: AdminContext, path: string, notice?: string) => {
+	const query = new URLSearchParams({ chainId: `${c.get("chain").chain.id}` });
+	if (notice) {
+		query.set("notice", notice);
+	}
+	return `/admin${path}?${query}`;
+};
+
+const formatTime = (timestamp?: number) =>
+	timestamp === undefined
+		? "—"
+		: new Date(timestamp).toISOString().replace("T", " ").slice(0, 19);
+
+const formatAmount = (
+	chain: SupportedChain,
+	token: Address,
+	amount: bigint,
+) => {
+	const config = findToken(chain, token);
+	return config
+		? `${formatUnits(amount, config.decimals)} ${config.symbol}`
+		: `${amount} (${token})`;
+};
+
+const shorten = (value: string) =>
+	value.length > 20 ? `${value.slice(0, 10)}…${value.slice(-8)}` : value;
+
+const TxLink = ({ chain, hash }: { chain: SupportedChain; hash?: Hex }) => {
+	if (!hash) {
+		return <>—</>;
+	}
+	return chain.explorerUrl ? (
+		<a href={`${chain.explorerUrl}/tx/${hash}`} title={hash}>
+			{shorten(hash)}
+		</a>
+	) : (
+		<code title={hash}>{shorten(hash)}</code>
+	);
+};
+
+const Page = ({
+	c,
+	title,
+	children,
+}: PropsWithChildren<{ c: AdminContext; title: string }>) => {
+	const current = c.get("chain");
+	const notice = c.req.query("notice");
+	return (
+		<>
+			<nav>
+				<a href={adminUrl(c, "")}>Dashboard</a>
+				{Object.values(CHAINS)
+					.filter((config) => getSupportedChain(c.env, config.chain.id))
+					.map((config) =>
+						config.chain.id === current.chain.id ? (
+							<strong>{config.chain.name}</strong>
+						) : (
+							<a href={`${c.req.path}?chainId=${config.chain.id}`}>
+								{config.chain.name}
+							</a>
+						),
+					)}
+			</nav>
+			<h1>{title}</h1>
+			{notice && <p class="notice">{notice}</p>}
+			{children}
+		</>
+	);
+};
+
+const AccountsTable = ({
+	c,
+	accounts,
+	latestBlock,
+}: {
+	c: AdminContext;
+	accounts: AccountSession[];
+	latestBlock: bigint;
+}) => (
+	<table>
+		<thead>
+			<tr>
+				<th>Account</th>
+				<th>Credential ID</th>
+				<th>Last active</th>
+				<th>Scanned</th>
+				<th>Synced block</th>
+				<th>Lag</th>
+				<th>Last sync</th>
+			</tr>
+		</thead>
+		<tbody>
+			{accounts.map((account) => {
+				const status = toScannerStatus(account, latestBlock);
+				return (
+					<tr>
+						<td>
+							<a href={adminUrl(c, `/accounts/${account.accountAddress}`)}>
+								<code>{account.accountAddress}</code>
+							</a>
+						</td>
+						<td>
+							<code title={account.credentialId}>
+								{shorten(account.credentialId)}
+							</code>
+						</td>
+						<td>{formatTime(account.lastActiveAt)}</td>
+						<td>{status.active ? "yes" : "idle"}</td>
+						<td>{status.lastSyncedBlock ?? "—"}</td>
+						<td class={status.stale ? "warning" : undefined}>
+							{status.lagBlocks ?? "—"}
+						</td>
+						<td>{formatTime(account.lastSyncedAt)}</td>
+					</tr>
+				);
+			})}
+		</tbody>
+	</table>
+);
+
+const BundlesTable = ({
+	chain,
+	bundles,
+}: {
+	chain: SupportedChain;
+	bundles: RelayerBundle[];
+}) => (
+	<table>
+		<thead>
+			<tr>
+				<th>Created</th>
+				<th>Status</th>
+				<th>Transaction</th>
+				<th>Nonce</th>
+				<th>Jobs</th>
+				<th>Fee bumps</th>
+				<th>Max fee</th>
+			</tr>
+		</thead>
+		<tbody>
+			{bundles.map((bundle) => (
+				<tr>
+					<td>{formatTime(bundle.createdAt)}</td>
+					<td>{bundle.status}</td>
+					<td>
+						<TxLink chain={chain} hash={bundle.transaction.hash} />
+					</td>
+					<td>{bundle.transaction.nonce}</td>
+					<td>{bundle.jobIds.length}</td>
+					<td>{bundle.replacedTransactionHashes.length}</td>
+					<td>{formatGwei(bundle.transaction.maxFeePerGas)} gwei</td>
+				</tr>
+			))}
+		</tbody>
+	</table>
+);
+
+const DepositsTable = ({
+	chain,
+	deposits,
+}: {
+	chain: SupportedChain;
+	deposits: DepositRecord[];
+}) => (
+	<table>
+		<thead>
+			<tr>
+				<th>Block</th>
+				<th>Transaction</th>
+				<th>Sender</th>
+				<th>Amount</th>
+				<th>Refunded</th>
+				<th>Confirmations</th>
+				<th>Status</th>
+			</tr>
+		</thead>
+		<tbody>
+			{deposits.map((deposit) => (
+				<tr>
+					<td>{deposit.blockNumber.toString()}</td>
+					<td>
+						<TxLink chain={chain} hash={deposit.txHash} />
+						{deposit.logIndex !== NATIVE_DEPOSIT_LOG_INDEX &&
+							` #${deposit.logIndex}`}
+					</td>
+					<td>
+						<code>{deposit.sender}</code>
+					</td>
+					<td>{formatAmount(chain, deposit.token, deposit.amount)}</td>
+					<td>{formatAmount(chain, deposit.token, deposit.refundedAmount)}</td>
+					<td>{deposit.confirmations}</td>
+					<td>
+						{deposit.refunded
+							? "refunded"
+							: deposit.pending
+								? "pending"
+								: deposit.ready
+									? "ready"
+									: "below minimum"}
+					</td>
+				</tr>
+			))}
+		</tbody>
+	</table>
+);
+
+const RefundJobsTable = ({
+	c,
+	jobs,
+}: {
+	c: AdminContext;
+	jobs: RefundJob[];
+}) => {
+	const chain = c.get("chain");
+	return (
+		<table>
+			<thead>
+				<tr>
+					<th>Created</th>
+					<th>Job</th>
+					<th>Status</th>
+					<th>Transaction</th>
+					<th>Intents</th>
+					<th>Error</th>
+					<th>Reconcile</th>
+				</tr>
+			</thead>
+			<tbody>
+				{jobs.map((job) => (
+					<tr>
+						<td>{formatTime(job.createdAt)}</td>
+						<td>
+							<code>{job.id}</code>
+						</td>
+						<td>{job.status}</td>
+						<td>
+							<TxLink chain={chain} hash={job.transaction?.hash} />
+						</td>
+						<td>
+							{job.intents
+								.map((intent) =>
+									formatAmount(chain, intent.token, intent.amount),
+								)
+								.join(", ")}
+						</td>
+						<td>{job.error ?? "—"}</td>
+						<td>
+							{job.status !== "confirmed" && (
+								<form
+									method="post"
+									action={adminUrl(c, `/refund-jobs/${job.id}/reconcile`)}
+								>
+									<input
+										name="transactionHash"
+										placeholder="handleOps transaction hash"
+										pattern="0x[0-9a-fA-F]{64}"
+										required
+									/>
+									<button type="submit">Mark reconciled</button>
+								</form>
+							)}
+						</td>
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+};
+
+const RefundsTable = ({
+	chain,
+	refunds,
+}: {
+	chain: SupportedChain;
+	refunds: RefundRecord[];
+}) => (
+	<table>
+		<thead>
+			<tr>
+				<th>Created</th>
+				<th>Deposit</th>
+				<th>Amount</th>
+				<th>Recipient</th>
+				<th>Reason</th>
+				<th>Transaction</th>
+			</tr>
+		</thead>
+		<tbody>
+			{refunds.map((refund) => (
+				<tr>
+					<td>{formatTime(refund.createdAt)}</td>
+					<td>
+						<TxLink chain={chain} hash={refund.depositTxHash} />
+					</td>
+					<td>{formatAmount(chain, refund.token, refund.amount)}</td>
+					<td>
+						<code>{refund.recipient}</code>
+					</td>
+					<td>{refund.reason ?? "—"}</td>
+					<td>
+						<TxLink chain={chain} hash={refund.transactionHash} />
+					</td>
+				</tr>
+			))}
+		</tbody>
+	</table>
+);
+
+export const admin = new Hono<AppEnv>();
+
+// The dashboard is only exposed when an admin password is configured. Forms
+// rely on the browser re-sending the credentials, so cross-site posts are
+// rejected.
+admin.use(async (c, next) => {
+	if (!c.env.ADMIN_PASSWORD) {
+		return c.json({ error: "Admin dashboard is not configured" }, 503);
+	}
+	return basicAuth({ username: "admin", password: c.env.ADMIN_PASSWORD })(
+		c,
+		next,
+	);
+});
+admin.use(csrf());
+admin.use(renderer);
+
+admin.get("/", async (c) => {
+	const chain = c.get("chain");
+	const storage = getStorage(c.env, chain.chain.id);
+	const [treasury, latestBlock, accounts, bundles] = await Promise.all([
+		getTreasuryStatus(c.env, chain),
+		getPublicClient(c.env, chain).getBlockNumber(),
+		storage.listAccounts(ACCOUNT_LIST_LIMIT),
+		storage.listRelayerBundles(BUNDLE_LIST_LIMIT),
+	]);
+	const { symbol } = chain.chain.nativeCurrency;
+
+	return c.render(
+		<Page c={c} title={`Admin · ${chain.chain.name}`}>
+			<h2>Treasury</h2>
+			<dl>
+				<dt>Relayer</dt>
+				<dd>
+					<code>{treasury.relayer.address}</code>
+				</dd>
+				<dt>Relayer balance</dt>
+				<dd
+					class={
+						treasury.relayer.balance < treasury.relayer.floor
+							? "warning"
+							: undefined
+					}
+				>
+					{formatEther(treasury.relayer.balance)} {symbol} (floor{" "}
+					{formatEther(treasury.relayer.floor)})
+				</dd>
+				{treasury.paymaster && (
+					<>
+						<dt>Paymaster</dt>
+						<dd>
+							<code>{treasury.paymaster.address}</code>
+						</dd>
+						<dt>EntryPoint deposit</dt>
+						<dd
+							class={
+								treasury.paymaster.deposit < treasury.paymaster.floor
+									? "warning"
+									: undefined
+							}
+						>
+							{formatEther(treasury.paymaster.deposit)} {symbol} (floor{" "}
+							{formatEther(treasury.paymaster.floor)}, topped up to{" "}
+							{formatEther(treasury.paymaster.target)})
+						</dd>
+					</>
+				)}
+				<dt>Latest block</dt>
+				<dd>{latestBlock.toString()}</dd>
+			</dl>
+			<h2>Recent handleOps transactions</h2>
+			<BundlesTable chain={chain} bundles={bundles} />
+			<h2>Accounts</h2>
+			<AccountsTable c={c} accounts={accounts} latestBlock={latestBlock} />
+		</Page>,
+		{ title: `Admin · ${chain.chain.name}` },
+	);
+});
+
+admin.get(
+	"/accounts/:address",
+	validate("param", object({ address: address() })),
+	async (c) => {
+		const chain = c.get("chain");
+		const storage = getStorage(c.env, chain.chain.id);
+		const { address: accountAddress } = c.req.valid("param");
+		const account = await storage.getAccountSession(accountAddress);
+		if (!account) {
+			return c.json({ error: "Account session not found" }, 404);
+		}
+
+		const [latestBlock, { deposits }, jobs, refunds] = await Promise.all([
+			getPublicClient(c.env, chain).getBlockNumber(),
+			storage.listDeposits(accountAddress, { limit: DEPOSIT_LIST_LIMIT }),
+			storage.listRefundJobs(accountAddress),
+			storage.listRefunds(accountAddress),
+		]);
+		const status = toScannerStatus(account, latestBlock);
+
+		return c.render(
+			<Page c={c} title={`Account ${accountAddress}`}>
+				<dl>
+					<dt>Credential ID</dt>
+					<dd>
+						<code>{account.credentialId}</code>
+					</dd>
+					<dt>Public key</dt>
+					<dd>{account.publicKey ? "registered" : "missing"}</dd>
+					<dt>Last active</dt>
+					<dd>{formatTime(account.lastActiveAt)}</dd>
+					<dt>Scanner</dt>
+					<dd>
+						{status.active ? "scanned" : "idle"}, synced to block{" "}
+						{status.lastSyncedBlock ?? "—"} of {status.latestBlock} at{" "}
+						{formatTime(account.lastSyncedAt)}
+						{status.stale && " (stale)"}
+					</dd>
+				</dl>
+				<form
+					method="post"
+					action={adminUrl(c, `/accounts/${accountAddress}/sync`)}
+				>
+					<button type="submit">Re-sync deposits</button>
+				</form>
+				<h2>Deposits</h2>
+				<DepositsTable chain={chain} deposits={deposits} />
+				<h2>Refund jobs</h2>
+				<RefundJobsTable c={c} jobs={jobs} />
+				<h2>Refunds</h2>
+				<RefundsTable chain={chain} refunds={refunds} />
+			</Page>,
+			{ title: `Admin · ${shorten(accountAddress)}` },
+		);
+	},
+);
+
+admin.post(
+	"/accounts/:address/sync",
+	validate("param", object({ address: address() })),
+	async (c) => {
+		const { address: accountAddress } = c.req.valid("param");
+		let notice = "Deposits re-synced";
+		try {
+			await syncAccountDeposits(c.env, c.get("chain"), accountAddress);
+		} catch (error) {
+			notice = `Failed to re-sync deposits: ${getErrorMessage(error)}`;
+		}
+		return c.redirect(adminUrl(c, `/accounts/${accountAddress}`, notice), 303);
+	},
+);
+
+admin.post(
+	"/refund-jobs/:id/reconcile",
+	validate("param", object({ id: string({ maxLength: 64 }) })),
+	validate("form", object({ transactionHash: bytes32() })),
+	async (c) => {
+		const chain = c.get("chain");
+		const job = await getStorage(c.env, chain.chain.id).getRefundJob(
+			c.req.valid("param").id,
+		);
+		if (!job) {
+			return c.json({ error: "Refund job not found" }, 404);
+		}
+
+		let notice: string;
+		if (job.status === "confirmed") {
+			notice = `Refund job ${job.id} is already confirmed`;
+		} else {
+			try {
+				const reconciled = await reconcileRefundJob(
+					createRefundJobContext(c.env, chain),
+					job,
+					c.req.valid("form").transactionHash,
+				);
+				notice = `Refund job ${job.id} is now ${reconciled.status}`;
+			} catch (error) {
+				const message = getErrorMessage(error);
+				notice = `Failed to reconcile refund job ${job.id}: ${message}`;
+			}
+		}
+		return c.redirect(adminUrl(c, `/accounts/${job.account}`, notice), 303);
+	},
+);
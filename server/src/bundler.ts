@@ -0,0 +1,572 @@
+import {
+	type Address,
+	type Hex,
+	type RpcLog,
+	type RpcTransactionReceipt,
+	decodeEventLog,
+	hexToNumber,
+	isHex,
+	numberToHex,
+	size,
+} from "viem";
+import {
+	type RpcUserOperation,
+	formatUserOperation,
+	formatUserOperationRequest,
+	toPackedUserOperation,
+} from "viem/account-abstraction";
+import { entryPointAbi } from "../../shared";
+import { getPublicClient, getWalletClient } from "./clients";
+import { decodeEntryPointError } from "./entryPointErrors";
+import {
+	estimateUserOperationGas as estimateGas,
+} from "./gas";
+import {
+	type Sponsorship,
+	getPaymasterConfig,
+	getStubSponsorship,
+	recordSponsorship,
+	sponsorUserOperation,
+} from "./paymaster";
+import { evaluatePolicy, loadPolicy } from "./policy";
+import { sendRelayerTransaction } from "./relayer";
+import { isSessionAccount } from "./sessions";
+import { getStorage } from "./storage";
+import { checkRelayerBalance } from "./treasury";
+import type { AuthSession, Bindings, SupportedChain } from "./types";
+import {
+	getPackedUserOperationHash,
+	isSupportedInitCode,
+	unpackUserOperation,
+} from "./userOperation";
+import { getErrorMessage, getUtcDay, normalizeAddress } from "./utils";
+import {
+	decodeWebAuthnSignature,
+	getWebAuthnConfig,
+	verifyWebAuthnAssertion,
+} from "./webauthn";
+
+// Error codes from JSON-RPC 2.0 and ERC-7769.
+export const RPC_ERROR_CODES = {
+	parseError: -32700,
+	invalidRequest: -32600,
+	methodNotFound: -32601,
+	invalidParams: -32602,
+	internalError: -32603,
+	simulationFailed: -32500,
+	invalidSignature: -32507,
+	/** Not part of ERC-7769: the relayer's sponsorship policy rejected the op. */
+	policyRejected: -32000,
+	/** Not part of ERC-7769: the method needs the sender's session token. */
+	unauthorized: -32001,
+} as const;
+
+type JsonRpcRequest = {
+	jsonrpc: "2.0";
+	id: string | number | null;
+	method: string;
+	params?: unknown[];
+};
+
+type JsonRpcResponse =
+	| { jsonrpc: "2.0"; id: string | number | null; result: unknown }
+	| {
+			jsonrpc: "2.0";
+			id: string | number | null;
+			error: { code: number; message: string; data?: unknown };
+	  };
+
+export class BundlerRpcError extends Error {
+	readonly code: number;
+	readonly data?: unknown;
+
+	constructor(code: number, message: string, data?: unknown) {
+		super(message);
+		this.name = "BundlerRpcError";
+		this.code = code;
+		this.data = data;
+	}
+}
+
+// Decoded EntryPoint reverts go in `data`; AA24 maps to the ERC-7769
+// signature error.
+const toSimulationError = (error: unknown) => {
+	const decoded = decodeEntryPointError(error);
+	return new BundlerRpcError(
+		decoded?.code === "invalid_signature"
+			? RPC_ERROR_CODES.invalidSignature
+			: RPC_ERROR_CODES.simulationFailed,
+		decoded?.message ?? getErrorMessage(error),
+		decoded,
+	);
+};
+
+const assertEntryPoint = (chain: SupportedChain, entryPoint: unknown) => {
+	if (
+		typeof entryPoint !== "string" ||
+		normalizeAddress(entryPoint) !== normalizeAddress(chain.entryPoint)
+	) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidParams,
+			`Unsupported EntryPoint ${String(entryPoint)}`,
+		);
+	}
+};
+
+const parseUserOperationParam = (value: unknown) => {
+	if (!value || typeof value !== "object" || !("sender" in value)) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidParams,
+			"Missing user operation",
+		);
+	}
+	return formatUserOperation(value as RpcUserOperation);
+};
+
+const parseUserOperationHashParam = (value: unknown) => {
+	if (typeof value !== "string" || !isHex(value) || size(value) !== 32) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidParams,
+			"Expected a 32-byte user operation hash",
+		);
+	}
+	return value.toLowerCase() as Hex;
+};
+
+const assertChainId = (chain: SupportedChain, chainId: unknown) => {
+	if (
+		typeof chainId !== "string" ||
+		!isHex(chainId) ||
+		hexToNumber(chainId) !== chain.chain.id
+	) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidParams,
+			`Unsupported chain ${String(chainId)}`,
+		);
+	}
+};
+
+const formatSponsorship = (sponsorship: Sponsorship) => ({
+	paymaster: sponsorship.paymaster,
+	paymasterData: sponsorship.paymasterData,
+	paymasterVerificationGasLimit: numberToHex(
+		sponsorship.paymasterVerificationGasLimit,
+	),
+	paymasterPostOpGasLimit: numberToHex(sponsorship.paymasterPostOpGasLimit),
+});
+
+const decodeEntryPointLog = (chain: SupportedChain, log: RpcLog) => {
+	if (normalizeAddress(log.address) !== normalizeAddress(chain.entryPoint)) {
+		return undefined;
+	}
+	try {
+		return decodeEventLog({
+			abi: entryPointAbi,
+			data: log.data,
+			topics: log.topics as [Hex, ...Hex[]],
+		});
+	} catch {
+		return undefined;
+	}
+};
+
+async function sendUserOperation(
+	env: Bindings,
+	chain: SupportedChain,
+	params: unknown[],
+) {
+	const [rpcUserOp, entryPoint] = params;
+	assertEntryPoint(chain, entryPoint);
+
+	const publicClient = getPublicClient(env, chain);
+	const walletClient = getWalletClient(env, chain);
+	const storage = getStorage(env, chain.chain.id);
+
+	const userOp = toPackedUserOperation(parseUserOperationParam(rpcUserOp));
+	const userOpHash = getPackedUserOperationHash(
+		userOp,
+		chain.chain.id,
+		chain.entryPoint,
+	);
+
+	const session = await storage.getAccountSession(userOp.sender);
+	if (!session?.publicKey) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidParams,
+			`Sender ${userOp.sender} is not a registered account`,
+		);
+	}
+
+	if (!isSupportedInitCode(userOp.initCode, chain.factory)) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidParams,
+			"initCode must deploy through the account factory",
+		);
+	}
+
+	let assertion: ReturnType<typeof decodeWebAuthnSignature>;
+	try {
+		assertion = decodeWebAuthnSignature(userOp.signature);
+	} catch {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidSignature,
+			"Signature is not an encoded WebAuthn assertion",
+		);
+	}
+
+	const verification = verifyWebAuthnAssertion(
+		assertion,
+		userOpHash,
+		session.publicKey,
+		getWebAuthnConfig(env),
+	);
+	if (!verification.valid) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidSignature,
+			verification.error,
+		);
+	}
+
+	const { deposits } = await storage.listDeposits(userOp.sender, {
+		status: "ready",
+	});
+	const policyResult = evaluatePolicy(
+		loadPolicy(env, chain),
+		userOp.callData,
+		{
+			depositSenders: deposits.map((deposit) => deposit.sender),
+			dailySpend: await storage.getDailySpend(userOp.sender, getUtcDay()),
+		},
+	);
+	if (!policyResult.allowed) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.policyRejected,
+			policyResult.error,
+		);
+	}
+	// Refunds need the refund route's deposit locks and bookkeeping.
+	if (policyResult.transfers.length > 0) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.policyRejected,
+			"Refunds must be sent through POST /account/refund",
+		);
+	}
+
+	const treasuryRefusal = await checkRelayerBalance(env, chain);
+	if (treasuryRefusal) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.policyRejected,
+			treasuryRefusal.error,
+			{ code: treasuryRefusal.code },
+		);
+	}
+
+	const { request } = await publicClient
+		.simulateContract({
+			address: chain.entryPoint,
+			abi: entryPointAbi,
+			functionName: "handleOps",
+			args: [[userOp], walletClient.account.address],
+			account: walletClient.account,
+		})
+		.catch((error: unknown) => {
+			throw toSimulationError(error);
+		});
+
+	const transactionHash = await sendRelayerTransaction(env, chain, (nonce) =>
+		walletClient.writeContract({ ...request, nonce }),
+	);
+
+	await storage.saveUserOperation({
+		userOpHash,
+		entryPoint: chain.entryPoint,
+		userOp,
+		transactionHash,
+		submittedAt: Date.now(),
+	});
+	await recordSponsorship(env, storage, userOp);
+
+	return userOpHash;
+}
+
+async function estimateUserOperationGas(
+	env: Bindings,
+	chain: SupportedChain,
+	params: unknown[],
+) {
+	const [rpcUserOp, entryPoint] = params;
+	assertEntryPoint(chain, entryPoint);
+
+	const userOp = parseUserOperationParam(rpcUserOp);
+	const packed = toPackedUserOperation(userOp);
+
+	const estimate = await estimateGas(
+		getPublicClient(env, chain),
+		chain,
+		packed,
+		getWebAuthnConfig(env),
+	).catch((error: unknown) => {
+		throw toSimulationError(error);
+	});
+
+	return {
+		preVerificationGas: numberToHex(estimate.preVerificationGas),
+		verificationGasLimit: numberToHex(estimate.verificationGasLimit),
+		callGasLimit: numberToHex(estimate.callGasLimit),
+	};
+}
+
+// ERC-7677 paymaster web service methods.
+async function getPaymasterStubData(
+	env: Bindings,
+	chain: SupportedChain,
+	params: unknown[],
+) {
+	const [, entryPoint, chainId] = params;
+	assertEntryPoint(chain, entryPoint);
+	assertChainId(chain, chainId);
+
+	const config = getPaymasterConfig(env);
+	if (!config) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.policyRejected,
+			"Paymaster is not configured",
+		);
+	}
+
+	return { ...formatSponsorship(getStubSponsorship(config)), isFinal: false };
+}
+
+async function getPaymasterData(
+	env: Bindings,
+	chain: SupportedChain,
+	params: unknown[],
+	session?: AuthSession,
+) {
+	const [rpcUserOp, entryPoint, chainId] = params;
+	assertEntryPoint(chain, entryPoint);
+	assertChainId(chain, chainId);
+
+	let userOp: ReturnType<typeof toPackedUserOperation>;
+	try {
+		userOp = toPackedUserOperation(parseUserOperationParam(rpcUserOp));
+	} catch (error) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.invalidParams,
+			error instanceof BundlerRpcError
+				? error.message
+				: "User operation is missing gas fields",
+		);
+	}
+
+	// Signing reserves part of the sender's budget, so only its owner may ask.
+	if (!session || !isSessionAccount(session, userOp.sender)) {
+		throw new BundlerRpcError(
+			RPC_ERROR_CODES.unauthorized,
+			"Sponsorship needs a session token of the sender's account",
+		);
+	}
+
+	const result = await sponsorUserOperation(
+		env,
+		chain,
+		getStorage(env, chain.chain.id),
+		userOp,
+	);
+	if (!result.sponsored) {
+		throw new BundlerRpcError(RPC_ERROR_CODES.policyRejected, result.error);
+	}
+
+	return formatSponsorship(result);
+}
+
+async function getUserOperationByHash(
+	env: Bindings,
+	chain: SupportedChain,
+	params: unknown[],
+) {
+	const userOpHash = parseUserOperationHashParam(params[0]);
+	const record = await getStorage(env, chain.chain.id).getUserOperation(
+		userOpHash,
+	);
+	if (!record) {
+		return null;
+	}
+
+	const transaction = await getPublicClient(env, chain).request({
+		method: "eth_getTransactionByHash",
+		params: [record.transactionHash],
+	});
+
+	return {
+		userOperation: formatUserOperationRequest(
+			unpackUserOperation(record.userOp),
+		),
+		entryPoint: record.entryPoint,
+		transactionHash: record.transactionHash,
+		blockHash: transaction?.blockHash ?? null,
+		blockNumber: transaction?.blockNumber ?? null,
+	};
+}
+
+async function getUserOperationReceipt(
+	env: Bindings,
+	chain: SupportedChain,
+	params: unknown[],
+) {
+	const userOpHash = parseUserOperationHashParam(params[0]);
+	const record = await getStorage(env, chain.chain.id).getUserOperation(
+		userOpHash,
+	);
+	if (!record) {
+		return null;
+	}
+
+	const receipt = (await getPublicClient(env, chain).request({
+		method: "eth_getTransactionReceipt",
+		params: [record.transactionHash],
+	})) as RpcTransactionReceipt | null;
+	if (!receipt) {
+		return null;
+	}
+
+	// Logs emitted by an op sit between the previous op's UserOperationEvent
+	// (or BeforeExecution) and its own UserOperationEvent.
+	let opLogsStart = 0;
+	let revertReason: Hex | undefined;
+	for (const [index, log] of receipt.logs.entries()) {
+		const event = decodeEntryPointLog(chain, log);
+		if (!event) {
+			continue;
+		}
+
+		if (
+			event.eventName === "UserOperationRevertReason" &&
+			event.args.userOpHash === userOpHash
+		) {
+			revertReason = event.args.revertReason;
+		}
+
+		if (event.eventName === "BeforeExecution") {
+			opLogsStart = index + 1;
+		}
+
+		if (event.eventName === "UserOperationEvent") {
+			if (event.args.userOpHash !== userOpHash) {
+				opLogsStart = index + 1;
+				continue;
+			}
+
+			return {
+				userOpHash,
+				entryPoint: record.entryPoint,
+				sender: event.args.sender as Address,
+				nonce: numberToHex(event.args.nonce),
+				paymaster: event.args.paymaster as Address,
+				actualGasCost: numberToHex(event.args.actualGasCost),
+				actualGasUsed: numberToHex(event.args.actualGasUsed),
+				success: event.args.success,
+				reason: revertReason ?? "0x",
+				logs: receipt.logs.slice(opLogsStart, index),
+				receipt,
+			};
+		}
+	}
+
+	return null;
+}
+
+const methods: Record<
+	string,
+	(
+		env: Bindings,
+		chain: SupportedChain,
+		params: unknown[],
+		session?: AuthSession,
+	) => Promise<unknown>
+> = {
+	eth_chainId: async (_env, chain) => numberToHex(chain.chain.id),
+	eth_supportedEntryPoints: async (_env, chain) => [chain.entryPoint],
+	eth_sendUserOperation: sendUserOperation,
+	eth_estimateUserOperationGas: estimateUserOperationGas,
+	eth_getUserOperationByHash: getUserOperationByHash,
+	eth_getUserOperationReceipt: getUserOperationReceipt,
+	pm_getPaymasterStubData: getPaymasterStubData,
+	pm_getPaymasterData: getPaymasterData,
+};
+
+async function handleRequest(
+	env: Bindings,
+	chain: SupportedChain,
+	payload: unknown,
+	session?: AuthSession,
+): Promise<JsonRpcResponse> {
+	const request = payload as Partial<JsonRpcRequest> | null;
+	const id = request?.id ?? null;
+
+	if (
+		!request ||
+		request.jsonrpc !== "2.0" ||
+		typeof request.method !== "string"
+	) {
+		return {
+			jsonrpc: "2.0",
+			id,
+			error: {
+				code: RPC_ERROR_CODES.invalidRequest,
+				message: "Invalid JSON-RPC request",
+			},
+		};
+	}
+
+	const method = methods[request.method];
+	if (!method) {
+		return {
+			jsonrpc: "2.0",
+			id,
+			error: {
+				code: RPC_ERROR_CODES.methodNotFound,
+				message: `Method ${request.method} not supported`,
+			},
+		};
+	}
+
+	try {
+		const result = await method(env, chain, request.params ?? [], session);
+		return { jsonrpc: "2.0", id, result };
+	} catch (error) {
+		if (error instanceof BundlerRpcError) {
+			return {
+				jsonrpc: "2.0",
+				id,
+				error: { code: error.code, message: error.message, data: error.data },
+			};
+		}
+		return {
+			jsonrpc: "2.0",
+			id,
+			error: {
+				code: RPC_ERROR_CODES.internalError,
+				message: getErrorMessage(error),
+			},
+		};
+	}
+}
+
+/**
+ * Serves ERC-4337 bundler methods; accepts single and batched requests.
+ * `session` is the caller's, if it sent a token.
+ */
+export async function handleBundlerRpc(
+	env: Bindings,
+	chain: SupportedChain,
+	payload: unknown,
+	session?: AuthSession,
+) {
+	if (Array.isArray(payload)) {
+		return Promise.all(
+			payload.map((entry) => handleRequest(env, chain, entry, session)),
+		);
+	}
+	return handleRequest(env, chain, payload, session);
+}
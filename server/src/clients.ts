@@ -0,0 +1,42 @@
+import { createPublicClient, createWalletClient, type Hex, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { getChainConfig } from "../../shared";
+import type { Bindings, SupportedChain } from "./types";
+
+export type PublicClient = ReturnType<typeof getPublicClient>;
+export type WalletClient = ReturnType<typeof getWalletClient>;
+
+/** Registry entry for `chainId` if this worker has an RPC URL and a factory for it. */
+export const getSupportedChain = (
+	env: Bindings,
+	chainId: number,
+): SupportedChain | undefined => {
+	const config = getChainConfig(chainId);
+	if (!config?.factory || !env[config.rpcBinding]) {
+		return undefined;
+	}
+	return {
+		...config,
+		factory: config.factory,
+		confirmations: env.DEPOSIT_CONFIRMATIONS
+			? Number(env.DEPOSIT_CONFIRMATIONS)
+			: config.confirmations,
+		depositStartBlock: env.DEPOSIT_START_BLOCK
+			? BigInt(env.DEPOSIT_START_BLOCK)
+			: config.depositStartBlock,
+	};
+};
+
+export const getPublicClient = (env: Bindings, chain: SupportedChain) =>
+	createPublicClient({
+		chain: chain.chain,
+		transport: http(env[chain.rpcBinding]),
+	});
+
+/** Wallet for the relayer EOA that pays for deployments and `handleOps`. */
+export const getWalletClient = (env: Bindings, chain: SupportedChain) =>
+	createWalletClient({
+		chain: chain.chain,
+		transport: http(env[chain.rpcBinding]),
+		account: privateKeyToAccount(env.PRIVATE_KEY as Hex),
+	});
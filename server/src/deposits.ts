@@ -0,0 +1,510 @@
+import { type Address, BlockNotFoundError, type Hex, getAbiItem } from "viem";
+import {
+	type TokenConfig,
+	NATIVE_TOKEN_ADDRESS,
+	findToken,
+	isNativeToken,
+	usdcAbi,
+} from "../../shared";
+import type { PublicClient } from "./clients";
+import { emitAccountEvent, publishAccountEvent } from "./events";
+import { serializeDeposit } from "./serializers";
+import type { AccountStorage } from "./storage";
+import type { AccountSession, DepositRecord, SupportedChain } from "./types";
+import { normalizeAddress } from "./utils";
+
+// How far before its first sync an account's deposits are looked for, unless
+// the chain sets a `depositStartBlock`.
+const DEFAULT_LOOKBACK_BLOCKS = 2_000n;
+// Catching up after downtime, and backfilling the lookback, are spread over
+// several syncs of this many blocks each.
+const MAX_SYNC_BLOCKS = 100n;
+const MAX_GET_LOGS_RANGE = 10n;
+
+/** Native transfers emit no log; their deposits use this log index. */
+export const NATIVE_DEPOSIT_LOG_INDEX = -1;
+
+const transferEvent = getAbiItem({ abi: usdcAbi, name: "Transfer" });
+
+/**
+ * Chain reads behind deposit syncs. The scheduled scan shares one reader
+ * across a chain's accounts, so every block, receipt and log range is fetched
+ * once per run however many accounts it is matched against, and all of them
+ * sync up to the same head.
+ */
+export type BlockReader = ReturnType<typeof createBlockReader>;
+
+export const createBlockReader = (
+	publicClient: PublicClient,
+	chain: SupportedChain,
+) => {
+	const reads = new Map<string, Promise<unknown>>();
+	// Failed reads are dropped so the next account retries them.
+	const read = <T>(key: string, fetch: () => Promise<T>) => {
+		let value = reads.get(key) as Promise<T> | undefined;
+		if (!value) {
+			value = fetch();
+			value.catch(() => reads.delete(key));
+			reads.set(key, value);
+		}
+		return value;
+	};
+	const tokens = Object.values(chain.tokens)
+		.filter((token) => !isNativeToken(token))
+		.map((token) => token.address);
+	const getLatestBlock = () =>
+		read("latest", () => publicClient.getBlockNumber());
+
+	return {
+		getLatestBlock,
+		getBlockHeader: (blockNumber: bigint) =>
+			read(`header:${blockNumber}`, () =>
+				publicClient.getBlock({ blockNumber }),
+			),
+		getBlock: (blockNumber: bigint) =>
+			read(`block:${blockNumber}`, () =>
+				publicClient.getBlock({ blockNumber, includeTransactions: true }),
+			),
+		getTransactionReceipt: (hash: Hex) =>
+			read(`receipt:${hash}`, () =>
+				publicClient.getTransactionReceipt({ hash }),
+			),
+		/**
+		 * `Transfer` events of every registered ERC-20 token in the log range
+		 * starting at `fromBlock`, a multiple of `MAX_GET_LOGS_RANGE`.
+		 */
+		getTokenTransfers: (fromBlock: bigint) =>
+			read(`logs:${fromBlock}`, async () => {
+				const latestBlock = await getLatestBlock();
+				const rangeEnd = fromBlock + MAX_GET_LOGS_RANGE - 1n;
+				return publicClient.getLogs({
+					address: tokens,
+					event: transferEvent,
+					fromBlock,
+					toBlock: rangeEnd > latestBlock ? latestBlock : rangeEnd,
+				});
+			}),
+	};
+};
+
+/**
+ * Confirmation state of a deposit mined in `blockNumber`. Deposits only become
+ * ready once their block can no longer be reorged out.
+ */
+const getConfirmationState = (
+	chain: SupportedChain,
+	token: TokenConfig | undefined,
+	amount: bigint,
+	blockNumber: bigint,
+	latestBlock: bigint,
+) => {
+	const depth = BigInt(chain.confirmations);
+	const confirmations = latestBlock - blockNumber + 1n;
+	const pending = confirmations < depth;
+	return {
+		confirmations: Number(pending ? confirmations : depth),
+		pending,
+		ready: !pending && !!token && amount >= token.minRefundAmount,
+	};
+};
+
+/** `Transfer` events of every registered ERC-20 token into `account`. */
+const fetchTokenDeposits = async (
+	reader: BlockReader,
+	chain: SupportedChain,
+	account: Address,
+	start: bigint,
+	end: bigint,
+	latestBlock: bigint,
+) => {
+	if (Object.values(chain.tokens).every(isNativeToken)) {
+		return [];
+	}
+
+	const deposits: DepositRecord[] = [];
+	const recipient = normalizeAddress(account);
+	// Ranges are aligned so that accounts with different cursors share them.
+	let cursor = start - (start % MAX_GET_LOGS_RANGE);
+
+	while (cursor <= end) {
+		const logs = await reader.getTokenTransfers(cursor);
+
+		for (const log of logs) {
+			const token = findToken(chain, log.address);
+			const { from: sender, to, value } = log.args;
+			if (
+				!token ||
+				!sender ||
+				!to ||
+				normalizeAddress(to) !== recipient ||
+				value === undefined ||
+				log.removed ||
+				log.blockNumber < start ||
+				log.blockNumber > end
+			) {
+				continue;
+			}
+
+			deposits.push({
+				token: normalizeAddress(token.address),
+				sender,
+				amount: value,
+				txHash: log.transactionHash,
+				logIndex: log.logIndex,
+				blockNumber: log.blockNumber,
+				blockHash: log.blockHash,
+				blockTimestamp: Number(
+					(await reader.getBlockHeader(log.blockNumber)).timestamp,
+				),
+				...getConfirmationState(
+					chain,
+					token,
+					value,
+					log.blockNumber,
+					latestBlock,
+				),
+				refundedAmount: 0n,
+				refunded: false,
+			});
+		}
+
+		cursor += MAX_GET_LOGS_RANGE;
+	}
+
+	return deposits;
+};
+
+/**
+ * Successful transactions that send the native currency straight to
+ * `account`. Value forwarded by contracts (internal transfers) would need
+ * execution traces and is not detected.
+ */
+const fetchNativeDeposits = async (
+	reader: BlockReader,
+	chain: SupportedChain,
+	account: Address,
+	relayer: Address,
+	start: bigint,
+	end: bigint,
+	latestBlock: bigint,
+) => {
+	const token = Object.values(chain.tokens).find(isNativeToken);
+	if (!token) {
+		return [];
+	}
+
+	const deposits: DepositRecord[] = [];
+	const recipient = normalizeAddress(account);
+
+	for (let blockNumber = start; blockNumber <= end; blockNumber++) {
+		const block = await reader.getBlock(blockNumber);
+
+		for (const transaction of block.transactions) {
+			if (
+				!transaction.to ||
+				normalizeAddress(transaction.to) !== recipient ||
+				transaction.value === 0n ||
+				// Gas money the relayer sends new accounts is not a deposit.
+				normalizeAddress(transaction.from) === normalizeAddress(relayer)
+			) {
+				continue;
+			}
+
+			const receipt = await reader.getTransactionReceipt(transaction.hash);
+			if (receipt.status !== "success") {
+				continue;
+			}
+
+			deposits.push({
+				token: NATIVE_TOKEN_ADDRESS,
+				sender: transaction.from,
+				amount: transaction.value,
+				txHash: transaction.hash,
+				logIndex: NATIVE_DEPOSIT_LOG_INDEX,
+				blockNumber,
+				blockHash: block.hash,
+				blockTimestamp: Number(block.timestamp),
+				...getConfirmationState(
+					chain,
+					token,
+					transaction.value,
+					blockNumber,
+					latestBlock,
+				),
+				refundedAmount: 0n,
+				refunded: false,
+			});
+		}
+	}
+
+	return deposits;
+};
+
+const lookbackFrom = (latestBlock: bigint, lookback: bigint) =>
+	latestBlock > lookback ? latestBlock - lookback : 0n;
+
+type DepositEvent = {
+	chainId: number;
+	account: Address;
+	data: { deposit: ReturnType<typeof serializeDeposit> };
+};
+
+const getDepositEvent = (
+	chain: SupportedChain,
+	account: Address,
+	deposit: DepositRecord,
+): DepositEvent => ({
+	chainId: chain.chain.id,
+	account,
+	data: { deposit: serializeDeposit(deposit) },
+});
+
+const emitConfirmedEvents = async (
+	storage: AccountStorage,
+	event: DepositEvent,
+	deposit: DepositRecord,
+) => {
+	if (deposit.pending) {
+		return;
+	}
+	await emitAccountEvent(storage, { ...event, type: "deposit.confirmed" });
+	if (deposit.ready) {
+		await emitAccountEvent(storage, { ...event, type: "deposit.ready" });
+	}
+};
+
+/** Hash of the canonical block at `blockNumber`, if the chain still reaches it. */
+const getCanonicalBlockHash = async (
+	reader: BlockReader,
+	blockNumber: bigint,
+): Promise<Hex | undefined> => {
+	try {
+		return (await reader.getBlockHeader(blockNumber)).hash;
+	} catch (error) {
+		if (error instanceof BlockNotFoundError) {
+			return undefined;
+		}
+		throw error;
+	}
+};
+
+/**
+ * Re-checks the block hash of every pending deposit. Deposits whose block was
+ * reorged out are removed before they can become ready; the others have their
+ * confirmations updated. Resolves to the lowest block a deposit was removed
+ * from, so the sync can rescan it in case the transaction was mined again.
+ */
+async function confirmPendingDeposits(
+	reader: BlockReader,
+	chain: SupportedChain,
+	storage: AccountStorage,
+	account: Address,
+	latestBlock: bigint,
+) {
+	const blockHashes = new Map<string, Hex | undefined>();
+	let orphanedFrom: bigint | undefined;
+
+	const { deposits } = await storage.listDeposits(account, {
+		status: "pending",
+	});
+	for (const deposit of deposits) {
+		const cacheKey = deposit.blockNumber.toString();
+		if (!blockHashes.has(cacheKey)) {
+			blockHashes.set(
+				cacheKey,
+				await getCanonicalBlockHash(reader, deposit.blockNumber),
+			);
+		}
+
+		if (blockHashes.get(cacheKey) !== deposit.blockHash) {
+			await storage.removeDeposit(account, deposit.txHash, deposit.logIndex);
+			await emitAccountEvent(storage, {
+				...getDepositEvent(chain, account, deposit),
+				type: "deposit.removed",
+			});
+			if (orphanedFrom === undefined || deposit.blockNumber < orphanedFrom) {
+				orphanedFrom = deposit.blockNumber;
+			}
+			continue;
+		}
+
+		const updated: DepositRecord = {
+			...deposit,
+			...getConfirmationState(
+				chain,
+				findToken(chain, deposit.token),
+				deposit.amount,
+				deposit.blockNumber,
+				latestBlock,
+			),
+		};
+		if (updated.confirmations === deposit.confirmations) {
+			continue;
+		}
+
+		await storage.updateDepositConfirmations(account, updated);
+		const event = getDepositEvent(chain, account, updated);
+		if (updated.pending) {
+			await publishAccountEvent(storage, { ...event, type: "deposit.updated" });
+		} else {
+			await emitConfirmedEvents(storage, event, updated);
+		}
+	}
+
+	return orphanedFrom;
+}
+
+/** Token and native deposits into `account` mined from `start` to `end`. */
+const fetchDeposits = async (
+	reader: BlockReader,
+	chain: SupportedChain,
+	account: Address,
+	relayer: Address,
+	start: bigint,
+	end: bigint,
+	latestBlock: bigint,
+) => [
+	...(await fetchTokenDeposits(
+		reader,
+		chain,
+		account,
+		start,
+		end,
+		latestBlock,
+	)),
+	...(await fetchNativeDeposits(
+		reader,
+		chain,
+		account,
+		relayer,
+		start,
+		end,
+		latestBlock,
+	)),
+];
+
+/**
+ * Confirms or drops pending deposits, then records token and native deposits
+ * into the session's account from its last synced block onward and advances
+ * the sync cursor up to the last block at the confirmation depth. At most
+ * `maxBlocks` blocks are scanned: the first sync only scans the latest ones,
+ * and later syncs spend what the new blocks leave on backfilling the range
+ * before those, down to the chain's `depositStartBlock` or
+ * `DEFAULT_LOOKBACK_BLOCKS` back.
+ */
+export async function syncDeposits(
+	reader: BlockReader,
+	chain: SupportedChain,
+	storage: AccountStorage,
+	session: AccountSession,
+	relayer: Address,
+	maxBlocks = MAX_SYNC_BLOCKS,
+) {
+	const account = session.accountAddress;
+	const latestBlock = await reader.getLatestBlock();
+	const orphanedFrom = await confirmPendingDeposits(
+		reader,
+		chain,
+		storage,
+		account,
+		latestBlock,
+	);
+	const lastSyncedBlock =
+		orphanedFrom !== undefined &&
+		session.lastSyncedBlock !== undefined &&
+		orphanedFrom <= session.lastSyncedBlock
+			? orphanedFrom - 1n
+			: session.lastSyncedBlock;
+
+	const deposits: DepositRecord[] = [];
+	let backfill = session.backfill;
+	let fromBlock: bigint;
+	let toBlock = latestBlock;
+
+	if (lastSyncedBlock !== undefined) {
+		fromBlock = lastSyncedBlock + 1n;
+		if (toBlock - fromBlock >= maxBlocks) {
+			toBlock = fromBlock + maxBlocks - 1n;
+		}
+	} else {
+		fromBlock = lookbackFrom(latestBlock, maxBlocks - 1n);
+		const floor =
+			chain.depositStartBlock ??
+			lookbackFrom(latestBlock, DEFAULT_LOOKBACK_BLOCKS);
+		if (fromBlock > floor) {
+			backfill = { floor, before: fromBlock };
+		}
+	}
+
+	let budget = maxBlocks;
+	if (fromBlock <= toBlock) {
+		deposits.push(
+			...(await fetchDeposits(
+				reader,
+				chain,
+				account,
+				relayer,
+				fromBlock,
+				toBlock,
+				latestBlock,
+			)),
+		);
+		budget -= toBlock - fromBlock + 1n;
+	}
+
+	if (backfill && backfill === session.backfill && budget > 0n) {
+		const start =
+			backfill.before - backfill.floor > budget
+				? backfill.before - budget
+				: backfill.floor;
+		deposits.push(
+			...(await fetchDeposits(
+				reader,
+				chain,
+				account,
+				relayer,
+				start,
+				backfill.before - 1n,
+				latestBlock,
+			)),
+		);
+		backfill =
+			start > backfill.floor ? { ...backfill, before: start } : undefined;
+	}
+
+	// Storage keeps the newest deposits, so record them in chain order.
+	deposits.sort((a, b) =>
+		a.blockNumber === b.blockNumber
+			? a.logIndex - b.logIndex
+			: a.blockNumber < b.blockNumber
+				? -1
+				: 1,
+	);
+	for (const deposit of deposits) {
+		if (!(await storage.recordDeposit(account, deposit))) {
+			continue;
+		}
+
+		const event = getDepositEvent(chain, account, deposit);
+		await emitAccountEvent(storage, { ...event, type: "deposit.detected" });
+		await emitConfirmedEvents(storage, event, deposit);
+	}
+
+	if (backfill !== session.backfill) {
+		await storage.setDepositBackfill(account, backfill);
+	}
+	// Blocks short of the confirmation depth can still be reorged, so the
+	// cursor stays behind them and the next sync scans them again.
+	const confirmedBlock = lookbackFrom(
+		latestBlock,
+		BigInt(chain.confirmations) - 1n,
+	);
+	let cursor = fromBlock > toBlock ? latestBlock : toBlock;
+	if (cursor > confirmedBlock) {
+		cursor = confirmedBlock;
+	}
+	if (lastSyncedBlock !== undefined && cursor < lastSyncedBlock) {
+		cursor = lastSyncedBlock;
+	}
+	await storage.setLastSyncedBlock(account, cursor, Date.now());
+}
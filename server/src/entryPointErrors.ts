@@ -0,0 +1,331 @@
+import {
+	type Address,
+	BaseError,
+	ContractFunctionRevertedError,
+	type Hex,
+	type Log,
+	decodeErrorResult,
+	isAddressEqual,
+	isHex,
+	parseEventLogs,
+} from "viem";
+import { entryPointAbi } from "../../shared";
+
+export type EntryPointErrorCode =
+	| "account_creation_failed"
+	| "account_not_deployed"
+	| "insufficient_prefund"
+	| "signature_expired"
+	| "account_validation_reverted"
+	| "invalid_signature"
+	| "invalid_nonce"
+	| "verification_gas_too_low"
+	| "paymaster_not_deployed"
+	| "paymaster_deposit_too_low"
+	| "sponsorship_expired"
+	| "paymaster_validation_reverted"
+	| "invalid_sponsorship"
+	| "post_op_reverted"
+	| "insufficient_token_balance"
+	| "token_transfer_blocked"
+	| "execution_reverted"
+	| "entry_point_error";
+
+export type EntryPointError = {
+	code: EntryPointErrorCode;
+	/** What went wrong, phrased for the account owner. */
+	message: string;
+	/** ERC-4337 `AAxx` prefix of a `FailedOp` reason. */
+	aaCode?: string;
+	/** Revert reason the message was derived from, including inner reverts. */
+	reason?: string;
+	/** Position in the `handleOps` array of the operation a `FailedOp` names. */
+	opIndex?: number;
+};
+
+/**
+ * What a mined `handleOps` transaction did with one of its operations.
+ * `reverted` operations still paid for gas; `missing` ones never executed.
+ */
+export type UserOperationOutcome =
+	| { status: "succeeded" }
+	| { status: "reverted"; error: EntryPointError }
+	| { status: "missing" };
+
+type ErrorDescription = Pick<EntryPointError, "code" | "message">;
+
+// `FailedOp` reasons of EntryPoint v0.8. AA1x codes concern the factory,
+// AA2x the account, AA3x the paymaster and AA4x/AA5x gas accounting.
+const AA_ERRORS: Record<string, ErrorDescription> = {
+	AA10: {
+		code: "account_creation_failed",
+		message:
+			"The account is already deployed, so the operation must not carry initCode.",
+	},
+	AA13: {
+		code: "account_creation_failed",
+		message: "Deploying the account failed or ran out of gas.",
+	},
+	AA14: {
+		code: "account_creation_failed",
+		message:
+			"The factory deployed a different address than the operation's sender.",
+	},
+	AA15: {
+		code: "account_creation_failed",
+		message: "The factory did not deploy the account.",
+	},
+	AA20: {
+		code: "account_not_deployed",
+		message: "The account is not deployed and the operation has no initCode.",
+	},
+	AA21: {
+		code: "insufficient_prefund",
+		message:
+			"The account cannot pay for gas. Send it ETH or use the paymaster.",
+	},
+	AA22: {
+		code: "signature_expired",
+		message: "The operation's signature has expired or is not valid yet.",
+	},
+	AA23: {
+		code: "account_validation_reverted",
+		message: "The account reverted while validating the operation.",
+	},
+	AA24: {
+		code: "invalid_signature",
+		message: "The passkey signature does not match the account.",
+	},
+	AA25: {
+		code: "invalid_nonce",
+		message: "The account nonce was already used.",
+	},
+	AA26: {
+		code: "verification_gas_too_low",
+		message:
+			"Account validation needs more gas than verificationGasLimit allows.",
+	},
+	AA30: {
+		code: "paymaster_not_deployed",
+		message: "The paymaster contract is not deployed.",
+	},
+	AA31: {
+		code: "paymaster_deposit_too_low",
+		message: "The paymaster's EntryPoint deposit cannot cover this operation.",
+	},
+	AA32: {
+		code: "sponsorship_expired",
+		message: "The paymaster sponsorship has expired or is not valid yet.",
+	},
+	AA33: {
+		code: "paymaster_validation_reverted",
+		message: "The paymaster reverted while validating the operation.",
+	},
+	AA34: {
+		code: "invalid_sponsorship",
+		message: "The paymaster signature does not match the operation.",
+	},
+	AA36: {
+		code: "verification_gas_too_low",
+		message: "Paymaster validation needs more gas than the operation allows.",
+	},
+	AA40: {
+		code: "verification_gas_too_low",
+		message: "Validation used more gas than verificationGasLimit allows.",
+	},
+	AA41: {
+		code: "verification_gas_too_low",
+		message: "verificationGasLimit is too low for validation.",
+	},
+	AA50: {
+		code: "post_op_reverted",
+		message: "The paymaster's postOp reverted.",
+	},
+	AA51: {
+		code: "insufficient_prefund",
+		message: "The prefund did not cover the actual gas cost.",
+	},
+};
+
+// Revert strings of the FiatToken contracts behind USDC and EURC.
+const TOKEN_REVERTS: (ErrorDescription & { pattern: RegExp })[] = [
+	{
+		pattern: /exceeds balance/i,
+		code: "insufficient_token_balance",
+		message: "The account does not hold enough of the token for this refund.",
+	},
+	{
+		pattern: /blacklisted/i,
+		code: "token_transfer_blocked",
+		message: "The token issuer has blocked one of the addresses.",
+	},
+	{
+		pattern: /paused/i,
+		code: "token_transfer_blocked",
+		message: "Transfers of the token are paused.",
+	},
+];
+
+type DecodedRevert = {
+	errorName: string;
+	args?: readonly unknown[];
+};
+
+const isRevertData = (value: unknown): value is Hex =>
+	isHex(value) && value.length >= 10;
+
+const fromFailedOp = (
+	opIndex: number,
+	reason: string,
+	inner?: Hex,
+): EntryPointError => {
+	const aaCode = reason.match(/^AA\d\d/)?.[0];
+	const description = aaCode ? AA_ERRORS[aaCode] : undefined;
+	const innerReason =
+		inner && isRevertData(inner) ? decodeRevertData(inner).reason : undefined;
+	return {
+		code: description?.code ?? "entry_point_error",
+		message:
+			description?.message ??
+			`The EntryPoint rejected the operation: ${reason}.`,
+		aaCode,
+		reason: innerReason ? `${reason}: ${innerReason}` : reason,
+		opIndex,
+	};
+};
+
+const fromCallRevert = (reason: string): EntryPointError => {
+	const tokenRevert = TOKEN_REVERTS.find(({ pattern }) => pattern.test(reason));
+	return tokenRevert
+		? { code: tokenRevert.code, message: tokenRevert.message, reason }
+		: {
+				code: "execution_reverted",
+				message: `The refund call reverted: ${reason}.`,
+				reason,
+			};
+};
+
+const fromDecodedRevert = ({
+	errorName,
+	args = [],
+}: DecodedRevert): EntryPointError => {
+	switch (errorName) {
+		case "FailedOp":
+			return fromFailedOp(Number(args[0]), String(args[1]));
+		case "FailedOpWithRevert":
+			return fromFailedOp(Number(args[0]), String(args[1]), args[2] as Hex);
+		case "SignatureValidationFailed":
+			return {
+				code: "invalid_signature",
+				message: "The signature aggregator rejected the operation.",
+				reason: `SignatureValidationFailed(${args[0]})`,
+			};
+		case "PostOpReverted": {
+			const inner = args[0] as Hex;
+			return {
+				code: "post_op_reverted",
+				message: AA_ERRORS.AA50.message,
+				reason: isRevertData(inner)
+					? decodeRevertData(inner).reason
+					: undefined,
+			};
+		}
+		case "Error":
+			return fromCallRevert(String(args[0]));
+		default:
+			return fromCallRevert(`${errorName}(${args.map(String).join(", ")})`);
+	}
+};
+
+/**
+ * Classifies raw revert data: EntryPoint errors, `Error(string)` and `Panic`
+ * reverts, such as those of a failed token transfer.
+ */
+export function decodeRevertData(data: Hex): EntryPointError {
+	try {
+		return fromDecodedRevert(decodeErrorResult({ abi: entryPointAbi, data }));
+	} catch {
+		return {
+			code: "execution_reverted",
+			message: "The call reverted with an unknown error.",
+			reason: data,
+		};
+	}
+}
+
+/**
+ * Finds the revert behind a failed viem call, such as a `handleOps`
+ * simulation. Undefined for errors that carry no revert data, like RPC
+ * outages.
+ */
+export function decodeEntryPointError(
+	error: unknown,
+): EntryPointError | undefined {
+	if (!(error instanceof BaseError)) {
+		return undefined;
+	}
+
+	const reverted = error.walk(
+		(cause) => cause instanceof ContractFunctionRevertedError,
+	);
+	if (reverted instanceof ContractFunctionRevertedError) {
+		if (reverted.data) {
+			return fromDecodedRevert(reverted.data);
+		}
+		if (isRevertData(reverted.raw)) {
+			return decodeRevertData(reverted.raw);
+		}
+	}
+
+	// Calls without an ABI, like `eth_estimateGas`, leave the data on the RPC
+	// error.
+	const withData = error.walk((cause) =>
+		isRevertData((cause as { data?: unknown }).data),
+	);
+	const data = (withData as { data?: unknown } | null)?.data;
+	return isRevertData(data) ? decodeRevertData(data) : undefined;
+}
+
+/**
+ * Outcome of an operation in a mined `handleOps` transaction, from the logs
+ * the transaction's `entryPoint` emitted. Other contracts, like the refunded
+ * tokens, may emit events with the same signatures.
+ */
+export function getUserOperationOutcome(
+	logs: Log[],
+	entryPoint: Address,
+	userOpHash: Hex,
+): UserOperationOutcome {
+	const events = parseEventLogs({
+		abi: entryPointAbi,
+		eventName: ["UserOperationEvent", "UserOperationRevertReason"],
+		logs: logs.filter((log) => isAddressEqual(log.address, entryPoint)),
+	}).filter(
+		(event) => event.args.userOpHash.toLowerCase() === userOpHash.toLowerCase(),
+	);
+
+	const result = events.find(
+		(event) => event.eventName === "UserOperationEvent",
+	);
+	if (result?.eventName !== "UserOperationEvent") {
+		return { status: "missing" };
+	}
+	if (result.args.success) {
+		return { status: "succeeded" };
+	}
+	for (const event of events) {
+		if (event.eventName === "UserOperationRevertReason") {
+			return {
+				status: "reverted",
+				error: decodeRevertData(event.args.revertReason),
+			};
+		}
+	}
+	return {
+		status: "reverted",
+		error: {
+			code: "execution_reverted",
+			message: "The refund calls ran out of gas or reverted.",
+		},
+	};
+}
@@ -0,0 +1,50 @@
+import type { AccountEventType } from "../../shared";
+import type { AccountStorage } from "./storage";
+import type { WebhookEventType } from "./types";
+import { type WebhookEvent, emitWebhookEvent } from "./webhooks";
+
+/** Webhook events plus confirmation progress, which is only streamed. */
+export type AccountEvent = Omit<WebhookEvent, "type"> & {
+	type: AccountEventType;
+};
+
+type AccountEventInput<T extends AccountEventType> = Omit<
+	AccountEvent,
+	"id" | "type" | "createdAt"
+> & { type: T };
+
+const createEvent = <T extends AccountEventType>(
+	event: AccountEventInput<T>,
+) => ({ id: crypto.randomUUID(), createdAt: Date.now(), ...event });
+
+// Streams of any isolate read the log, so events raised by the cron reach them
+// too. A failed write only costs the streams this one event.
+const logEvent = async (storage: AccountStorage, event: AccountEvent) => {
+	try {
+		await storage.logAccountEvent({
+			id: event.id,
+			type: event.type,
+			account: event.account,
+			payload: JSON.stringify(event),
+			createdAt: event.createdAt,
+		});
+	} catch (error) {
+		console.error(`Account event log error for ${event.account}:`, error);
+	}
+};
+
+/** Logs the event for the account's streams only. */
+export const publishAccountEvent = (
+	storage: AccountStorage,
+	event: AccountEventInput<AccountEventType>,
+) => logEvent(storage, createEvent(event));
+
+/** Logs the event for the account's streams and sends it to webhooks. */
+export async function emitAccountEvent(
+	storage: AccountStorage,
+	event: AccountEventInput<WebhookEventType>,
+) {
+	const fullEvent = createEvent(event);
+	await logEvent(storage, fullEvent);
+	await emitWebhookEvent(storage, fullEvent);
+}
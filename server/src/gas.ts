@@ -0,0 +1,240 @@
+import { Base64 } from "ox";
+import {
+	type Hex,
+	encodeAbiParameters,
+	encodeFunctionData,
+	hexToBytes,
+	maxUint128,
+	size,
+} from "viem";
+import type { PackedUserOperation } from "viem/account-abstraction";
+import { accountWebAuthnAbi } from "../../shared";
+import type { PublicClient } from "./clients";
+import { decodeExecutionCalls } from "./policy";
+import type { SupportedChain } from "./types";
+import {
+	getPackedUserOperationHash,
+	packUint128Pair,
+	splitInitCode,
+} from "./userOperation";
+import { type WebAuthnConfig, encodeWebAuthnSignature } from "./webauthn";
+
+// Calldata pricing used by the reference bundler to derive preVerificationGas.
+const TX_BASE_GAS = 21_000n;
+const PER_USER_OP_GAS = 18_300n;
+const PER_USER_OP_WORD_GAS = 4n;
+const ZERO_BYTE_GAS = 4n;
+const NON_ZERO_BYTE_GAS = 16n;
+const BUNDLE_SIZE = 1n;
+
+// EntryPoint bookkeeping around `validateUserOp` plus the prefund transfer,
+// neither of which is covered by estimating the account call alone.
+const VERIFICATION_OVERHEAD_GAS = 25_000n;
+const VERIFICATION_BUFFER_PERCENT = 120n;
+const CALL_BUFFER_PERCENT = 110n;
+
+// Undeployed accounts have no code or signer to simulate `validateUserOp`
+// against, so validation assumes a Solidity (non-precompile) P-256 check.
+const UNDEPLOYED_VALIDATION_GAS = 400_000n;
+// ERC-7821 batch decoding and per-call dispatch inside `execute`.
+const EXECUTE_OVERHEAD_GAS = 10_000n;
+const PER_CALL_OVERHEAD_GAS = 5_000n;
+
+const packedUserOperationTuple = {
+	type: "tuple",
+	components: [
+		{ name: "sender", type: "address" },
+		{ name: "nonce", type: "uint256" },
+		{ name: "initCode", type: "bytes" },
+		{ name: "callData", type: "bytes" },
+		{ name: "accountGasLimits", type: "bytes32" },
+		{ name: "preVerificationGas", type: "uint256" },
+		{ name: "gasFees", type: "bytes32" },
+		{ name: "paymasterAndData", type: "bytes" },
+		{ name: "signature", type: "bytes" },
+	],
+} as const;
+
+export type GasEstimateInput = Pick<
+	PackedUserOperation,
+	"sender" | "nonce" | "initCode" | "callData" | "paymasterAndData"
+>;
+
+export type GasEstimate = {
+	verificationGasLimit: bigint;
+	callGasLimit: bigint;
+	preVerificationGas: bigint;
+	maxFeePerGas: bigint;
+	maxPriorityFeePerGas: bigint;
+};
+
+/**
+ * Stand-in assertion with the same shape and size as a real passkey
+ * signature, so estimates include the full P-256 verification and calldata.
+ * The challenge must be the op's hash, or the account rejects the assertion
+ * before it verifies the signature.
+ */
+export const buildDummySignature = (
+	config: WebAuthnConfig,
+	userOpHash: Hex,
+): Hex => {
+	const clientDataJSON = JSON.stringify({
+		type: "webauthn.get",
+		challenge: Base64.fromHex(userOpHash, { url: true, pad: false }),
+		origin: config.allowedOrigins[0],
+		crossOrigin: false,
+	});
+
+	return encodeWebAuthnSignature({
+		metadata: {
+			authenticatorData: `0x${"49".repeat(32)}0500000001`,
+			clientDataJSON,
+			challengeIndex: clientDataJSON.indexOf('"challenge"'),
+			typeIndex: clientDataJSON.indexOf('"type"'),
+		},
+		rHex: `0x${"7f".repeat(32)}`,
+		sHex: `0x${"3f".repeat(32)}`,
+	});
+};
+
+/** Cost of carrying the op in `handleOps` calldata, amortised over the bundle. */
+export const calculatePreVerificationGas = (userOp: PackedUserOperation) => {
+	const encoded = hexToBytes(
+		encodeAbiParameters([packedUserOperationTuple], [userOp]),
+	);
+
+	let callDataCost = 0n;
+	for (const byte of encoded) {
+		callDataCost += byte === 0 ? ZERO_BYTE_GAS : NON_ZERO_BYTE_GAS;
+	}
+
+	const words = BigInt(Math.ceil(encoded.length / 32));
+	return (
+		callDataCost +
+		TX_BASE_GAS / BUNDLE_SIZE +
+		PER_USER_OP_GAS +
+		PER_USER_OP_WORD_GAS * words
+	);
+};
+
+const withBuffer = (value: bigint, percent: bigint) => (value * percent) / 100n;
+
+// `eth_estimateGas` includes the intrinsic cost of a top-level transaction,
+// which the EntryPoint's inner calls do not pay.
+const estimateInnerGas = async (
+	publicClient: PublicClient,
+	request: Parameters<PublicClient["estimateGas"]>[0],
+) => (await publicClient.estimateGas(request)) - TX_BASE_GAS;
+
+async function estimateValidationGas(
+	publicClient: PublicClient,
+	chain: SupportedChain,
+	draft: PackedUserOperation,
+	userOpHash: Hex,
+) {
+	const initCode = splitInitCode(draft.initCode);
+	if (!initCode) {
+		return estimateInnerGas(publicClient, {
+			account: chain.entryPoint,
+			to: draft.sender,
+			data: encodeFunctionData({
+				abi: accountWebAuthnAbi,
+				functionName: "validateUserOp",
+				args: [draft, userOpHash, 0n],
+			}),
+		});
+	}
+
+	const deploymentGas = await estimateInnerGas(publicClient, {
+		account: chain.entryPoint,
+		to: initCode.factory,
+		data: initCode.factoryData,
+	});
+	return deploymentGas + UNDEPLOYED_VALIDATION_GAS;
+}
+
+async function estimateCallGas(
+	publicClient: PublicClient,
+	chain: SupportedChain,
+	input: GasEstimateInput,
+) {
+	if (size(input.initCode) === 0) {
+		return estimateInnerGas(publicClient, {
+			account: chain.entryPoint,
+			to: input.sender,
+			data: input.callData,
+		});
+	}
+
+	// Without account code, price each batched call as if the account sent it.
+	const calls = decodeExecutionCalls(input.callData);
+	const callGas = await Promise.all(
+		calls.map((call) =>
+			estimateInnerGas(publicClient, {
+				account: input.sender,
+				to: call.target,
+				value: call.value,
+				data: call.data,
+			}),
+		),
+	);
+	return callGas.reduce(
+		(total, gas) => total + gas + PER_CALL_OVERHEAD_GAS,
+		EXECUTE_OVERHEAD_GAS,
+	);
+}
+
+export async function estimateUserOperationGas(
+	publicClient: PublicClient,
+	chain: SupportedChain,
+	input: GasEstimateInput,
+	webAuthn: WebAuthnConfig,
+): Promise<GasEstimate> {
+	// Gas fields are maxed out so calldata pricing never underestimates. The
+	// hash does not cover the signature, so the dummy one can sign it.
+	const unsigned: PackedUserOperation = {
+		...input,
+		accountGasLimits: packUint128Pair(maxUint128, maxUint128),
+		preVerificationGas: maxUint128,
+		gasFees: packUint128Pair(maxUint128, maxUint128),
+		signature: "0x",
+	};
+	const userOpHash = getPackedUserOperationHash(
+		unsigned,
+		chain.chain.id,
+		chain.entryPoint,
+	);
+	const draft: PackedUserOperation = {
+		...unsigned,
+		signature: buildDummySignature(webAuthn, userOpHash),
+	};
+
+	const [validationGas, callGas, fees] = await Promise.all([
+		estimateValidationGas(publicClient, chain, draft, userOpHash),
+		estimateCallGas(publicClient, chain, input),
+		publicClient.estimateFeesPerGas(),
+	]);
+
+	return {
+		verificationGasLimit: withBuffer(
+			validationGas + VERIFICATION_OVERHEAD_GAS,
+			VERIFICATION_BUFFER_PERCENT,
+		),
+		callGasLimit: withBuffer(callGas, CALL_BUFFER_PERCENT),
+		preVerificationGas: calculatePreVerificationGas(draft),
+		maxFeePerGas: fees.maxFeePerGas,
+		maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+	};
+}
+
+export const packGasEstimate = (estimate: GasEstimate) => ({
+	accountGasLimits: packUint128Pair(
+		estimate.verificationGasLimit,
+		estimate.callGasLimit,
+	),
+	preVerificationGas: estimate.preVerificationGas,
+	gasFees: packUint128Pair(
+		estimate.maxPriorityFeePerGas,
+		estimate.maxFeePerGas,
+	),
+});
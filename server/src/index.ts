@@ -1,620 +1,1177 @@
 // cspell:word viem WebAuthn
 import { Hono } from "hono";
 import { cors } from "hono/cors";
+import { HTTPException } from "hono/http-exception";
 import { logger } from "hono/logger";
+import { streamSSE } from "hono/streaming";
 import {
 	type Address,
 	type Hex,
-	createPublicClient,
-	createWalletClient,
-	decodeAbiParameters,
-	decodeFunctionData,
-	encodeAbiParameters,
+	bytesToHex,
 	encodeFunctionData,
-	http,
+	isAddressEqual,
+	sha256,
+	stringToBytes,
 } from "viem";
-import type { PackedUserOperation } from "viem/account-abstraction";
-import { privateKeyToAccount } from "viem/accounts";
-import { sepolia } from "viem/chains";
 import {
+	API_ROUTES,
+	type ApiDepositsPage,
+	type ApiInput,
+	type ApiResponse,
+	type ApiSession,
+	type ApiWebhookSubscription,
+	WEBHOOK_EVENT_TYPES,
 	accountFactoryAbi,
 	accountWebAuthnAbi,
-	ENTRYPOINT_ADDRESS,
-	entryPointAbi,
-	FACTORY_ADDRESS,
-	USDC_ADDRESS,
-	USDC_DECIMALS,
-	usdcAbi,
+	DEFAULT_CHAIN_ID,
+	type TokenConfig,
+	findToken,
 } from "../../shared";
-
-type Bindings = {
-	RPC_URL: string;
-	PRIVATE_KEY: string;
-};
-
-type DepositRecord = {
-	sender: Address;
-	amount: bigint;
-	txHash: Hex;
-	logIndex: number;
-	blockNumber: bigint;
-	blockTimestamp: number;
-	ready: boolean;
-	refunded: boolean;
-	refundTxHash?: Hex;
-};
-
-type AccountSession = {
-	credentialId: string;
-	accountAddress: Address;
-	deposits: DepositRecord[];
-	stopWatching?: () => void;
-	isWatching: boolean;
-	lastSyncedBlock?: bigint;
-};
-
-type RefundDepositInput = {
-	txHash: Hex;
-	sender: Address;
-	amount: string;
-	logIndex: number;
-};
-
-type SerializedPackedUserOperation = Omit<
-	PackedUserOperation,
-	"nonce" | "preVerificationGas"
-> & {
-	nonce: string;
-	preVerificationGas: string | number | bigint;
-};
-
-type RefundRequestBody = {
-	accountAddress: Address;
-	credentialId: string;
-	metadata: {
-		challengeIndex: string | number;
-		typeIndex: string | number;
-		authenticatorData: Hex;
-		clientDataJSON: string;
-	};
-	rHex: Hex;
-	sHex: Hex;
-	userOp: SerializedPackedUserOperation;
-	nonce: string;
-	deposit: RefundDepositInput;
-};
-
-const MIN_USDC_DEPOSIT = 10n ** BigInt(USDC_DECIMALS);
-const MAX_DEPOSITS = 20;
-const DEFAULT_LOOKBACK_BLOCKS = 2_000n;
-const MAX_GET_LOGS_RANGE = 10n;
-const accountStore = new Map<string, AccountSession>();
-
-const app = new Hono<{ Bindings: Bindings }>();
+import {
+	type AccountCreationRefusal,
+	checkAccountCreationGate,
+	hitAccountCreationLimits,
+	loadAccountCreationLimits,
+	reserveAccountFunding,
+} from "./accountLimits";
+import { admin } from "./admin";
+import { RPC_ERROR_CODES, handleBundlerRpc } from "./bundler";
+import {
+	type PublicClient,
+	getPublicClient,
+	getSupportedChain,
+	getWalletClient,
+} from "./clients";
+import { decodeEntryPointError } from "./entryPointErrors";
+import {
+	estimateUserOperationGas,
+	packGasEstimate,
+} from "./gas";
+import {
+	getPaymasterConfig,
+	shouldFundNewAccounts,
+	sponsorUserOperation,
+} from "./paymaster";
+import { evaluatePolicy, loadPolicy } from "./policy";
+import {
+	flushRefundQueue,
+	resumeRelayer,
+	sendRelayerTransaction,
+} from "./relayer";
+import {
+	getScannerStatus,
+	getStoredScannerStatus,
+	scanDeposits,
+	syncAccountDeposits,
+} from "./scanner";
+import {
+	endSession,
+	findSession,
+	isSessionAccount,
+	issueSession,
+	requireSession,
+} from "./sessions";
+import {
+	serializeDeposit,
+	serializeEntryPointError,
+	serializeRefund,
+	serializeRefundJob,
+} from "./serializers";
+import { getStorage } from "./storage";
+import {
+	checkRelayerBalance,
+	getTreasuryStatus,
+	manageTreasury,
+} from "./treasury";
+import type {
+	AccountSession,
+	AppEnv,
+	Bindings,
+	DepositQuery,
+	DepositRecord,
+	RefundJob,
+	SupportedChain,
+	WebAuthnPublicKey,
+	WebhookSubscription,
+} from "./types";
+import {
+	getPackedUserOperationHash,
+	isSupportedInitCode,
+} from "./userOperation";
+import { getUtcDay, normalizeAddress } from "./utils";
+import { validate } from "./validation";
+import { createWebhookSecret, retryWebhookDeliveries } from "./webhooks";
+import {
+	encodeWebAuthnSignature,
+	getWebAuthnConfig,
+	verifyWebAuthnAssertion,
+} from "./webauthn";
+
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const NEW_ACCOUNT_FUNDING = 5_000_000_000_000_000n;
+// Scanning a block reads its transactions, so syncs run by requests stay well
+// within the subrequest limit and leave the rest to the cron scan.
+const REQUEST_SYNC_BLOCKS = 10n;
+const EVENT_STREAM_POLL_INTERVAL_MS = 5_000;
+const EVENT_STREAM_BATCH_SIZE = 100;
+const DEFAULT_DEPOSIT_PAGE_SIZE = 20;
+const CREDENTIAL_TAKEN_ERROR =
+	"This credential is already registered to another account";
+
+const app = new Hono<AppEnv>();
 
 app.use(cors());
 app.use(logger());
 
-const normalizeAddress = (value: string) => value.toLowerCase() as Address;
-
-const serializeDeposit = (record: DepositRecord) => ({
-	sender: record.sender,
-	amount: record.amount.toString(),
-	txHash: record.txHash,
-	logIndex: record.logIndex,
-	blockNumber: record.blockNumber.toString(),
-	blockTimestamp: record.blockTimestamp,
-	ready: record.ready,
-	refunded: record.refunded,
-	refundTxHash: record.refundTxHash ?? null,
+// Errors Hono raises itself, such as a malformed JSON body, get the JSON error
+// body of every other route. Middleware that prepared its own response, such as
+// the admin dashboard's basic auth challenge, keeps it.
+app.onError((error, c) => {
+	if (error instanceof HTTPException) {
+		if (error.res) {
+			return error.getResponse();
+		}
+		return c.json({ error: error.message }, error.status);
+	}
+	console.error("Unhandled error:", error);
+	return c.json({ error: "Internal server error" }, 500);
 });
 
-function upsertAccountSession(address: Address, credentialId: string) {
-	const key = normalizeAddress(address);
-	const existing = accountStore.get(key);
-	if (existing) {
-		existing.credentialId = credentialId;
-		existing.accountAddress = address;
-		return existing;
+// Every route is served per chain, selected with `?chainId=` (Sepolia by default).
+app.use(async (c, next) => {
+	const chainIdParam = c.req.query("chainId");
+	const chain = getSupportedChain(
+		c.env,
+		chainIdParam ? Number(chainIdParam) : DEFAULT_CHAIN_ID,
+	);
+	if (!chain) {
+		return c.json({ error: `Chain ${chainIdParam} is not supported` }, 400);
 	}
 
-	const session: AccountSession = {
-		credentialId,
-		accountAddress: address,
-		deposits: [],
-		isWatching: false,
-	};
-	accountStore.set(key, session);
-	return session;
-}
-
-const getAccountSession = (address: Address) =>
-	accountStore.get(normalizeAddress(address));
-
-const recordDeposit = (session: AccountSession, record: DepositRecord) => {
-	const duplicate = session.deposits.some(
-		(existing) =>
-			existing.txHash === record.txHash &&
-			existing.logIndex === record.logIndex,
-	);
+	c.set("chain", chain);
+	await next();
+});
 
-	if (!duplicate) {
-		session.deposits.unshift(record);
-		if (session.deposits.length > MAX_DEPOSITS) {
-			session.deposits.pop();
-		}
-	}
-};
-
-const getBlockTimestamp = async (
-	publicClient: ReturnType<typeof createPublicClient>,
-	blockNumber: bigint,
-	cache: Map<string, number>,
-) => {
-	const cacheKey = blockNumber.toString();
-	const cached = cache.get(cacheKey);
-	if (cached !== undefined) {
-		return cached;
-	}
-	const block = await publicClient.getBlock({ blockNumber });
-	const timestamp = Number(block.timestamp);
-	cache.set(cacheKey, timestamp);
-	return timestamp;
-};
-
-const hydrateDeposits = async (
-	publicClient: ReturnType<typeof createPublicClient>,
-	session: AccountSession,
-) => {
-	const latestBlock = await publicClient.getBlockNumber();
-	let fromBlock: bigint;
-
-	if (session.lastSyncedBlock !== undefined) {
-		fromBlock = session.lastSyncedBlock + 1n;
-	} else if (latestBlock > DEFAULT_LOOKBACK_BLOCKS) {
-		fromBlock = latestBlock - DEFAULT_LOOKBACK_BLOCKS;
-	} else {
-		fromBlock = 0n;
-	}
+const serializeTokens = (chain: SupportedChain) =>
+	Object.values(chain.tokens).map((token) => ({
+		address: token.address,
+		symbol: token.symbol,
+		decimals: token.decimals,
+		minRefundAmount: token.minRefundAmount.toString(),
+	}));
+
+/** Deposit history filters with the default page size applied. */
+const toDepositQuery = (
+	query: ApiInput<"listDeposits", "query">,
+): DepositQuery => ({
+	...query,
+	limit: query.limit ?? DEFAULT_DEPOSIT_PAGE_SIZE,
+});
 
-	if (fromBlock > latestBlock) {
-		session.lastSyncedBlock = latestBlock;
-		return;
+/**
+ * A page of deposits plus the token registry and scanner status, which reads
+ * the chain head from the RPC unless `getScanner` is passed.
+ */
+async function getDepositsPayload(
+	env: Bindings,
+	chain: SupportedChain,
+	address: Address,
+	query: DepositQuery,
+	getScanner = (session: AccountSession) =>
+		getScannerStatus(env, chain, session),
+): Promise<ApiDepositsPage> {
+	const storage = getStorage(env, chain.chain.id);
+	const session = await storage.getAccountSession(address);
+	if (!session) {
+		return {
+			deposits: [],
+			nextCursor: null,
+			tokens: serializeTokens(chain),
+			scanner: null,
+		};
 	}
 
-	const logs = await fetchTransferLogs(
-		publicClient,
+	const { deposits, nextCursor } = await storage.listDeposits(
 		session.accountAddress,
-		fromBlock,
-		latestBlock,
+		query,
 	);
+	return {
+		deposits: deposits.map(serializeDeposit),
+		nextCursor: nextCursor ?? null,
+		tokens: serializeTokens(chain),
+		scanner: await getScanner(session),
+	};
+}
 
-	if (!logs.length) {
-		session.lastSyncedBlock = latestBlock;
-		return;
-	}
+/**
+ * Keeps the account in the scheduled scan and syncs its newest blocks right
+ * away; the cron scan catches up on the rest.
+ */
+async function activateAccount(
+	env: Bindings,
+	chain: SupportedChain,
+	address: Address,
+) {
+	await getStorage(env, chain.chain.id).touchAccount(address, Date.now());
+	await syncAccountDeposits(env, chain, address, {
+		maxBlocks: REQUEST_SYNC_BLOCKS,
+	});
+}
 
-	const timestampCache = new Map<string, number>();
+const buildInitCallData = (publicKey: WebAuthnPublicKey) =>
+	encodeFunctionData({
+		abi: accountWebAuthnAbi,
+		functionName: "initializeWebAuthn",
+		args: [publicKey.x, publicKey.y],
+	});
 
-	for (const log of logs) {
-		if (!log.blockNumber || log.logIndex === undefined || !log.transactionHash) {
-			continue;
-		}
+const buildFactoryData = (publicKey: WebAuthnPublicKey) =>
+	encodeFunctionData({
+		abi: accountFactoryAbi,
+		functionName: "cloneAndInitialize",
+		args: [buildInitCallData(publicKey)],
+	});
 
-		const sender = log.args?.from as Address | undefined;
-		const value = log.args?.value as bigint | undefined;
-		if (!sender || value === undefined) {
-			continue;
-		}
+// The factory derives the clone salt from the init calldata, so the passkey's
+// public key alone is enough to recover the account address.
+const predictAccountAddress = async (
+	publicClient: PublicClient,
+	factory: Address,
+	publicKey: WebAuthnPublicKey,
+) =>
+	(await publicClient.readContract({
+		address: factory,
+		abi: accountFactoryAbi,
+		functionName: "predictAddress",
+		args: [buildInitCallData(publicKey)],
+	})) as Address;
 
-		const blockTimestamp = await getBlockTimestamp(
-			publicClient,
-			log.blockNumber,
-			timestampCache,
-		);
+app.get("/", (c) => c.text("Hello Hono!"));
 
-		const record: DepositRecord = {
-			sender,
-			amount: value,
-			txHash: log.transactionHash,
-			logIndex: Number(log.logIndex),
-			blockNumber: log.blockNumber,
-			blockTimestamp,
-			ready: value >= MIN_USDC_DEPOSIT,
-			refunded: false,
-		};
+app.post(
+	API_ROUTES.createAccount.path,
+	validate("json", API_ROUTES.createAccount.body),
+	async (c) => {
+		try {
+			const chain = c.get("chain");
+			const publicClient = getPublicClient(c.env, chain);
+			const walletClient = getWalletClient(c.env, chain);
+
+			const {
+				credentialId,
+				publicKey: signerKey,
+				challenge,
+				metadata,
+				rHex,
+				sHex,
+				inviteCode,
+				proofOfWork,
+			} = c.req.valid("json");
+
+			const storage = getStorage(c.env, chain.chain.id);
+			const limits = loadAccountCreationLimits(c.env);
+			const refuse = ({
+				status,
+				retryAfter,
+				...body
+			}: AccountCreationRefusal) =>
+				c.json(
+					{ ...body, retryAfter },
+					status,
+					retryAfter ? { "Retry-After": String(retryAfter) } : {},
+				);
 
-		recordDeposit(session, record);
-		session.lastSyncedBlock = log.blockNumber;
-	}
+			// The gate is checked before the challenge is used up, so the client
+			// can retry with a proof of work.
+			const gateRefusal = await checkAccountCreationGate(limits, {
+				publicKey: signerKey,
+				inviteCode,
+				proofOfWork,
+			});
+			if (gateRefusal) {
+				return refuse(gateRefusal);
+			}
 
-	if (session.lastSyncedBlock === undefined || session.lastSyncedBlock < latestBlock) {
-		session.lastSyncedBlock = latestBlock;
-	}
-};
-
-async function ensureDepositWatcher(env: Bindings, address: Address) {
-	const session = getAccountSession(address);
-	if (!session || session.isWatching) {
-		if (session) {
-			const publicClient = createPublicClient({
-				chain: sepolia,
-				transport: http(env.RPC_URL),
+			// Only the holder of the passkey may register it and get a session.
+			if (!(await storage.consumeLoginChallenge(challenge, Date.now()))) {
+				return c.json({ error: "Login challenge expired or unknown" }, 401);
+			}
+			const verification = verifyWebAuthnAssertion(
+				{ metadata, rHex, sHex },
+				challenge,
+				signerKey,
+				getWebAuthnConfig(c.env),
+			);
+			if (!verification.valid) {
+				return c.json({ error: verification.error }, 401);
+			}
+
+			const limitRefusal = await hitAccountCreationLimits(storage, limits, {
+				ip: c.req.header("CF-Connecting-IP") ?? "unknown",
+				publicKey: signerKey,
 			});
-			await hydrateDeposits(publicClient, session);
-		}
-		return;
-	}
+			if (limitRefusal) {
+				return refuse(limitRefusal);
+			}
 
-	const publicClient = createPublicClient({
-		chain: sepolia,
-		transport: http(env.RPC_URL),
-	});
+			// The account is deployed by the EntryPoint through `initCode` on its
+			// first user operation, so only its address is derived here.
+			const predictedAddress = await predictAccountAddress(
+				publicClient,
+				chain.factory,
+				signerKey,
+			);
+			const code = await publicClient.getCode({ address: predictedAddress });
+			const registered = Boolean(
+				(await storage.getAccountSession(predictedAddress))?.publicKey,
+			);
+			const owner = await storage.getAccountSessionByCredential(credentialId);
+			if (owner && !isAddressEqual(owner.accountAddress, predictedAddress)) {
+				return c.json({ error: CREDENTIAL_TAKEN_ERROR }, 409);
+			}
 
-	await hydrateDeposits(publicClient, session);
-
-	const unwatch = publicClient.watchContractEvent({
-		address: USDC_ADDRESS,
-		abi: usdcAbi,
-		eventName: "Transfer",
-		args: { to: address },
-		poll: true,
-		pollingInterval: 5_000,
-		async onLogs(logs) {
-			const timestampCache = new Map<string, number>();
-
-			for (const log of logs) {
-				const sender = log.args?.from as Address | undefined;
-				const value = log.args?.value as bigint | undefined;
-				if (
-					!sender ||
-					value === undefined ||
-					!log.transactionHash ||
-					log.logIndex === undefined ||
-					!log.blockNumber
-				) {
-					continue;
+			// Only new registrations are funded, out of the chain's daily budget.
+			let fundHash: Hex | null = null;
+			if (!registered && shouldFundNewAccounts(c.env)) {
+				const treasuryRefusal = await checkRelayerBalance(
+					c.env,
+					chain,
+					NEW_ACCOUNT_FUNDING,
+				);
+				if (treasuryRefusal) {
+					return c.json(treasuryRefusal, 503);
+				}
+				const budgetRefusal = await reserveAccountFunding(
+					storage,
+					limits,
+					NEW_ACCOUNT_FUNDING,
+				);
+				if (budgetRefusal) {
+					return refuse(budgetRefusal);
 				}
 
-				const blockTimestamp = await getBlockTimestamp(
-					publicClient,
-					log.blockNumber,
-					timestampCache,
+				fundHash = await sendRelayerTransaction(c.env, chain, (nonce) =>
+					walletClient.sendTransaction({
+						to: predictedAddress,
+						value: NEW_ACCOUNT_FUNDING,
+						nonce,
+					}),
 				);
 
-				const record: DepositRecord = {
-					sender,
-					amount: value,
-					txHash: log.transactionHash,
-					logIndex: Number(log.logIndex),
-					blockNumber: log.blockNumber,
-					blockTimestamp,
-					ready: value >= MIN_USDC_DEPOSIT,
-					refunded: false,
-				};
-
-				recordDeposit(session, record);
-				session.lastSyncedBlock = log.blockNumber;
+				await publicClient.waitForTransactionReceipt({ hash: fundHash });
 			}
-		},
-		onError(error) {
-			console.error(`Deposit watcher error for ${address}:`, error);
-			session.isWatching = false;
-			session.stopWatching = undefined;
-		},
-	});
 
-	session.stopWatching = () => {
-		unwatch();
-		session.isWatching = false;
-		session.stopWatching = undefined;
-	};
-	session.isWatching = true;
-}
+			// Registering starts a session; an account that is already registered
+			// only gets one from a passkey login.
+			let session: ApiSession | null = null;
+			if (!registered) {
+				if (
+					!(await storage.upsertAccountSession(
+						predictedAddress,
+						credentialId,
+						signerKey,
+					))
+				) {
+					return c.json({ error: CREDENTIAL_TAKEN_ERROR }, 409);
+				}
+				session = await issueSession(storage, predictedAddress, credentialId);
+			}
+			await activateAccount(c.env, chain, predictedAddress);
+
+			return c.json({
+				success: true,
+				accountAddress: predictedAddress,
+				chainId: chain.chain.id,
+				deployed: Boolean(code && code !== "0x"),
+				factory: chain.factory,
+				factoryData: buildFactoryData(signerKey),
+				fundingTransactionHash: fundHash,
+				publicKey: { qx: signerKey.x, qy: signerKey.y },
+				session,
+			} satisfies ApiResponse<"createAccount">);
+		} catch (error) {
+			return c.json({ error: ` Failed to create account: ${error} ` }, 500);
+		}
+	},
+);
 
-app.get("/", (c) => c.text("Hello Hono!"));
+app.post(API_ROUTES.createLoginChallenge.path, async (c) => {
+	const challenge = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+	const expiresAt = Date.now() + LOGIN_CHALLENGE_TTL_MS;
 
-app.post("/account/create", async (c) => {
-	try {
-		const publicClient = createPublicClient({
-			chain: sepolia,
-			transport: http(c.env.RPC_URL),
-		});
+	await getStorage(c.env, c.get("chain").chain.id).saveLoginChallenge(
+		challenge,
+		expiresAt,
+	);
 
-		const account = privateKeyToAccount(c.env.PRIVATE_KEY as `0x${string}`);
+	return c.json({
+		challenge,
+		expiresAt,
+	} satisfies ApiResponse<"createLoginChallenge">);
+});
 
-		const walletClient = createWalletClient({
-			chain: sepolia,
-			transport: http(c.env.RPC_URL),
-			account,
-		});
+app.post(
+	API_ROUTES.login.path,
+	validate("json", API_ROUTES.login.body),
+	async (c) => {
+		try {
+			const chain = c.get("chain");
+			const publicClient = getPublicClient(c.env, chain);
 
-		const {
-			credentialId, // Can be used to store accounts for future logins
-			publicKey,
-		} = await c.req.json();
+			const { credentialId, challenge, metadata, rHex, sHex } =
+				c.req.valid("json");
 
-		const qx = publicKey.x as Hex;
-		const qy = publicKey.y as Hex;
+			const storage = getStorage(c.env, chain.chain.id);
+			if (!(await storage.consumeLoginChallenge(challenge, Date.now()))) {
+				return c.json({ error: "Login challenge expired or unknown" }, 401);
+			}
 
-		const initCallData = encodeFunctionData({
-			abi: accountWebAuthnAbi,
-			functionName: "initializeWebAuthn",
-			args: [qx, qy],
-		});
+			const session = await storage.getAccountSessionByCredential(credentialId);
+			if (!session?.publicKey) {
+				return c.json({ error: "Unknown credential" }, 404);
+			}
 
-		const predictedAddress = (await publicClient.readContract({
-			address: FACTORY_ADDRESS,
-			abi: accountFactoryAbi,
-			functionName: "predictAddress",
-			args: [initCallData],
-		})) as Address;
-
-		const hash = await walletClient.writeContract({
-			address: FACTORY_ADDRESS,
-			abi: accountFactoryAbi,
-			functionName: "cloneAndInitialize",
-			args: [initCallData],
-		});
+			const verification = verifyWebAuthnAssertion(
+				{ metadata, rHex, sHex },
+				challenge,
+				session.publicKey,
+				getWebAuthnConfig(c.env),
+			);
 
-		await publicClient.waitForTransactionReceipt({ hash });
+			if (!verification.valid) {
+				return c.json({ error: verification.error }, 401);
+			}
 
-		const fundHash = await walletClient.sendTransaction({
-			to: predictedAddress,
-			value: 5_000_000_000_000_000n,
-		});
+			const accountAddress = await predictAccountAddress(
+				publicClient,
+				chain.factory,
+				session.publicKey,
+			);
+			const code = await publicClient.getCode({ address: accountAddress });
+
+			await storage.upsertAccountSession(
+				accountAddress,
+				credentialId,
+				session.publicKey,
+			);
+			await activateAccount(c.env, chain, accountAddress);
+
+			return c.json({
+				success: true,
+				accountAddress,
+				chainId: chain.chain.id,
+				credentialId,
+				deployed: Boolean(code && code !== "0x"),
+				factory: chain.factory,
+				factoryData: buildFactoryData(session.publicKey),
+				publicKey: { qx: session.publicKey.x, qy: session.publicKey.y },
+				session: await issueSession(storage, accountAddress, credentialId),
+			} satisfies ApiResponse<"login">);
+		} catch (error) {
+			return c.json({ error: ` Failed to log in: ${error} ` }, 500);
+		}
+	},
+);
+
+// The old token stops working as soon as the new one is issued.
+app.post(API_ROUTES.refreshSession.path, requireSession, async (c) => {
+	const storage = getStorage(c.env, c.get("chain").chain.id);
+	// A concurrent refresh or logout may have ended it already.
+	const session = await endSession(storage, c.get("session"));
+	if (!session) {
+		return c.json({ error: "Session expired or missing" }, 401);
+	}
+	return c.json({
+		session: await issueSession(
+			storage,
+			session.account,
+			session.credentialId,
+		),
+	} satisfies ApiResponse<"refreshSession">);
+});
 
-		await publicClient.waitForTransactionReceipt({ hash: fundHash });
+app.post(API_ROUTES.logout.path, requireSession, async (c) => {
+	await endSession(
+		getStorage(c.env, c.get("chain").chain.id),
+		c.get("session"),
+	);
+	return c.json({ success: true } satisfies ApiResponse<"logout">);
+});
 
-		upsertAccountSession(predictedAddress, credentialId);
-		await ensureDepositWatcher(c.env, predictedAddress);
+app.get(
+	API_ROUTES.listDeposits.path,
+	requireSession,
+	validate("param", API_ROUTES.listDeposits.params),
+	validate("query", API_ROUTES.listDeposits.query),
+	async (c) => {
+		const { address: accountAddress } = c.req.valid("param");
+		const query = toDepositQuery(c.req.valid("query"));
+		const chain = c.get("chain");
+		const storage = getStorage(c.env, chain.chain.id);
+		// Later pages only read history; the first one also syncs.
+		if (!query.cursor && (await storage.getAccountSession(accountAddress))) {
+			await activateAccount(c.env, chain, accountAddress);
+		}
 
-		return c.json({
-			success: true,
-			accountAddress: predictedAddress,
-			transactionHash: hash,
-			fundingTransactionHash: fundHash,
-			publicKey: { qx, qy },
+		return c.json(
+			await getDepositsPayload(c.env, chain, accountAddress, query),
+		);
+	},
+);
+
+// Pushes a snapshot of the account's deposits, then every deposit and refund
+// event logged after it, wherever it was raised, and the scanner status. The
+// stream only reads storage; syncing is left to the cron scan, which keeps
+// the account in its scan while the stream is opened.
+app.get(
+	API_ROUTES.accountEvents.path,
+	requireSession,
+	validate("param", API_ROUTES.accountEvents.params),
+	validate("query", API_ROUTES.accountEvents.query),
+	async (c) => {
+		// The snapshot is the first page of `/deposits` for the same filters.
+		const { cursor: _cursor, ...query } = toDepositQuery(c.req.valid("query"));
+
+		const chain = c.get("chain");
+		const storage = getStorage(c.env, chain.chain.id);
+		const session = await storage.getAccountSession(
+			c.req.valid("param").address,
+		);
+		if (!session) {
+			return c.json({ error: "Account session not found" }, 404);
+		}
+
+		const accountAddress = session.accountAddress;
+		await storage.touchAccount(accountAddress, Date.now());
+		const getScanner = (current: AccountSession) =>
+			getStoredScannerStatus(storage, current);
+
+		return streamSSE(c, async (stream) => {
+			// Read before the snapshot, so events logged while it is built are
+			// sent after it rather than lost.
+			let sequence = await storage.getLastAccountEventSequence();
+			await stream.writeSSE({
+				event: "snapshot",
+				data: JSON.stringify(
+					await getDepositsPayload(
+						c.env,
+						chain,
+						accountAddress,
+						query,
+						getScanner,
+					),
+				),
+			});
+
+			// The status events also keep proxies from closing an idle stream.
+			while (!stream.aborted && !stream.closed) {
+				await stream.sleep(EVENT_STREAM_POLL_INTERVAL_MS);
+				try {
+					const events = await storage.listAccountEvents(
+						accountAddress,
+						sequence,
+						EVENT_STREAM_BATCH_SIZE,
+					);
+					for (const event of events) {
+						await stream.writeSSE({
+							event: event.type,
+							id: event.id,
+							data: event.payload,
+						});
+						sequence = event.sequence;
+					}
+					const current = await storage.getAccountSession(accountAddress);
+					if (current) {
+						await stream.writeSSE({
+							event: "scanner",
+							data: JSON.stringify(await getScanner(current)),
+						});
+					}
+				} catch (error) {
+					console.error(`Event stream error for ${accountAddress}:`, error);
+				}
+			}
 		});
-	} catch (error) {
-		return c.json({ error: ` Failed to create account: ${error} ` }, 500);
+	},
+);
+
+app.get(
+	API_ROUTES.listRefunds.path,
+	requireSession,
+	validate("param", API_ROUTES.listRefunds.params),
+	async (c) => {
+		const refunds = await getStorage(
+			c.env,
+			c.get("chain").chain.id,
+		).listRefunds(c.req.valid("param").address);
+		return c.json({ refunds: refunds.map(serializeRefund) });
+	},
+);
+
+// Webhook management is only exposed when an admin token is configured.
+app.use("/webhooks/*", async (c, next) => {
+	if (!c.env.WEBHOOK_ADMIN_TOKEN) {
+		return c.json({ error: "Webhooks are not configured" }, 503);
+	}
+	if (c.req.header("Authorization") !== `Bearer ${c.env.WEBHOOK_ADMIN_TOKEN}`) {
+		return c.json({ error: "Unauthorized" }, 401);
 	}
+	await next();
 });
 
-app.get("/account/:address/deposits", async (c) => {
-	const addressParam = c.req.param("address");
-	if (!addressParam || !addressParam.startsWith("0x")) {
-		return c.json({ error: "Invalid account address" }, 400);
-	}
+const serializeWebhookSubscription = (
+	subscription: WebhookSubscription,
+): ApiWebhookSubscription => ({
+	id: subscription.id,
+	account: subscription.account ?? null,
+	url: subscription.url,
+	events: subscription.events,
+	createdAt: subscription.createdAt,
+});
 
-	const accountAddress = addressParam as Address;
-	const session = getAccountSession(accountAddress);
-	if (session) {
-		await ensureDepositWatcher(c.env, session.accountAddress);
-		return c.json({
-			deposits: session.deposits.map(serializeDeposit),
-			minDeposit: MIN_USDC_DEPOSIT.toString(),
-			decimals: USDC_DECIMALS,
-			watching: session.isWatching,
-		});
-	}
+app.post(
+	API_ROUTES.createWebhook.path,
+	validate("json", API_ROUTES.createWebhook.body),
+	async (c) => {
+		const { url, events, account } = c.req.valid("json");
+
+		if (
+			!URL.canParse(url) ||
+			!["http:", "https:"].includes(new URL(url).protocol)
+		) {
+			return c.json({ error: "Webhook url must be an http(s) URL" }, 400);
+		}
 
+		const subscription: WebhookSubscription = {
+			id: crypto.randomUUID(),
+			account,
+			url,
+			secret: createWebhookSecret(),
+			events: events ?? [...WEBHOOK_EVENT_TYPES],
+			createdAt: Date.now(),
+		};
+		await getStorage(c.env, c.get("chain").chain.id).saveWebhookSubscription(
+			subscription,
+		);
+
+		return c.json(
+			{
+				...serializeWebhookSubscription(subscription),
+				secret: subscription.secret,
+			} satisfies ApiResponse<"createWebhook">,
+			201,
+		);
+	},
+);
+
+app.get(API_ROUTES.listWebhooks.path, async (c) => {
+	const subscriptions = await getStorage(
+		c.env,
+		c.get("chain").chain.id,
+	).listWebhookSubscriptions();
 	return c.json({
-		deposits: [],
-		minDeposit: MIN_USDC_DEPOSIT.toString(),
-		decimals: USDC_DECIMALS,
-		watching: false,
-	});
+		subscriptions: subscriptions.map(serializeWebhookSubscription),
+	} satisfies ApiResponse<"listWebhooks">);
 });
 
-app.post("/account/refund", async (c) => {
-	const publicClient = createPublicClient({
-		chain: sepolia,
-		transport: http(c.env.RPC_URL),
-	});
+app.delete(
+	API_ROUTES.deleteWebhook.path,
+	validate("param", API_ROUTES.deleteWebhook.params),
+	async (c) => {
+		const deleted = await getStorage(
+			c.env,
+			c.get("chain").chain.id,
+		).deleteWebhookSubscription(c.req.valid("param").id);
+		if (!deleted) {
+			return c.json({ error: "Webhook subscription not found" }, 404);
+		}
+		return c.json({ success: true } satisfies ApiResponse<"deleteWebhook">);
+	},
+);
+
+app.get(
+	API_ROUTES.listWebhookDeliveries.path,
+	validate("param", API_ROUTES.listWebhookDeliveries.params),
+	async (c) => {
+		const storage = getStorage(c.env, c.get("chain").chain.id);
+		const { id } = c.req.valid("param");
+		const subscriptions = await storage.listWebhookSubscriptions();
+		if (!subscriptions.some((subscription) => subscription.id === id)) {
+			return c.json({ error: "Webhook subscription not found" }, 404);
+		}
 
-	const account = privateKeyToAccount(c.env.PRIVATE_KEY as `0x${string}`);
+		const deliveries = await storage.listWebhookDeliveries(id);
+		return c.json({
+			deliveries: deliveries.map((delivery) => ({
+				id: delivery.id,
+				eventId: delivery.eventId,
+				eventType: delivery.eventType,
+				status: delivery.status,
+				attempts: delivery.attempts,
+				lastStatusCode: delivery.lastStatusCode ?? null,
+				lastError: delivery.lastError ?? null,
+				nextAttemptAt: delivery.nextAttemptAt ?? null,
+				createdAt: delivery.createdAt,
+				deliveredAt: delivery.deliveredAt ?? null,
+				payload: JSON.parse(delivery.payload),
+			})),
+		} satisfies ApiResponse<"listWebhookDeliveries">);
+	},
+);
+
+app.post(
+	API_ROUTES.estimateGas.path,
+	requireSession,
+	validate("json", API_ROUTES.estimateGas.body),
+	async (c) => {
+		try {
+			const chain = c.get("chain");
+			const { userOp } = c.req.valid("json");
+			if (!isSessionAccount(c.get("session"), userOp.sender)) {
+				return c.json({ error: "Session does not belong to this account" }, 403);
+			}
 
-	const walletClient = createWalletClient({
-		chain: sepolia,
-		transport: http(c.env.RPC_URL),
-		account,
-	});
+			const session = await getStorage(c.env, chain.chain.id).getAccountSession(
+				userOp.sender,
+			);
+			if (!session) {
+				return c.json({ error: "Account session not found" }, 404);
+			}
 
-	try {
-		const {
-			accountAddress,
-			credentialId,
-			metadata,
-			rHex,
-			sHex,
-			userOp,
-			nonce: serializedNonce,
-			deposit,
-		} = (await c.req.json()) as RefundRequestBody;
-
-		const session = getAccountSession(accountAddress);
-		if (!session) {
-			return c.json({ error: "Account session not found" }, 404);
+			const estimate = await estimateUserOperationGas(
+				getPublicClient(c.env, chain),
+				chain,
+				{
+					sender: userOp.sender,
+					nonce: BigInt(userOp.nonce),
+					initCode: userOp.initCode,
+					callData: userOp.callData,
+					paymasterAndData: userOp.paymasterAndData,
+				},
+				getWebAuthnConfig(c.env),
+			);
+			const packed = packGasEstimate(estimate);
+
+			return c.json({
+				accountGasLimits: packed.accountGasLimits,
+				gasFees: packed.gasFees,
+				preVerificationGas: estimate.preVerificationGas.toString(),
+				verificationGasLimit: estimate.verificationGasLimit.toString(),
+				callGasLimit: estimate.callGasLimit.toString(),
+				maxFeePerGas: estimate.maxFeePerGas.toString(),
+				maxPriorityFeePerGas: estimate.maxPriorityFeePerGas.toString(),
+			} satisfies ApiResponse<"estimateGas">);
+		} catch (error) {
+			const decoded = decodeEntryPointError(error);
+			if (decoded) {
+				return c.json(serializeEntryPointError(decoded), 400);
+			}
+			return c.json({ error: ` Failed to estimate gas: ${error} ` }, 500);
 		}
-
-		if (session.credentialId !== credentialId) {
-			return c.json({ error: "Credential mismatch" }, 403);
+	},
+);
+
+app.post(
+	API_ROUTES.sponsorUserOperation.path,
+	requireSession,
+	validate("json", API_ROUTES.sponsorUserOperation.body),
+	async (c) => {
+		if (!getPaymasterConfig(c.env)) {
+			return c.json({ error: "Paymaster is not configured" }, 503);
 		}
 
-		const depositAmount = BigInt(deposit.amount);
+		try {
+			const chain = c.get("chain");
+			const { userOp, intentRecipients } = c.req.valid("json");
+			if (!isSessionAccount(c.get("session"), userOp.sender)) {
+				return c.json({ error: "Session does not belong to this account" }, 403);
+			}
 
-		const storedDeposit = session.deposits.find(
-			(entry) =>
-				entry.txHash === deposit.txHash &&
-				entry.logIndex === deposit.logIndex &&
-				entry.sender.toLowerCase() === deposit.sender.toLowerCase() &&
-				entry.amount === depositAmount,
-		);
+			const result = await sponsorUserOperation(
+				c.env,
+				chain,
+				getStorage(c.env, chain.chain.id),
+				{
+					...userOp,
+					nonce: BigInt(userOp.nonce),
+					preVerificationGas: BigInt(userOp.preVerificationGas),
+				},
+				intentRecipients,
+			);
 
-		if (!storedDeposit) {
-			return c.json({ error: "Deposit record not found" }, 404);
-		}
+			if (!result.sponsored) {
+				return c.json({ error: result.error }, 403);
+			}
 
-		if (storedDeposit.refunded) {
-			return c.json({ error: "Deposit already refunded" }, 400);
+			return c.json({
+				paymasterAndData: result.paymasterAndData,
+				validUntil: result.validUntil,
+			} satisfies ApiResponse<"sponsorUserOperation">);
+		} catch (error) {
+			return c.json({ error: ` Failed to sponsor: ${error} ` }, 500);
 		}
+	},
+);
 
-		if (!storedDeposit.ready) {
-			return c.json({ error: "Deposit below minimum amount" }, 400);
-		}
+app.post("/rpc", async (c) => {
+	let payload: unknown;
+	try {
+		payload = await c.req.json();
+	} catch {
+		return c.json({
+			jsonrpc: "2.0",
+			id: null,
+			error: { code: RPC_ERROR_CODES.parseError, message: "Parse error" },
+		});
+	}
+
+	return c.json(
+		await handleBundlerRpc(
+			c.env,
+			c.get("chain"),
+			payload,
+			await findSession(c),
+		),
+	);
+});
 
-		const challengeIndex = BigInt(metadata.challengeIndex);
-		const typeIndex = BigInt(metadata.typeIndex);
-		const authenticatorDataHex = metadata.authenticatorData;
-		const clientDataJSON = metadata.clientDataJSON;
-		const nonce = BigInt(serializedNonce);
-
-		const encodedSignature = encodeAbiParameters(
-			[
-				{ name: "r", type: "bytes32" },
-				{ name: "s", type: "bytes32" },
-				{ name: "challengeIndex", type: "uint256" },
-				{ name: "typeIndex", type: "uint256" },
-				{ name: "authenticatorData", type: "bytes" },
-				{ name: "clientDataJSON", type: "string" },
-			],
-			[
+app.post(
+	API_ROUTES.createRefund.path,
+	requireSession,
+	validate("header", API_ROUTES.createRefund.headers),
+	validate("json", API_ROUTES.createRefund.body),
+	async (c) => {
+		const chain = c.get("chain");
+		const idempotencyKey =
+			c.req.valid("header")["idempotency-key"] || undefined;
+
+		try {
+			const body = c.req.valid("json");
+			const requestHash = sha256(stringToBytes(JSON.stringify(body)));
+			const {
+				accountAddress,
+				metadata,
 				rHex,
 				sHex,
-				challengeIndex,
-				typeIndex,
-				authenticatorDataHex,
-				clientDataJSON,
-			],
-		);
+				userOp,
+				nonce: serializedNonce,
+				intents,
+			} = body;
+
+			const authSession = c.get("session");
+			if (!isSessionAccount(authSession, accountAddress)) {
+				return c.json({ error: "Session does not belong to this account" }, 403);
+			}
 
-		if (userOp.sender.toLowerCase() !== accountAddress.toLowerCase()) {
-			return c.json({ error: "UserOperation sender mismatch" }, 400);
-		}
+			const storage = getStorage(c.env, chain.chain.id);
+			// A retried request gets the job the first one created.
+			if (idempotencyKey) {
+				const existing = await storage.getRefundJobByIdempotencyKey(
+					accountAddress,
+					idempotencyKey,
+				);
+				if (existing && existing.requestHash !== requestHash) {
+					return c.json(
+						{
+							error:
+								"Idempotency-Key was already used for a different request",
+						},
+						422,
+					);
+				}
+				if (existing) {
+					return c.json({ job: serializeRefundJob(existing) });
+				}
+			}
 
-		const decodedAccountCall = decodeFunctionData({
-			abi: accountWebAuthnAbi,
-			data: userOp.callData as Hex,
-		});
+			const session = await storage.getAccountSession(accountAddress);
+			if (!session) {
+				return c.json({ error: "Account session not found" }, 404);
+			}
 
-		if (decodedAccountCall.functionName !== "execute") {
-			return c.json({ error: "Invalid callData function" }, 400);
-		}
+			// The account was registered again with another passkey since login.
+			if (session.credentialId !== authSession.credentialId) {
+				return c.json({ error: "Credential mismatch" }, 403);
+			}
 
-		const [, executionData] = decodedAccountCall.args as [Hex, Hex];
-		const decodedExecution = decodeAbiParameters(
-			[
-				{
-					type: "tuple[]",
-					components: [
-						{ type: "address" },
-						{ type: "uint256" },
-						{ type: "bytes" },
-					],
-				},
-			],
-			executionData,
-		);
+			if (!session.publicKey) {
+				return c.json({ error: "No public key registered for account" }, 403);
+			}
 
-		const calls = decodedExecution[0] as [Address, bigint, Hex][];
-		if (!calls.length) {
-			return c.json({ error: "Missing execution calls" }, 400);
-		}
+			// Intents splitting one deposit must share its record.
+			const storedDeposits = new Map<string, DepositRecord | undefined>();
+			const refunds: {
+				deposit: DepositRecord;
+				token: TokenConfig;
+				amount: bigint;
+				recipient: Address;
+				reason?: string;
+			}[] = [];
+			for (const intent of intents) {
+				const { deposit } = intent;
+				const depositId = `${deposit.txHash}:${deposit.logIndex}`;
+				const depositAmount = BigInt(deposit.amount);
+				if (!storedDeposits.has(depositId)) {
+					storedDeposits.set(
+						depositId,
+						await storage.getDeposit(
+							accountAddress,
+							deposit.txHash,
+							deposit.logIndex,
+						),
+					);
+				}
+				const storedDeposit = storedDeposits.get(depositId);
 
-		const [target, value, tokenCallData] = calls[0];
-		if (target.toLowerCase() !== USDC_ADDRESS.toLowerCase()) {
-			return c.json({ error: "Execution target must be USDC" }, 400);
-		}
-		if (value !== 0n) {
-			return c.json({ error: "USDC transfer cannot include ETH value" }, 400);
-		}
+				if (
+					!storedDeposit ||
+					normalizeAddress(storedDeposit.token) !==
+						normalizeAddress(deposit.token) ||
+					storedDeposit.sender.toLowerCase() !== deposit.sender.toLowerCase() ||
+					storedDeposit.amount !== depositAmount
+				) {
+					return c.json({ error: `Deposit ${depositId} not found` }, 404);
+				}
 
-		const decodedTokenCall = decodeFunctionData({
-			abi: usdcAbi,
-			data: tokenCallData,
-		});
+				if (!storedDeposit.ready) {
+					return c.json(
+						{
+							error: storedDeposit.pending
+								? `Deposit ${depositId} is not confirmed yet`
+								: `Deposit ${depositId} below minimum amount`,
+						},
+						400,
+					);
+				}
 
-		if (decodedTokenCall.functionName !== "transfer") {
-			return c.json({ error: "USDC call must be transfer" }, 400);
-		}
+				const token = findToken(chain, storedDeposit.token);
+				if (!token) {
+					return c.json(
+						{ error: `Token ${storedDeposit.token} is not supported` },
+						400,
+					);
+				}
 
-		const [recipient, transferAmount] = decodedTokenCall.args as [
-			Address,
-			bigint,
-		];
+				// A deposit may be split across several intents of the same batch.
+				const pending = refunds
+					.filter((refund) => refund.deposit === storedDeposit)
+					.reduce((total, refund) => total + refund.amount, 0n);
+				const remaining =
+					storedDeposit.amount - storedDeposit.refundedAmount - pending;
+				const amount = BigInt(intent.amount);
+				if (amount <= 0n) {
+					return c.json({ error: "Refund amount must be positive" }, 400);
+				}
+				if (amount > remaining) {
+					return c.json(
+						{
+							error: `Refund of ${amount} exceeds the ${remaining} left on deposit ${depositId}`,
+						},
+						400,
+					);
+				}
 
-		if (recipient.toLowerCase() !== storedDeposit.sender.toLowerCase()) {
-			return c.json({ error: "Transfer recipient mismatch" }, 400);
-		}
+				refunds.push({
+					deposit: storedDeposit,
+					token,
+					amount,
+					recipient: intent.recipient ?? storedDeposit.sender,
+					reason: intent.reason || undefined,
+				});
+			}
 
-		if (transferAmount !== storedDeposit.amount) {
-			return c.json({ error: "Transfer amount mismatch" }, 400);
-		}
+			const nonce = BigInt(serializedNonce);
+			const encodedSignature = encodeWebAuthnSignature({
+				metadata,
+				rHex,
+				sHex,
+			});
 
-		const fullUserOp = {
-			...userOp,
-			nonce,
-			preVerificationGas: BigInt(userOp.preVerificationGas),
-			signature: encodedSignature,
-		};
+			if (userOp.sender.toLowerCase() !== accountAddress.toLowerCase()) {
+				return c.json({ error: "UserOperation sender mismatch" }, 400);
+			}
 
-		const { request } = await publicClient.simulateContract({
-			address: ENTRYPOINT_ADDRESS,
-			abi: entryPointAbi,
-			functionName: "handleOps",
-			args: [[fullUserOp], walletClient.account.address],
-			account: walletClient.account,
-		});
+			if (!isSupportedInitCode(userOp.initCode, chain.factory)) {
+				return c.json(
+					{ error: "initCode must deploy through the account factory" },
+					400,
+				);
+			}
 
-		const hash = await walletClient.writeContract(request);
+			const fullUserOp = {
+				...userOp,
+				nonce,
+				preVerificationGas: BigInt(userOp.preVerificationGas),
+				signature: encodedSignature,
+			};
+
+			const userOpHash = getPackedUserOperationHash(
+				fullUserOp,
+				chain.chain.id,
+				chain.entryPoint,
+			);
+			const verification = verifyWebAuthnAssertion(
+				{ metadata, rHex, sHex },
+				userOpHash,
+				session.publicKey,
+				getWebAuthnConfig(c.env),
+			);
+
+			if (!verification.valid) {
+				return c.json({ error: verification.error }, 401);
+			}
 
-		const receipt = await publicClient.waitForTransactionReceipt({
-			hash,
-		});
+			const today = getUtcDay();
+			const policyResult = evaluatePolicy(
+				loadPolicy(c.env, chain),
+				userOp.callData,
+				{
+					depositSenders: refunds.map((refund) => refund.deposit.sender),
+					intentRecipients: refunds.map((refund) => refund.recipient),
+					dailySpend: await storage.getDailySpend(accountAddress, today),
+				},
+			);
 
-		if (receipt.status === "reverted") {
-			return c.json({ error: ` Failed to Refund: Reverted ` }, 500);
-		}
+			if (!policyResult.allowed) {
+				return c.json({ error: policyResult.error }, 403);
+			}
+
+			// The policy bounds who may be paid; each call must also carry out
+			// exactly one intent, in request order: a `transfer` for ERC-20 tokens or
+			// a plain value call for the native currency.
+			if (
+				policyResult.calls.length !== refunds.length ||
+				policyResult.transfers.length !== refunds.length
+			) {
+				return c.json(
+					{ error: "Batch must contain exactly one refund call per intent" },
+					400,
+				);
+			}
+			for (const [index, refund] of refunds.entries()) {
+				const transfer = policyResult.transfers[index];
+				if (
+					normalizeAddress(transfer.token) !==
+					normalizeAddress(refund.token.address)
+				) {
+					return c.json(
+						{
+							error: `Call ${index}: refund must transfer the deposited token`,
+						},
+						400,
+					);
+				}
+				if (
+					normalizeAddress(transfer.recipient) !==
+					normalizeAddress(refund.recipient)
+				) {
+					return c.json(
+						{
+							error: `Call ${index}: refund must go to the intent's recipient`,
+						},
+						400,
+					);
+				}
+				if (transfer.amount !== refund.amount) {
+					return c.json(
+						{ error: `Call ${index}: transfer amount mismatch` },
+						400,
+					);
+				}
+			}
 
-		storedDeposit.refunded = true;
-		storedDeposit.refundTxHash = hash;
+			const treasuryRefusal = await checkRelayerBalance(c.env, chain);
+			if (treasuryRefusal) {
+				return c.json(treasuryRefusal, 503);
+			}
 
-		return c.json({
-			status: "success",
-			hash,
-		});
-	} catch (error) {
-		return c.json({ error: ` Failed to refund: ${error} ` }, 500);
-	}
-});
+			const now = Date.now();
+			const job: RefundJob = {
+				id: crypto.randomUUID(),
+				account: session.accountAddress,
+				idempotencyKey,
+				requestHash,
+				status: "queued",
+				userOpHash,
+				userOp: fullUserOp,
+				intents: refunds.map((refund) => ({
+					depositTxHash: refund.deposit.txHash,
+					depositLogIndex: refund.deposit.logIndex,
+					token: refund.token.address,
+					amount: refund.amount,
+					recipient: refund.recipient,
+					reason: refund.reason,
+				})),
+				replacedTransactionHashes: [],
+				createdAt: now,
+				updatedAt: now,
+			};
+			if (!(await storage.createRefundJob(job))) {
+				return c.json(
+					{ error: "A refund of one of these deposits is already in progress" },
+					409,
+				);
+			}
 
-export default app;
-const fetchTransferLogs = async (
-	publicClient: ReturnType<typeof createPublicClient>,
-	account: Address,
-	start: bigint,
-	end: bigint,
-) => {
-	const logs = [];
-	let cursor = start;
-
-	while (cursor <= end) {
-		const chunkEnd = cursor + MAX_GET_LOGS_RANGE - 1n;
-		const toBlock = chunkEnd > end ? end : chunkEnd;
-
-		const chunk = await publicClient.getLogs({
-			address: USDC_ADDRESS,
-			abi: usdcAbi,
-			eventName: "Transfer",
-			args: { to: account },
-			fromBlock: cursor,
-			toBlock,
-		});
+			c.executionCtx.waitUntil(flushRefundQueue(c.env, chain));
+			return c.json({ job: serializeRefundJob(job) }, 202);
+		} catch (error) {
+			return c.json({ error: ` Failed to refund: ${error} ` }, 500);
+		}
+	},
+);
+
+app.get(
+	API_ROUTES.getRefundJob.path,
+	requireSession,
+	validate("param", API_ROUTES.getRefundJob.params),
+	async (c) => {
+		const job = await getStorage(c.env, c.get("chain").chain.id).getRefundJob(
+			c.req.valid("param").id,
+		);
+		// Other accounts' jobs are reported as missing.
+		if (!job || !isSessionAccount(c.get("session"), job.account)) {
+			return c.json({ error: "Refund job not found" }, 404);
+		}
+		return c.json({ job: serializeRefundJob(job) });
+	},
+);
 
-		logs.push(...chunk);
-		cursor = toBlock + 1n;
-	}
+app.get(API_ROUTES.getTreasury.path, async (c) => {
+	const chain = c.get("chain");
+	const { relayer, paymaster } = await getTreasuryStatus(c.env, chain);
+	return c.json({
+		chainId: chain.chain.id,
+		relayer: {
+			address: relayer.address,
+			balance: relayer.balance.toString(),
+			floor: relayer.floor.toString(),
+			belowFloor: relayer.balance < relayer.floor,
+		},
+		paymaster: paymaster
+			? {
+					address: paymaster.address,
+					deposit: paymaster.deposit.toString(),
+					floor: paymaster.floor.toString(),
+					target: paymaster.target.toString(),
+					belowFloor: paymaster.deposit < paymaster.floor,
+				}
+			: null,
+	} satisfies ApiResponse<"getTreasury">);
+});
 
-	return logs;
-};
+app.route("/admin", admin);
+
+export default {
+	fetch: app.fetch,
+	scheduled(_controller, env, ctx) {
+		ctx.waitUntil(
+			Promise.all([
+				scanDeposits(env),
+				resumeRelayer(env),
+				manageTreasury(env),
+				retryWebhookDeliveries(env),
+			]),
+		);
+	},
+} satisfies ExportedHandler<Bindings>;
@@ -0,0 +1,334 @@
+import {
+	type Address,
+	type Hex,
+	concat,
+	encodeAbiParameters,
+	getAddress,
+	keccak256,
+	numberToHex,
+	pad,
+	parseEther,
+	slice,
+	size,
+} from "viem";
+import { type LocalAccount, privateKeyToAccount } from "viem/accounts";
+import type { PackedUserOperation } from "viem/account-abstraction";
+import { entryPointAbi } from "../../shared";
+import { getPublicClient } from "./clients";
+import { evaluatePolicy, loadPolicy } from "./policy";
+import type { AccountStorage } from "./storage";
+import type { Bindings, SupportedChain } from "./types";
+import { isSupportedInitCode, unpackUserOperation } from "./userOperation";
+import { getUtcDay, normalizeAddress } from "./utils";
+
+// `validatePaymasterUserOp` hashes the op and runs one ecrecover; `postOp` is
+// never called because the paymaster returns an empty context.
+export const PAYMASTER_VERIFICATION_GAS_LIMIT = 60_000n;
+export const PAYMASTER_POST_OP_GAS_LIMIT = 0n;
+const SPONSORSHIP_TTL_SECONDS = 10 * 60;
+// Matches the ETH that `/account/create` used to send every new account.
+const DEFAULT_ACCOUNT_BUDGET = parseEther("0.005");
+
+export type PaymasterConfig = {
+	address: Address;
+	signer: LocalAccount;
+	accountBudget: bigint;
+};
+
+export type SponsorshipInput = Omit<
+	PackedUserOperation,
+	"paymasterAndData" | "signature"
+>;
+
+export type Sponsorship = {
+	paymaster: Address;
+	paymasterData: Hex;
+	paymasterVerificationGasLimit: bigint;
+	paymasterPostOpGasLimit: bigint;
+	paymasterAndData: Hex;
+	validUntil: number;
+};
+
+export type SponsorshipResult =
+	| ({ sponsored: true } & Sponsorship)
+	| { sponsored: false; error: string };
+
+export const getPaymasterConfig = (
+	env: Bindings,
+): PaymasterConfig | undefined => {
+	if (!env.PAYMASTER_ADDRESS) {
+		return undefined;
+	}
+
+	return {
+		address: getAddress(env.PAYMASTER_ADDRESS),
+		signer: privateKeyToAccount(
+			(env.PAYMASTER_SIGNER_KEY || env.PRIVATE_KEY) as Hex,
+		),
+		accountBudget: env.PAYMASTER_ACCOUNT_BUDGET
+			? BigInt(env.PAYMASTER_ACCOUNT_BUDGET)
+			: DEFAULT_ACCOUNT_BUDGET,
+	};
+};
+
+/** New accounts are only pre-funded when no paymaster can cover their gas. */
+export const shouldFundNewAccounts = (env: Bindings) =>
+	env.FUND_NEW_ACCOUNTS
+		? env.FUND_NEW_ACCOUNTS === "true"
+		: !env.PAYMASTER_ADDRESS;
+
+const buildSponsorship = (
+	paymaster: Address,
+	paymasterData: Hex,
+	validUntil: number,
+): Sponsorship => ({
+	paymaster,
+	paymasterData,
+	paymasterVerificationGasLimit: PAYMASTER_VERIFICATION_GAS_LIMIT,
+	paymasterPostOpGasLimit: PAYMASTER_POST_OP_GAS_LIMIT,
+	paymasterAndData: concat([
+		paymaster,
+		pad(numberToHex(PAYMASTER_VERIFICATION_GAS_LIMIT), { size: 16 }),
+		pad(numberToHex(PAYMASTER_POST_OP_GAS_LIMIT), { size: 16 }),
+		paymasterData,
+	]),
+	validUntil,
+});
+
+const encodeValidityWindow = (validUntil: number, validAfter: number) =>
+	concat([
+		pad(numberToHex(validUntil), { size: 6 }),
+		pad(numberToHex(validAfter), { size: 6 }),
+	]);
+
+/** Mirrors `VerifyingPaymaster.getHash`. */
+export const getSponsorshipHash = (
+	userOp: SponsorshipInput,
+	paymaster: Address,
+	chainId: number,
+	validUntil: number,
+	validAfter: number,
+): Hex =>
+	keccak256(
+		encodeAbiParameters(
+			[
+				{ type: "address" },
+				{ type: "uint256" },
+				{ type: "bytes32" },
+				{ type: "bytes32" },
+				{ type: "bytes32" },
+				{ type: "uint256" },
+				{ type: "uint256" },
+				{ type: "uint256" },
+				{ type: "bytes32" },
+				{ type: "uint256" },
+				{ type: "address" },
+				{ type: "uint48" },
+				{ type: "uint48" },
+			],
+			[
+				userOp.sender,
+				userOp.nonce,
+				keccak256(userOp.initCode),
+				keccak256(userOp.callData),
+				userOp.accountGasLimits,
+				PAYMASTER_VERIFICATION_GAS_LIMIT,
+				PAYMASTER_POST_OP_GAS_LIMIT,
+				userOp.preVerificationGas,
+				userOp.gasFees,
+				BigInt(chainId),
+				paymaster,
+				validUntil,
+				validAfter,
+			],
+		),
+	);
+
+/**
+ * Placeholder with the final data length for gas estimation. The signature is
+ * not in low-s form, so the paymaster reports a signature failure rather than
+ * reverting.
+ */
+export const getStubSponsorship = (config: PaymasterConfig): Sponsorship =>
+	buildSponsorship(
+		config.address,
+		concat([encodeValidityWindow(0, 0), `0x${"ff".repeat(64)}1c`]),
+		0,
+	);
+
+/** Upper bound on what the EntryPoint can charge the paymaster for the op. */
+export const getMaxGasCost = (userOp: PackedUserOperation) => {
+	const unpacked = unpackUserOperation(userOp);
+	return (
+		(unpacked.verificationGasLimit +
+			unpacked.callGasLimit +
+			(unpacked.paymasterVerificationGasLimit ?? 0n) +
+			(unpacked.paymasterPostOpGasLimit ?? 0n) +
+			unpacked.preVerificationGas) *
+		unpacked.maxFeePerGas
+	);
+};
+
+export const isSponsoredBy = (
+	config: PaymasterConfig | undefined,
+	userOp: PackedUserOperation,
+): config is PaymasterConfig =>
+	config !== undefined &&
+	size(userOp.paymasterAndData) >= 20 &&
+	normalizeAddress(slice(userOp.paymasterAndData, 0, 20)) ===
+		normalizeAddress(config.address);
+
+/**
+ * Wei reserved for the sender's other unexpired sponsorships, or for this
+ * op's nonce when an earlier signature for it cost more. Expired reservations
+ * are settled first: charged when the EntryPoint has used their nonce, and
+ * released otherwise.
+ */
+async function getReservedSponsorship(
+	env: Bindings,
+	chain: SupportedChain,
+	storage: AccountStorage,
+	userOp: SponsorshipInput,
+	now: number,
+) {
+	let reserved = 0n;
+	for (const reservation of await storage.listSponsorshipReservations(
+		userOp.sender,
+	)) {
+		if (reservation.validUntil >= now) {
+			// A new signature for the same nonce replaces the reservation.
+			reserved +=
+				reservation.nonce === userOp.nonce ? 0n : reservation.maxCost;
+			continue;
+		}
+
+		const nonce = await getPublicClient(env, chain).readContract({
+			address: chain.entryPoint,
+			abi: entryPointAbi,
+			functionName: "getNonce",
+			args: [userOp.sender, reservation.nonce >> 64n],
+		});
+		await storage.settleSponsorship(
+			userOp.sender,
+			reservation.nonce,
+			nonce > reservation.nonce,
+		);
+	}
+	return reserved;
+}
+
+/**
+ * Signs sponsorship for a registered account's op if it passes the
+ * user-operation policy and fits in the account's remaining budget.
+ * `intentRecipients` are the alternate recipients of refund intents the op
+ * claims to carry; the refund route checks them against the signed op.
+ */
+export async function sponsorUserOperation(
+	env: Bindings,
+	chain: SupportedChain,
+	storage: AccountStorage,
+	userOp: SponsorshipInput,
+	intentRecipients: Address[] = [],
+): Promise<SponsorshipResult> {
+	const config = getPaymasterConfig(env);
+	if (!config) {
+		return { sponsored: false, error: "Paymaster is not configured" };
+	}
+
+	const session = await storage.getAccountSession(userOp.sender);
+	if (!session) {
+		return {
+			sponsored: false,
+			error: `Sender ${userOp.sender} is not a registered account`,
+		};
+	}
+
+	if (!isSupportedInitCode(userOp.initCode, chain.factory)) {
+		return {
+			sponsored: false,
+			error: "initCode must deploy through the account factory",
+		};
+	}
+
+	const { deposits } = await storage.listDeposits(userOp.sender, {
+		status: "ready",
+	});
+	const policyResult = evaluatePolicy(
+		loadPolicy(env, chain),
+		userOp.callData,
+		{
+			depositSenders: deposits.map((deposit) => deposit.sender),
+			intentRecipients,
+			dailySpend: await storage.getDailySpend(userOp.sender, getUtcDay()),
+		},
+	);
+	if (!policyResult.allowed) {
+		return { sponsored: false, error: policyResult.error };
+	}
+
+	const stub = getStubSponsorship(config);
+	const maxCost = getMaxGasCost({
+		...userOp,
+		paymasterAndData: stub.paymasterAndData,
+		signature: "0x",
+	});
+	const validAfter = Math.floor(Date.now() / 1000);
+	const validUntil = validAfter + SPONSORSHIP_TTL_SECONDS;
+	// Settling expired reservations may charge them, so spend is read after.
+	const reserved = await getReservedSponsorship(
+		env,
+		chain,
+		storage,
+		userOp,
+		validAfter,
+	);
+	const committed =
+		reserved + (await storage.getSponsoredSpend(userOp.sender));
+	if (committed + maxCost > config.accountBudget) {
+		return {
+			sponsored: false,
+			error: `Sponsorship budget exceeded: ${committed + maxCost} > ${config.accountBudget} wei`,
+		};
+	}
+
+	// Held against the budget until the op is charged or the signature expires
+	// unused, since the op may reach the EntryPoint through any bundler.
+	await storage.reserveSponsorship({
+		account: userOp.sender,
+		nonce: userOp.nonce,
+		maxCost,
+		validUntil,
+	});
+	const signature = await config.signer.signMessage({
+		message: {
+			raw: getSponsorshipHash(
+				userOp,
+				config.address,
+				chain.chain.id,
+				validUntil,
+				validAfter,
+			),
+		},
+	});
+
+	return {
+		sponsored: true,
+		...buildSponsorship(
+			config.address,
+			concat([encodeValidityWindow(validUntil, validAfter), signature]),
+			validUntil,
+		),
+	};
+}
+
+/** Charges a submitted op's reserved gas cost to its sender's budget. */
+export async function recordSponsorship(
+	env: Bindings,
+	storage: AccountStorage,
+	userOp: PackedUserOperation,
+) {
+	if (!isSponsoredBy(getPaymasterConfig(env), userOp)) {
+		return;
+	}
+	await storage.settleSponsorship(userOp.sender, userOp.nonce, true);
+}
@@ -0,0 +1,192 @@
+import {
+	type Address,
+	type Hex,
+	encodeAbiParameters,
+	encodeFunctionData,
+	encodePacked,
+	erc20Abi,
+} from "viem";
+import { describe, expect, it } from "vitest";
+import {
+	CHAINS,
+	SEPOLIA_CHAIN_ID,
+	accountWebAuthnAbi,
+	usdcAbi,
+} from "../../shared";
+import {
+	NATIVE_TOKEN,
+	type PolicyContext,
+	evaluatePolicy,
+	getDefaultPolicy,
+} from "./policy";
+import { normalizeAddress } from "./utils";
+
+const chain = CHAINS[SEPOLIA_CHAIN_ID];
+const policy = getDefaultPolicy(chain);
+const usdc = chain.tokens.USDC.address;
+
+const sender: Address = "0x1111111111111111111111111111111111111111";
+const stranger: Address = "0x2222222222222222222222222222222222222222";
+
+const context: PolicyContext = { depositSenders: [sender], dailySpend: {} };
+
+const BATCH_MODE = encodePacked(
+	["bytes1", "bytes1", "bytes4", "bytes4", "bytes22"],
+	["0x01", "0x00", "0x00000000", "0x00000000", `0x${"00".repeat(22)}`],
+);
+
+const execute = (calls: [Address, bigint, Hex][]) =>
+	encodeFunctionData({
+		abi: accountWebAuthnAbi,
+		functionName: "execute",
+		args: [
+			BATCH_MODE,
+			encodeAbiParameters(
+				[
+					{
+						type: "tuple[]",
+						components: [
+							{ type: "address" },
+							{ type: "uint256" },
+							{ type: "bytes" },
+						],
+					},
+				],
+				[calls],
+			),
+		],
+	});
+
+const transfer = (
+	recipient: Address,
+	amount: bigint,
+): [Address, bigint, Hex] => [
+	usdc,
+	0n,
+	encodeFunctionData({
+		abi: usdcAbi,
+		functionName: "transfer",
+		args: [recipient, amount],
+	}),
+];
+
+describe("evaluatePolicy", () => {
+	it("allows token and native refunds to the deposit sender", () => {
+		const result = evaluatePolicy(
+			policy,
+			execute([transfer(sender, 5_000_000n), [sender, 10n ** 15n, "0x"]]),
+			context,
+		);
+
+		expect(result).toEqual({
+			allowed: true,
+			calls: expect.any(Array),
+			transfers: [
+				{ token: usdc, recipient: sender, amount: 5_000_000n },
+				{ token: NATIVE_TOKEN, recipient: sender, amount: 10n ** 15n },
+			],
+		});
+	});
+
+	it("rejects callData that is not an execute batch", () => {
+		expect(evaluatePolicy(policy, "0xdeadbeef", context).allowed).toBe(false);
+	});
+
+	it("rejects an empty batch and one over the call limit", () => {
+		expect(evaluatePolicy(policy, execute([]), context)).toEqual({
+			allowed: false,
+			error: "Missing execution calls",
+		});
+
+		const calls = Array.from({ length: policy.maxCallsPerBatch + 1 }, () =>
+			transfer(sender, 1n),
+		);
+		expect(evaluatePolicy(policy, execute(calls), context).allowed).toBe(
+			false,
+		);
+	});
+
+	it("rejects recipients other than deposit senders", () => {
+		expect(
+			evaluatePolicy(policy, execute([transfer(stranger, 1n)]), context),
+		).toEqual({
+			allowed: false,
+			error: `Call 0: recipient ${stranger} is not allowed`,
+		});
+		expect(
+			evaluatePolicy(policy, execute([transfer(stranger, 1n)]), {
+				...context,
+				intentRecipients: [stranger],
+			}).allowed,
+		).toBe(true);
+	});
+
+	it("rejects targets and selectors outside the policy", () => {
+		const [, , data] = transfer(sender, 1n);
+		expect(
+			evaluatePolicy(policy, execute([[stranger, 0n, data]]), context),
+		).toEqual({
+			allowed: false,
+			error: `Call 0: target ${stranger} is not allowed`,
+		});
+
+		const approve = encodeFunctionData({
+			abi: erc20Abi,
+			functionName: "approve",
+			args: [sender, 1n],
+		});
+		expect(
+			evaluatePolicy(policy, execute([[usdc, 0n, approve]]), context).allowed,
+		).toBe(false);
+	});
+
+	it("rejects a transfer with malformed arguments", () => {
+		const [, , data] = transfer(sender, 1n);
+		const truncated = data.slice(0, 20) as Hex;
+		expect(
+			evaluatePolicy(policy, execute([[usdc, 0n, truncated]]), context),
+		).toEqual({
+			allowed: false,
+			error: "Call 0: malformed transfer calldata",
+		});
+	});
+
+	it("rejects native transfers above the limit or without a rule", () => {
+		const value = policy.nativeTransfers?.maxValue ?? 0n;
+		expect(
+			evaluatePolicy(policy, execute([[sender, value + 1n, "0x"]]), context)
+				.allowed,
+		).toBe(false);
+		expect(
+			evaluatePolicy(
+				{ ...policy, nativeTransfers: undefined },
+				execute([[sender, 1n, "0x"]]),
+				context,
+			),
+		).toEqual({
+			allowed: false,
+			error: "Call 0: native transfers are not allowed",
+		});
+	});
+
+	it("counts today's spend against the daily cap", () => {
+		const cap = policy.dailySpendCaps[normalizeAddress(usdc)];
+		const calldata = execute([transfer(sender, 2n)]);
+
+		expect(
+			evaluatePolicy(policy, calldata, {
+				...context,
+				dailySpend: { [normalizeAddress(usdc)]: cap - 2n },
+			}).allowed,
+		).toBe(true);
+		expect(
+			evaluatePolicy(policy, calldata, {
+				...context,
+				dailySpend: { [normalizeAddress(usdc)]: cap - 1n },
+			}),
+		).toEqual({
+			allowed: false,
+			error: `Daily spend cap exceeded for token ${normalizeAddress(usdc)}`,
+		});
+	});
+});
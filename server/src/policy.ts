@@ -0,0 +1,355 @@
+import {
+	type Address,
+	type Hex,
+	decodeAbiParameters,
+	decodeFunctionData,
+	size,
+	slice,
+	toFunctionSelector,
+} from "viem";
+import {
+	type ChainConfig,
+	NATIVE_TOKEN_ADDRESS,
+	accountWebAuthnAbi,
+	isNativeToken,
+	usdcAbi,
+} from "../../shared";
+import type { Bindings } from "./types";
+import { normalizeAddress } from "./utils";
+
+/** Key used in spend caps and transfer summaries for native ETH. */
+export const NATIVE_TOKEN = NATIVE_TOKEN_ADDRESS;
+
+const ERC20_TRANSFER_SELECTOR = toFunctionSelector(
+	"transfer(address,uint256)",
+);
+
+export type RecipientRule =
+	| { type: "any" }
+	| { type: "allowlist"; addresses: Address[] }
+	/**
+	 * Recipient must be the sender of one of the deposits being refunded, or
+	 * an alternate recipient named by one of their signed refund intents.
+	 */
+	| { type: "depositSender" };
+
+export type TargetRule = {
+	target: Address;
+	selectors: Hex[];
+	maxValue: bigint;
+	/** Applied to the `recipient` argument of ERC-20 `transfer` calls. */
+	recipients: RecipientRule;
+};
+
+export type NativeTransferRule = {
+	maxValue: bigint;
+	recipients: RecipientRule;
+};
+
+export type UserOperationPolicy = {
+	maxCallsPerBatch: number;
+	targets: TargetRule[];
+	/** Calls with empty calldata; rejected when unset. */
+	nativeTransfers?: NativeTransferRule;
+	/** Per-account caps keyed by lower-cased token address (or `NATIVE_TOKEN`). */
+	dailySpendCaps: Record<string, bigint>;
+};
+
+export type ExecutionCall = {
+	target: Address;
+	value: bigint;
+	data: Hex;
+};
+
+export type PolicyTransfer = {
+	token: Address;
+	recipient: Address;
+	amount: bigint;
+};
+
+export type PolicyContext = {
+	depositSenders: Address[];
+	intentRecipients?: Address[];
+	/** Amount already spent today, keyed like `dailySpendCaps`. */
+	dailySpend: Record<string, bigint>;
+};
+
+export type PolicyResult =
+	| { allowed: true; calls: ExecutionCall[]; transfers: PolicyTransfer[] }
+	| { allowed: false; error: string };
+
+// Default daily cap per token, in multiples of its minimum refund.
+const DEFAULT_DAILY_REFUNDS = 1_000n;
+const DEFAULT_MAX_REFUNDS_PER_BATCH = 10;
+
+/**
+ * Refund-only policy: a batch of `transfer` calls of registered ERC-20 tokens
+ * and native transfers, each back to a deposit sender.
+ */
+export const getDefaultPolicy = (chain: ChainConfig): UserOperationPolicy => {
+	const tokens = Object.values(chain.tokens);
+	const nativeToken = tokens.find(isNativeToken);
+	return {
+		maxCallsPerBatch: DEFAULT_MAX_REFUNDS_PER_BATCH,
+		targets: tokens
+			.filter((token) => !isNativeToken(token))
+			.map((token) => ({
+				target: token.address,
+				selectors: [ERC20_TRANSFER_SELECTOR],
+				maxValue: 0n,
+				recipients: { type: "depositSender" },
+			})),
+		nativeTransfers: nativeToken && {
+			maxValue: DEFAULT_DAILY_REFUNDS * nativeToken.minRefundAmount,
+			recipients: { type: "depositSender" },
+		},
+		dailySpendCaps: Object.fromEntries(
+			tokens.map((token) => [
+				normalizeAddress(token.address),
+				DEFAULT_DAILY_REFUNDS * token.minRefundAmount,
+			]),
+		),
+	};
+};
+
+type SerializedPolicy = {
+	maxCallsPerBatch: number;
+	targets: (Omit<TargetRule, "maxValue"> & { maxValue: string })[];
+	nativeTransfers?: Omit<NativeTransferRule, "maxValue"> & {
+		maxValue: string;
+	};
+	dailySpendCaps?: Record<string, string>;
+};
+
+/**
+ * Reads the policy from the `USER_OP_POLICY` JSON variable (amounts as decimal
+ * strings), falling back to the refund-only default. The variable holds either
+ * one policy or policies keyed by chain id, since token addresses differ per chain.
+ */
+export const loadPolicy = (
+	env: Bindings,
+	chain: ChainConfig,
+): UserOperationPolicy => {
+	if (!env.USER_OP_POLICY) {
+		return getDefaultPolicy(chain);
+	}
+
+	const configured = JSON.parse(env.USER_OP_POLICY) as
+		| SerializedPolicy
+		| Record<string, SerializedPolicy>;
+	const parsed =
+		"maxCallsPerBatch" in configured
+			? (configured as SerializedPolicy)
+			: (configured as Record<string, SerializedPolicy>)[chain.chain.id];
+	if (!parsed) {
+		return getDefaultPolicy(chain);
+	}
+
+	return {
+		maxCallsPerBatch: parsed.maxCallsPerBatch,
+		targets: parsed.targets.map((rule) => ({
+			...rule,
+			maxValue: BigInt(rule.maxValue),
+		})),
+		nativeTransfers: parsed.nativeTransfers && {
+			...parsed.nativeTransfers,
+			maxValue: BigInt(parsed.nativeTransfers.maxValue),
+		},
+		dailySpendCaps: Object.fromEntries(
+			Object.entries(parsed.dailySpendCaps ?? {}).map(([token, cap]) => [
+				normalizeAddress(token),
+				BigInt(cap),
+			]),
+		),
+	};
+};
+
+/** Unpacks `execute(mode, executionData)` into its batch of calls. */
+export const decodeExecutionCalls = (callData: Hex): ExecutionCall[] => {
+	const decodedAccountCall = decodeFunctionData({
+		abi: accountWebAuthnAbi,
+		data: callData,
+	});
+
+	if (decodedAccountCall.functionName !== "execute") {
+		throw new Error("Invalid callData function");
+	}
+
+	const [, executionData] = decodedAccountCall.args as [Hex, Hex];
+	const [calls] = decodeAbiParameters(
+		[
+			{
+				type: "tuple[]",
+				components: [
+					{ type: "address" },
+					{ type: "uint256" },
+					{ type: "bytes" },
+				],
+			},
+		],
+		executionData,
+	) as unknown as [[Address, bigint, Hex][]];
+
+	return calls.map(([target, value, data]) => ({ target, value, data }));
+};
+
+const recipientAllowed = (
+	rule: RecipientRule,
+	recipient: Address,
+	context: PolicyContext,
+) => {
+	const candidate = normalizeAddress(recipient);
+	switch (rule.type) {
+		case "any":
+			return true;
+		case "allowlist":
+			return rule.addresses.some(
+				(address) => normalizeAddress(address) === candidate,
+			);
+		case "depositSender":
+			return [
+				...context.depositSenders,
+				...(context.intentRecipients ?? []),
+			].some((sender) => normalizeAddress(sender) === candidate);
+	}
+};
+
+const addSpend = (
+	totals: Record<string, bigint>,
+	token: Address,
+	amount: bigint,
+) => {
+	const key = normalizeAddress(token);
+	totals[key] = (totals[key] ?? 0n) + amount;
+};
+
+/**
+ * Checks every call of an `execute` batch against the policy. Pure: spend
+ * already recorded for today is passed in through the context.
+ */
+export function evaluatePolicy(
+	policy: UserOperationPolicy,
+	callData: Hex,
+	context: PolicyContext,
+): PolicyResult {
+	let calls: ExecutionCall[];
+	try {
+		calls = decodeExecutionCalls(callData);
+	} catch (error) {
+		return {
+			allowed: false,
+			error: error instanceof Error ? error.message : "Invalid callData",
+		};
+	}
+
+	if (!calls.length) {
+		return { allowed: false, error: "Missing execution calls" };
+	}
+	if (calls.length > policy.maxCallsPerBatch) {
+		return {
+			allowed: false,
+			error: `Batch has ${calls.length} calls; at most ${policy.maxCallsPerBatch} allowed`,
+		};
+	}
+
+	const transfers: PolicyTransfer[] = [];
+	const batchSpend: Record<string, bigint> = {};
+
+	for (const [index, call] of calls.entries()) {
+		if (call.data === "0x") {
+			const rule = policy.nativeTransfers;
+			if (!rule) {
+				return {
+					allowed: false,
+					error: `Call ${index}: native transfers are not allowed`,
+				};
+			}
+			if (call.value > rule.maxValue) {
+				return {
+					allowed: false,
+					error: `Call ${index}: value exceeds ${rule.maxValue} wei`,
+				};
+			}
+			if (!recipientAllowed(rule.recipients, call.target, context)) {
+				return {
+					allowed: false,
+					error: `Call ${index}: recipient ${call.target} is not allowed`,
+				};
+			}
+			transfers.push({
+				token: NATIVE_TOKEN,
+				recipient: call.target,
+				amount: call.value,
+			});
+			addSpend(batchSpend, NATIVE_TOKEN, call.value);
+			continue;
+		}
+
+		const rule = policy.targets.find(
+			(candidate) =>
+				normalizeAddress(candidate.target) === normalizeAddress(call.target),
+		);
+		if (!rule) {
+			return {
+				allowed: false,
+				error: `Call ${index}: target ${call.target} is not allowed`,
+			};
+		}
+		if (call.value > rule.maxValue) {
+			return {
+				allowed: false,
+				error: `Call ${index}: value exceeds ${rule.maxValue} wei`,
+			};
+		}
+		if (call.value > 0n) {
+			addSpend(batchSpend, NATIVE_TOKEN, call.value);
+		}
+
+		const selector = size(call.data) >= 4 ? slice(call.data, 0, 4) : call.data;
+		if (
+			!rule.selectors.some((allowed) => allowed.toLowerCase() === selector)
+		) {
+			return {
+				allowed: false,
+				error: `Call ${index}: selector ${selector} is not allowed on ${call.target}`,
+			};
+		}
+
+		if (selector === ERC20_TRANSFER_SELECTOR) {
+			let recipient: Address;
+			let amount: bigint;
+			try {
+				const decodedTokenCall = decodeFunctionData({
+					abi: usdcAbi,
+					data: call.data,
+				});
+				[recipient, amount] = decodedTokenCall.args as [Address, bigint];
+			} catch {
+				return {
+					allowed: false,
+					error: `Call ${index}: malformed transfer calldata`,
+				};
+			}
+			if (!recipientAllowed(rule.recipients, recipient, context)) {
+				return {
+					allowed: false,
+					error: `Call ${index}: recipient ${recipient} is not allowed`,
+				};
+			}
+			transfers.push({ token: call.target, recipient, amount });
+			addSpend(batchSpend, call.target, amount);
+		}
+	}
+
+	for (const [token, amount] of Object.entries(batchSpend)) {
+		const cap = policy.dailySpendCaps[token];
+		if (cap !== undefined && (context.dailySpend[token] ?? 0n) + amount > cap) {
+			return {
+				allowed: false,
+				error: `Daily spend cap exceeded for token ${token}`,
+			};
+		}
+	}
+
+	return { allowed: true, calls, transfers };
+}
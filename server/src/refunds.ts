@@ -0,0 +1,295 @@
+import type { Hex, TransactionReceipt } from "viem";
+import {
+	type PublicClient,
+	type WalletClient,
+	getPublicClient,
+	getWalletClient,
+} from "./clients";
+import {
+	type EntryPointError,
+	getUserOperationOutcome,
+} from "./entryPointErrors";
+import { emitAccountEvent } from "./events";
+import { recordSponsorship } from "./paymaster";
+import {
+	serializeDeposit,
+	serializeRefund,
+	serializeRefundJob,
+} from "./serializers";
+import { type AccountStorage, getStorage } from "./storage";
+import type {
+	Bindings,
+	DepositRecord,
+	RefundIntent,
+	RefundJob,
+	RefundRecord,
+	RelayerBundle,
+	SupportedChain,
+	WebhookEventType,
+} from "./types";
+
+// Bookkeeping of refund jobs; `relayer.ts` bundles and sends their operations.
+
+export type RefundJobContext = {
+	env: Bindings;
+	chain: SupportedChain;
+	storage: AccountStorage;
+	publicClient: PublicClient;
+	walletClient: WalletClient;
+};
+
+/** Why a job failed; decoded EntryPoint errors also carry a code. */
+export type RefundFailure = Pick<EntryPointError, "message"> &
+	Partial<EntryPointError>;
+
+export const createRefundJobContext = (
+	env: Bindings,
+	chain: SupportedChain,
+): RefundJobContext => ({
+	env,
+	chain,
+	storage: getStorage(env, chain.chain.id),
+	publicClient: getPublicClient(env, chain),
+	walletClient: getWalletClient(env, chain),
+});
+
+const toRefundRecords = (
+	job: RefundJob,
+	transactionHash: Hex,
+): RefundRecord[] =>
+	job.intents.map((intent) => ({
+		...intent,
+		userOpHash: job.userOpHash,
+		signature: job.userOp.signature,
+		transactionHash,
+		createdAt: job.createdAt,
+	}));
+
+const updateRefundJob = async (
+	storage: AccountStorage,
+	job: RefundJob,
+	changes: Partial<RefundJob>,
+) => {
+	const next = { ...job, ...changes, updatedAt: Date.now() };
+	await storage.saveRefundJob(next);
+	return next;
+};
+
+const emitRefundEvent = (
+	context: RefundJobContext,
+	job: RefundJob,
+	type: WebhookEventType,
+	data: Record<string, unknown> = {},
+) =>
+	emitAccountEvent(context.storage, {
+		type,
+		chainId: context.chain.chain.id,
+		account: job.account,
+		data: {
+			job: serializeRefundJob(job),
+			refunds: job.intents.map((intent) =>
+				serializeRefund({
+					...intent,
+					userOpHash: job.userOpHash,
+					signature: job.userOp.signature,
+					transactionHash: job.transaction?.hash,
+					createdAt: job.createdAt,
+				}),
+			),
+			...data,
+		},
+	});
+
+export async function failRefundJob(
+	context: RefundJobContext,
+	job: RefundJob,
+	failure: RefundFailure,
+) {
+	// Saving the job as failed also gives its intents back to the daily cap.
+	const failed = await updateRefundJob(context.storage, job, {
+		status: "failed",
+		error: failure.message,
+		errorCode: failure.code,
+	});
+	await emitRefundEvent(context, failed, "refund.failed", {
+		error: failure.message,
+		errorCode: failure.code ?? null,
+		reason: failure.reason ?? null,
+	});
+	return failed;
+}
+
+/**
+ * Copies the bundle's status and transaction onto one of its jobs, announcing
+ * the job once the bundle is first broadcast.
+ */
+export async function syncRefundJob(
+	context: RefundJobContext,
+	job: RefundJob,
+	bundle: RelayerBundle,
+) {
+	const synced = await updateRefundJob(context.storage, job, {
+		status: bundle.status,
+		bundleId: bundle.id,
+		transaction: bundle.transaction,
+		replacedTransactionHashes: bundle.replacedTransactionHashes,
+	});
+	if (synced.status === "submitted" && job.status !== "submitted") {
+		await emitRefundEvent(context, synced, "refund.submitted");
+	}
+	return synced;
+}
+
+/**
+ * Records the refunds of a job whose bundle was mined, or fails it if its
+ * operation did not execute or its calls reverted. Gas is paid either way
+ * once the operation executed.
+ */
+export async function completeRefundJob(
+	context: RefundJobContext,
+	job: RefundJob,
+	bundle: RelayerBundle,
+	receipt: TransactionReceipt,
+) {
+	const { env, chain, storage } = context;
+	const mined: RefundJob = {
+		...job,
+		bundleId: bundle.id,
+		transaction: bundle.transaction,
+		replacedTransactionHashes: bundle.replacedTransactionHashes,
+	};
+	const outcome = getUserOperationOutcome(
+		receipt.logs,
+		chain.entryPoint,
+		job.userOpHash,
+	);
+	if (outcome.status === "missing") {
+		return failRefundJob(context, mined, {
+			message:
+				receipt.status === "reverted"
+					? "The handleOps transaction reverted."
+					: "The bundle was mined without executing the operation.",
+		});
+	}
+
+	await storage.saveUserOperation({
+		userOpHash: job.userOpHash,
+		entryPoint: chain.entryPoint,
+		userOp: job.userOp,
+		transactionHash: receipt.transactionHash,
+		submittedAt: bundle.transaction.sentAt ?? job.createdAt,
+	});
+	await recordSponsorship(env, storage, job.userOp);
+	if (outcome.status === "reverted") {
+		return failRefundJob(context, mined, outcome.error);
+	}
+
+	await storage.recordRefunds(
+		job.account,
+		toRefundRecords(job, receipt.transactionHash),
+	);
+	const confirmed = await updateRefundJob(storage, mined, {
+		status: "confirmed",
+	});
+
+	// Intents splitting one deposit report it once.
+	const refundedDeposits = new Map(
+		job.intents.map((intent) => [
+			`${intent.depositTxHash}:${intent.depositLogIndex}`,
+			intent,
+		]),
+	);
+	const deposits: DepositRecord[] = [];
+	for (const intent of refundedDeposits.values()) {
+		const deposit = await storage.getDeposit(
+			job.account,
+			intent.depositTxHash,
+			intent.depositLogIndex,
+		);
+		if (deposit) {
+			deposits.push(deposit);
+		}
+	}
+	await emitRefundEvent(context, confirmed, "refund.confirmed", {
+		deposits: deposits.map(serializeDeposit),
+	});
+	return confirmed;
+}
+
+/**
+ * Throws unless each deposit the job refunds has its intents' total left to
+ * refund. A failed job no longer holds its deposits, so another job may have
+ * refunded them since.
+ */
+async function assertDepositsRefundable(
+	storage: AccountStorage,
+	job: RefundJob,
+) {
+	const totals = new Map<string, RefundIntent>();
+	for (const intent of job.intents) {
+		const key = `${intent.depositTxHash}:${intent.depositLogIndex}`;
+		const total = totals.get(key);
+		totals.set(key, {
+			...intent,
+			amount: (total?.amount ?? 0n) + intent.amount,
+		});
+	}
+	for (const intent of totals.values()) {
+		const deposit = await storage.getDeposit(
+			job.account,
+			intent.depositTxHash,
+			intent.depositLogIndex,
+		);
+		if (!deposit || deposit.amount - deposit.refundedAmount < intent.amount) {
+			throw new Error(
+				`Deposit ${intent.depositTxHash} has less than ${intent.amount} left to refund`,
+			);
+		}
+	}
+}
+
+/**
+ * Settles a job by hand from the transaction that carried its operation, for
+ * jobs the relayer lost track of. As with the relayer's own receipts, refunds
+ * are only recorded when the operation executed. Confirmed jobs are refused,
+ * and failed ones too unless their deposits still cover their intents.
+ */
+export async function reconcileRefundJob(
+	context: RefundJobContext,
+	job: RefundJob,
+	transactionHash: Hex,
+) {
+	if (job.status === "confirmed") {
+		throw new Error("The job is already confirmed");
+	}
+	if (job.status === "failed") {
+		await assertDepositsRefundable(context.storage, job);
+	}
+
+	const { publicClient } = context;
+	const [transaction, receipt] = await Promise.all([
+		publicClient.getTransaction({ hash: transactionHash }),
+		publicClient.getTransactionReceipt({ hash: transactionHash }),
+	]);
+	const now = Date.now();
+	const bundle: RelayerBundle = {
+		id: job.bundleId ?? crypto.randomUUID(),
+		status: receipt.status === "success" ? "confirmed" : "failed",
+		jobIds: [job.id],
+		transaction: {
+			hash: transactionHash,
+			nonce: transaction.nonce,
+			gas: transaction.gas,
+			maxFeePerGas: transaction.maxFeePerGas ?? transaction.gasPrice ?? 0n,
+			maxPriorityFeePerGas: transaction.maxPriorityFeePerGas ?? 0n,
+			sentAt: job.transaction?.sentAt,
+		},
+		replacedTransactionHashes: [
+			...(job.transaction ? [job.transaction.hash] : []),
+			...job.replacedTransactionHashes,
+		].filter((hash) => hash !== transactionHash),
+		createdAt: now,
+		updatedAt: now,
+	};
+	return completeRefundJob(context, job, bundle, receipt);
+}
@@ -0,0 +1,547 @@
+import {
+	BaseError,
+	type Hex,
+	RpcRequestError,
+	type TransactionReceipt,
+	TransactionReceiptNotFoundError,
+	encodeFunctionData,
+	keccak256,
+} from "viem";
+import { CHAINS, entryPointAbi } from "../../shared";
+import {
+	type PublicClient,
+	getPublicClient,
+	getSupportedChain,
+	getWalletClient,
+} from "./clients";
+import { decodeEntryPointError } from "./entryPointErrors";
+import {
+	type RefundFailure,
+	type RefundJobContext,
+	completeRefundJob,
+	createRefundJobContext,
+	failRefundJob,
+	syncRefundJob,
+} from "./refunds";
+import { type AccountStorage, getStorage, isOpenRefundJob } from "./storage";
+import type {
+	Bindings,
+	RefundJob,
+	RelayerBundle,
+	RelayerTransaction,
+	SupportedChain,
+} from "./types";
+
+/** How long a flush waits for other refunds to join the queue. */
+export const BUNDLE_WINDOW_MS = 2_000;
+const MAX_BUNDLE_SIZE = 10;
+/** How long the request that queued a job keeps waiting for its receipt. */
+export const RECEIPT_WAIT_MS = 20_000;
+// Claims and bundles touched more recently are still being handled by the
+// request that made them, so the cron trigger leaves them alone.
+const RESUME_AFTER_MS = 60_000;
+// Unmined transactions are re-sent with higher fees after this long.
+const STUCK_TRANSACTION_MS = 2 * 60 * 1000;
+// Nodes only accept a replacement that pays at least 10% more.
+const GAS_BUMP_PERCENT = 125n;
+const MAX_GAS_BUMPS = 5;
+
+type TransactionFields = Omit<RelayerTransaction, "hash" | "sentAt">;
+
+/** A bundle with its jobs, in `handleOps` order. */
+type BundleState = {
+	bundle: RelayerBundle;
+	jobs: RefundJob[];
+};
+
+const maxBigInt = (a: bigint, b: bigint) => (a > b ? a : b);
+
+const bumpFee = (fee: bigint) => (fee * GAS_BUMP_PERCENT + 99n) / 100n;
+
+/**
+ * Next nonce of the relayer EOA. Every transaction the relayer sends takes its
+ * nonce from here, so concurrent requests never sign two with the same one.
+ */
+export async function reserveRelayerNonce(
+	env: Bindings,
+	chain: SupportedChain,
+) {
+	const { address } = getWalletClient(env, chain).account;
+	const pendingNonce = await getPublicClient(env, chain).getTransactionCount({
+		address,
+		blockTag: "pending",
+	});
+	return getStorage(env, chain.chain.id).reserveRelayerNonce(
+		address,
+		pendingNonce,
+	);
+}
+
+/**
+ * Sends a relayer transaction with a reserved nonce. When sending fails the
+ * nonce is released for the next transaction, so it leaves no gap that would
+ * hold up the ones after it.
+ */
+export async function sendRelayerTransaction<T>(
+	env: Bindings,
+	chain: SupportedChain,
+	send: (nonce: number) => Promise<T>,
+) {
+	const nonce = await reserveRelayerNonce(env, chain);
+	try {
+		return await send(nonce);
+	} catch (error) {
+		await getStorage(env, chain.chain.id).releaseRelayerNonce(
+			getWalletClient(env, chain).account.address,
+			nonce,
+		);
+		throw error;
+	}
+}
+
+const updateRelayerBundle = async (
+	storage: AccountStorage,
+	bundle: RelayerBundle,
+	changes: Partial<RelayerBundle>,
+) => {
+	const next = { ...bundle, ...changes, updatedAt: Date.now() };
+	await storage.saveRelayerBundle(next);
+	return next;
+};
+
+// Jobs that closed while the bundle stayed open, e.g. when a run stopped
+// halfway through completing it, keep their final state.
+const syncBundleJobs = async (
+	context: RefundJobContext,
+	bundle: RelayerBundle,
+	jobs: RefundJob[],
+) => {
+	const synced: RefundJob[] = [];
+	for (const job of jobs) {
+		synced.push(
+			isOpenRefundJob(job) ? await syncRefundJob(context, job, bundle) : job,
+		);
+	}
+	return synced;
+};
+
+const encodeHandleOps = (context: RefundJobContext, jobs: RefundJob[]) =>
+	encodeFunctionData({
+		abi: entryPointAbi,
+		functionName: "handleOps",
+		args: [
+			jobs.map((job) => job.userOp),
+			context.walletClient.account.address,
+		],
+	});
+
+// Signing is deterministic, so the same fields always give the same hash.
+async function signBundle(
+	context: RefundJobContext,
+	jobs: RefundJob[],
+	{ nonce, gas, maxFeePerGas, maxPriorityFeePerGas }: TransactionFields,
+) {
+	const fields = { nonce, gas, maxFeePerGas, maxPriorityFeePerGas };
+	const serializedTransaction = await context.walletClient.signTransaction({
+		type: "eip1559",
+		to: context.chain.entryPoint,
+		data: encodeHandleOps(context, jobs),
+		...fields,
+	});
+	return {
+		serializedTransaction,
+		transaction: { ...fields, hash: keccak256(serializedTransaction) },
+	};
+}
+
+async function sendSignedTransaction(
+	context: RefundJobContext,
+	serializedTransaction: Hex,
+) {
+	try {
+		await context.publicClient.sendRawTransaction({ serializedTransaction });
+	} catch (error) {
+		// A re-broadcast of a transaction the node already has, or has mined.
+		if (!/already known|nonce too low/i.test(`${error}`)) {
+			throw error;
+		}
+	}
+}
+
+// The node answered with an error, so the transaction was not accepted. Other
+// errors, such as timeouts, may hide a send that went through.
+const isRejectedByNode = (error: unknown): error is BaseError =>
+	error instanceof BaseError &&
+	!!error.walk((cause) => cause instanceof RpcRequestError);
+
+/**
+ * Simulates `handleOps` over the jobs' operations, failing each one the
+ * EntryPoint rejects until the rest pass. Resolves to the jobs left.
+ */
+async function simulateBundle(context: RefundJobContext, jobs: RefundJob[]) {
+	const { chain, publicClient, walletClient } = context;
+	let remaining = jobs;
+	while (remaining.length > 0) {
+		try {
+			await publicClient.simulateContract({
+				address: chain.entryPoint,
+				abi: entryPointAbi,
+				functionName: "handleOps",
+				args: [
+					remaining.map((job) => job.userOp),
+					walletClient.account.address,
+				],
+				account: walletClient.account,
+			});
+			return remaining;
+		} catch (error) {
+			const decoded = decodeEntryPointError(error);
+			if (!decoded) {
+				throw error;
+			}
+			// Reverts that name no operation fail the whole bundle.
+			const named =
+				decoded.opIndex === undefined ? undefined : remaining[decoded.opIndex];
+			const rejected = named ? [named] : remaining;
+			for (const job of rejected) {
+				await failRefundJob(context, job, decoded);
+			}
+			remaining = remaining.filter((job) => !rejected.includes(job));
+		}
+	}
+	return remaining;
+}
+
+/** Claimed jobs → a signed bundle of the operations that pass simulation. */
+async function createBundle(
+	context: RefundJobContext,
+	bundleId: string,
+	claimed: RefundJob[],
+): Promise<BundleState | undefined> {
+	const { env, chain, storage, walletClient } = context;
+	const jobs = await simulateBundle(context, claimed);
+	if (jobs.length === 0) {
+		return undefined;
+	}
+
+	// The nonce is reserved last, so a failed estimate leaves no gap.
+	const request = await walletClient.prepareTransactionRequest({
+		type: "eip1559",
+		to: chain.entryPoint,
+		data: encodeHandleOps(context, jobs),
+		parameters: ["fees", "gas"],
+	});
+	const { transaction } = await signBundle(context, jobs, {
+		nonce: await reserveRelayerNonce(env, chain),
+		gas: request.gas,
+		maxFeePerGas: request.maxFeePerGas,
+		maxPriorityFeePerGas: request.maxPriorityFeePerGas,
+	});
+	const now = Date.now();
+	const bundle: RelayerBundle = {
+		id: bundleId,
+		status: "simulated",
+		jobIds: jobs.map((job) => job.id),
+		transaction,
+		replacedTransactionHashes: [],
+		createdAt: now,
+		updatedAt: now,
+	};
+	await storage.saveRelayerBundle(bundle);
+	return { bundle, jobs: await syncBundleJobs(context, bundle, jobs) };
+}
+
+/**
+ * Simulated → submitted. When the node rejects the transaction its nonce is
+ * released and the bundle fails, resolving to undefined; other send errors
+ * are thrown and the cron trigger sends the same transaction again.
+ */
+async function broadcastBundle(
+	context: RefundJobContext,
+	state: BundleState,
+): Promise<BundleState | undefined> {
+	const { bundle, jobs } = state;
+	const { serializedTransaction } = await signBundle(
+		context,
+		jobs,
+		bundle.transaction,
+	);
+	try {
+		await sendSignedTransaction(context, serializedTransaction);
+	} catch (error) {
+		if (!isRejectedByNode(error)) {
+			throw error;
+		}
+		await context.storage.releaseRelayerNonce(
+			context.walletClient.account.address,
+			bundle.transaction.nonce,
+		);
+		await failBundle(context, state, {
+			message: `Relayer transaction was rejected: ${error.shortMessage}`,
+		});
+		return undefined;
+	}
+	const submitted = await updateRelayerBundle(context.storage, bundle, {
+		status: "submitted",
+		transaction: { ...bundle.transaction, sentAt: Date.now() },
+	});
+	return {
+		bundle: submitted,
+		jobs: await syncBundleJobs(context, submitted, jobs),
+	};
+}
+
+/** Re-sends the bundle with the same nonce and higher fees. */
+async function bumpBundle(
+	context: RefundJobContext,
+	{ bundle, jobs }: BundleState,
+) {
+	const { transaction } = bundle;
+	const fees = await context.publicClient.estimateFeesPerGas();
+	const replacement = await signBundle(context, jobs, {
+		nonce: transaction.nonce,
+		gas: transaction.gas,
+		maxFeePerGas: maxBigInt(
+			bumpFee(transaction.maxFeePerGas),
+			fees.maxFeePerGas,
+		),
+		maxPriorityFeePerGas: maxBigInt(
+			bumpFee(transaction.maxPriorityFeePerGas),
+			fees.maxPriorityFeePerGas,
+		),
+	});
+	await sendSignedTransaction(context, replacement.serializedTransaction);
+	const replaced = await updateRelayerBundle(context.storage, bundle, {
+		status: "replaced",
+		transaction: { ...replacement.transaction, sentAt: Date.now() },
+		replacedTransactionHashes: [
+			...bundle.replacedTransactionHashes,
+			transaction.hash,
+		],
+	});
+	await syncBundleJobs(context, replaced, jobs);
+}
+
+// Jobs are settled before the bundle is closed, so a run that stops halfway
+// leaves the bundle open for the cron trigger to finish.
+async function completeBundle(
+	context: RefundJobContext,
+	{ bundle, jobs }: BundleState,
+	receipt: TransactionReceipt,
+) {
+	// Whichever of the bundle's transactions was mined becomes its transaction.
+	const mined: RelayerBundle = {
+		...bundle,
+		status: receipt.status === "success" ? "confirmed" : "failed",
+		transaction: { ...bundle.transaction, hash: receipt.transactionHash },
+		replacedTransactionHashes: [
+			bundle.transaction.hash,
+			...bundle.replacedTransactionHashes,
+		].filter((hash) => hash !== receipt.transactionHash),
+	};
+	for (const job of jobs.filter(isOpenRefundJob)) {
+		await completeRefundJob(context, job, mined, receipt);
+	}
+	await updateRelayerBundle(context.storage, mined, {});
+}
+
+async function failBundle(
+	context: RefundJobContext,
+	{ bundle, jobs }: BundleState,
+	failure: RefundFailure,
+) {
+	for (const job of jobs.filter(isOpenRefundJob)) {
+		await failRefundJob(context, job, failure);
+	}
+	await updateRelayerBundle(context.storage, bundle, { status: "failed" });
+}
+
+const getReceipt = (publicClient: PublicClient, hash: Hex) =>
+	publicClient
+		.getTransactionReceipt({ hash })
+		.catch((error: unknown): undefined => {
+			if (error instanceof TransactionReceiptNotFoundError) {
+				return undefined;
+			}
+			throw error;
+		});
+
+/**
+ * Sends empty transactions at the released nonces below `nonce`, which the
+ * node otherwise keeps the bundle waiting behind.
+ */
+async function fillNonceGaps(context: RefundJobContext, nonce: number) {
+	const { env, chain, publicClient, walletClient } = context;
+	const { address } = walletClient.account;
+	const pendingNonce = await publicClient.getTransactionCount({
+		address,
+		blockTag: "pending",
+	});
+	if (pendingNonce >= nonce) {
+		return;
+	}
+
+	let gap = await reserveRelayerNonce(env, chain);
+	while (gap < nonce) {
+		try {
+			await walletClient.sendTransaction({
+				to: address,
+				value: 0n,
+				nonce: gap,
+			});
+		} catch (error) {
+			await context.storage.releaseRelayerNonce(address, gap);
+			throw error;
+		}
+		gap = await reserveRelayerNonce(env, chain);
+	}
+	// No gap was left below the bundle; the last nonce goes back unused.
+	await context.storage.releaseRelayerNonce(address, gap);
+}
+
+/** Submitted or replaced → confirmed, failed or, when stuck, replaced. */
+async function settleBundle(
+	context: RefundJobContext,
+	state: BundleState,
+	receiptWaitMs: number,
+) {
+	const { publicClient, walletClient } = context;
+	const { transaction, replacedTransactionHashes } = state.bundle;
+	if (receiptWaitMs > 0) {
+		const receipt = await publicClient
+			.waitForTransactionReceipt({
+				hash: transaction.hash,
+				timeout: receiptWaitMs,
+			})
+			.catch(() => undefined);
+		if (receipt) {
+			return completeBundle(context, state, receipt);
+		}
+	}
+
+	// Read before the receipts: a nonce that is used by then without any of
+	// the bundle's transactions being mined was taken by another transaction.
+	const relayerNonce = await publicClient.getTransactionCount({
+		address: walletClient.account.address,
+		blockTag: "latest",
+	});
+	for (const hash of [transaction.hash, ...replacedTransactionHashes]) {
+		const receipt = await getReceipt(publicClient, hash);
+		if (receipt) {
+			return completeBundle(context, state, receipt);
+		}
+	}
+	if (relayerNonce > transaction.nonce) {
+		return failBundle(context, state, {
+			message: "Relayer nonce was used by another transaction",
+		});
+	}
+
+	if (
+		Date.now() - (transaction.sentAt ?? state.bundle.updatedAt) <
+		STUCK_TRANSACTION_MS
+	) {
+		return;
+	}
+	await fillNonceGaps(context, transaction.nonce);
+	if (replacedTransactionHashes.length < MAX_GAS_BUMPS) {
+		await bumpBundle(context, state);
+	}
+}
+
+/**
+ * Claims queued jobs, sends their operations in one `handleOps` transaction
+ * and follows it for up to `receiptWaitMs`. Resolves to false when nothing
+ * was queued.
+ */
+async function flushQueue(context: RefundJobContext, receiptWaitMs: number) {
+	const bundleId = crypto.randomUUID();
+	const claimed = await context.storage.claimQueuedRefundJobs(
+		bundleId,
+		MAX_BUNDLE_SIZE,
+		Date.now() - RESUME_AFTER_MS,
+	);
+	if (claimed.length === 0) {
+		return false;
+	}
+
+	const created = await createBundle(context, bundleId, claimed);
+	if (created) {
+		const submitted = await broadcastBundle(context, created);
+		if (submitted) {
+			await settleBundle(context, submitted, receiptWaitMs);
+		}
+	}
+	return true;
+}
+
+async function resumeBundle(context: RefundJobContext, bundle: RelayerBundle) {
+	const jobs: RefundJob[] = [];
+	for (const id of bundle.jobIds) {
+		const job = await context.storage.getRefundJob(id);
+		if (job) {
+			jobs.push(job);
+		}
+	}
+
+	const state =
+		bundle.status === "simulated"
+			? await broadcastBundle(context, { bundle, jobs })
+			: { bundle, jobs };
+	if (state) {
+		await settleBundle(context, state, 0);
+	}
+}
+
+/**
+ * Request entry point: waits `BUNDLE_WINDOW_MS` for other refunds to queue,
+ * then bundles everything no other request has claimed yet. Errors are logged
+ * and left for the cron trigger to retry.
+ */
+export async function flushRefundQueue(
+	env: Bindings,
+	chain: SupportedChain,
+	receiptWaitMs = RECEIPT_WAIT_MS,
+) {
+	await new Promise((resolve) => setTimeout(resolve, BUNDLE_WINDOW_MS));
+	try {
+		await flushQueue(createRefundJobContext(env, chain), receiptWaitMs);
+	} catch (error) {
+		console.error(`Relayer error on chain ${chain.chain.id}:`, error);
+	}
+}
+
+/**
+ * Cron entry point: advances every open bundle, which also re-sends stuck
+ * transactions, then bundles the refunds still queued, on every chain this
+ * worker serves.
+ */
+export async function resumeRelayer(env: Bindings, now = Date.now()) {
+	for (const chainId of Object.keys(CHAINS)) {
+		const chain = getSupportedChain(env, Number(chainId));
+		if (!chain) {
+			continue;
+		}
+
+		const context = createRefundJobContext(env, chain);
+		for (const bundle of await context.storage.listOpenRelayerBundles()) {
+			if (bundle.updatedAt > now - RESUME_AFTER_MS) {
+				continue;
+			}
+			try {
+				await resumeBundle(context, bundle);
+			} catch (error) {
+				console.error(`Relayer bundle ${bundle.id} error:`, error);
+			}
+		}
+
+		try {
+			let flushed = true;
+			while (flushed) {
+				flushed = await flushQueue(context, 0);
+			}
+		} catch (error) {
+			console.error(`Relayer error on chain ${chain.chain.id}:`, error);
+		}
+	}
+}
@@ -1,14 +1,27 @@
-import { jsxRenderer } from 'hono/jsx-renderer'
-import { Link, ViteClient } from 'vite-ssr-components/hono'
+import { jsxRenderer } from "hono/jsx-renderer";
+import { Link, ViteClient } from "vite-ssr-components/hono";
 
-export const renderer = jsxRenderer(({ children }) => {
-  return (
-    <html>
-      <head>
-        <ViteClient />
-        <Link href="/src/style.css" rel="stylesheet" />
-      </head>
-      <body>{children}</body>
-    </html>
-  )
-})
+declare module "hono" {
+	interface ContextRenderer {
+		(
+			content: string | Promise<string>,
+			props: { title: string },
+		): Response | Promise<Response>;
+	}
+}
+
+/** HTML shell of the admin dashboard's pages. */
+export const renderer = jsxRenderer(({ children, title }) => {
+	return (
+		<html lang="en">
+			<head>
+				<meta charset="utf-8" />
+				<meta name="viewport" content="width=device-width, initial-scale=1" />
+				<title>{title}</title>
+				<ViteClient />
+				<Link href="/src/style.css" rel="stylesheet" />
+			</head>
+			<body>{children}</body>
+		</html>
+	);
+});
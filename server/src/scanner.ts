@@ -0,0 +1,155 @@
+import type { Address } from "viem";
+import { CHAINS } from "../../shared";
+import {
+	getPublicClient,
+	getSupportedChain,
+	getWalletClient,
+} from "./clients";
+import { type BlockReader, createBlockReader, syncDeposits } from "./deposits";
+import { type AccountStorage, getStorage } from "./storage";
+import type { AccountSession, Bindings, SupportedChain } from "./types";
+import { normalizeAddress } from "./utils";
+
+// Accounts nobody has looked at for a day drop out of the scheduled scan until
+// their next request.
+const ACCOUNT_IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+// The cron trigger fires every minute, so older syncs mean missed runs.
+const SCANNER_STALE_MS = 3 * 60 * 1000;
+
+// Requests and the cron handler in one isolate share a running sync instead of
+// scanning the same blocks twice.
+const runningSyncs = new Map<string, Promise<void>>();
+
+/**
+ * Advances the account's persisted sync cursor; no-op without a session.
+ * `reader` is shared when several accounts are synced together, and
+ * `maxBlocks` caps the blocks scanned (see `syncDeposits`).
+ */
+export function syncAccountDeposits(
+	env: Bindings,
+	chain: SupportedChain,
+	address: Address,
+	{
+		reader = createBlockReader(getPublicClient(env, chain), chain),
+		maxBlocks,
+	}: { reader?: BlockReader; maxBlocks?: bigint } = {},
+) {
+	const key = `${chain.chain.id}:${normalizeAddress(address)}`;
+	const running = runningSyncs.get(key);
+	if (running) {
+		return running;
+	}
+
+	const sync = (async () => {
+		const storage = getStorage(env, chain.chain.id);
+		const session = await storage.getAccountSession(address);
+		if (!session) {
+			return;
+		}
+		await syncDeposits(
+			reader,
+			chain,
+			storage,
+			session,
+			getWalletClient(env, chain).account.address,
+			maxBlocks,
+		);
+	})().finally(() => runningSyncs.delete(key));
+	runningSyncs.set(key, sync);
+	return sync;
+}
+
+/**
+ * Scanner state of an account as reported to clients. `lagBlocks` is how far
+ * the persisted cursor trails the chain head.
+ */
+export async function getScannerStatus(
+	env: Bindings,
+	chain: SupportedChain,
+	session: AccountSession,
+	now = Date.now(),
+) {
+	const latestBlock = await getPublicClient(env, chain).getBlockNumber();
+	return toScannerStatus(session, latestBlock, now);
+}
+
+/**
+ * `getScannerStatus` against the head the last scheduled scan read, for callers
+ * that must not call the RPC. Before any scan that is the account's cursor.
+ */
+export async function getStoredScannerStatus(
+	storage: AccountStorage,
+	session: AccountSession,
+	now = Date.now(),
+) {
+	const head = await storage.getChainHead();
+	return toScannerStatus(
+		session,
+		head?.blockNumber ?? session.lastSyncedBlock ?? 0n,
+		now,
+	);
+}
+
+/** `getScannerStatus` against a chain head that was already read. */
+export const toScannerStatus = (
+	session: AccountSession,
+	latestBlock: bigint,
+	now = Date.now(),
+) => {
+	const active = (session.lastActiveAt ?? 0) >= now - ACCOUNT_IDLE_TTL_MS;
+	return {
+		active,
+		stale:
+			session.lastSyncedAt === undefined ||
+			session.lastSyncedAt < now - SCANNER_STALE_MS,
+		latestBlock: latestBlock.toString(),
+		lastSyncedBlock: session.lastSyncedBlock?.toString() ?? null,
+		lastSyncedAt: session.lastSyncedAt ?? null,
+		lagBlocks:
+			session.lastSyncedBlock === undefined
+				? null
+				: Number(latestBlock - session.lastSyncedBlock),
+	};
+};
+
+/**
+ * Cron entry point: syncs every account that was active within the idle TTL on
+ * every chain this worker serves. The chain's blocks are read once and matched
+ * against all of its accounts. One failing account does not stop the scan.
+ */
+export async function scanDeposits(env: Bindings, now = Date.now()) {
+	for (const chainId of Object.keys(CHAINS)) {
+		const chain = getSupportedChain(env, Number(chainId));
+		if (!chain) {
+			continue;
+		}
+
+		const storage = getStorage(env, chain.chain.id);
+		const accounts = await storage.listActiveAccounts(now - ACCOUNT_IDLE_TTL_MS);
+		if (!accounts.length) {
+			continue;
+		}
+		const reader = createBlockReader(getPublicClient(env, chain), chain);
+		// Event streams report their scanner status against this head.
+		try {
+			await storage.setChainHead({
+				blockNumber: await reader.getLatestBlock(),
+				seenAt: now,
+			});
+		} catch (error) {
+			console.error(`Chain head read error on chain ${chainId}:`, error);
+		}
+		for (const session of accounts) {
+			try {
+				await syncAccountDeposits(env, chain, session.accountAddress, {
+					reader,
+				});
+			} catch (error) {
+				console.error(
+					`Deposit scan error for ${session.accountAddress} on chain ${chainId}:`,
+					error,
+				);
+			}
+		}
+	}
+}
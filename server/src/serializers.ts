@@ -0,0 +1,78 @@
+import type { Hex } from "viem";
+import type { ApiDeposit, ApiRefund, ApiRefundJob } from "../../shared";
+import type { EntryPointError } from "./entryPointErrors";
+import type {
+	DepositRecord,
+	RefundIntent,
+	RefundJob,
+	RefundRecord,
+} from "./types";
+
+// JSON shapes shared by API responses and webhook payloads.
+
+/** Refunds of jobs that have no transaction yet serialize with a null hash. */
+export const serializeRefund = (
+	record: Omit<RefundRecord, "transactionHash"> & { transactionHash?: Hex },
+): ApiRefund => ({
+	depositTxHash: record.depositTxHash,
+	depositLogIndex: record.depositLogIndex,
+	token: record.token,
+	amount: record.amount.toString(),
+	recipient: record.recipient,
+	reason: record.reason ?? null,
+	userOpHash: record.userOpHash,
+	signature: record.signature,
+	transactionHash: record.transactionHash ?? null,
+	createdAt: record.createdAt,
+});
+
+const serializeIntent = (intent: RefundIntent) => ({
+	depositTxHash: intent.depositTxHash,
+	depositLogIndex: intent.depositLogIndex,
+	token: intent.token,
+	amount: intent.amount.toString(),
+	recipient: intent.recipient,
+	reason: intent.reason ?? null,
+});
+
+export const serializeRefundJob = (job: RefundJob): ApiRefundJob => ({
+	id: job.id,
+	account: job.account,
+	idempotencyKey: job.idempotencyKey ?? null,
+	status: job.status,
+	userOpHash: job.userOpHash,
+	intents: job.intents.map(serializeIntent),
+	bundleId: job.bundleId ?? null,
+	transactionHash: job.transaction?.hash ?? null,
+	maxFeePerGas: job.transaction?.maxFeePerGas.toString() ?? null,
+	replacedTransactionHashes: job.replacedTransactionHashes,
+	error: job.error ?? null,
+	errorCode: job.errorCode ?? null,
+	createdAt: job.createdAt,
+	updatedAt: job.updatedAt,
+});
+
+/** Error response body; `error` is the human-readable message. */
+export const serializeEntryPointError = (error: EntryPointError) => ({
+	error: error.message,
+	code: error.code,
+	aaCode: error.aaCode ?? null,
+	reason: error.reason ?? null,
+});
+
+export const serializeDeposit = (record: DepositRecord): ApiDeposit => ({
+	token: record.token,
+	sender: record.sender,
+	amount: record.amount.toString(),
+	txHash: record.txHash,
+	logIndex: record.logIndex,
+	blockNumber: record.blockNumber.toString(),
+	blockHash: record.blockHash ?? null,
+	blockTimestamp: record.blockTimestamp,
+	confirmations: record.confirmations,
+	pending: record.pending,
+	ready: record.ready,
+	refundedAmount: record.refundedAmount.toString(),
+	refunded: record.refunded,
+	refundTxHash: record.refundTxHash ?? null,
+});
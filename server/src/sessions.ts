@@ -0,0 +1,84 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import {
+	type Address,
+	type Hex,
+	bytesToHex,
+	sha256,
+	stringToBytes,
+} from "viem";
+import type { ApiSession } from "../../shared";
+import { type AccountStorage, getStorage } from "./storage";
+import type { AppEnv, AuthSession } from "./types";
+import { normalizeAddress } from "./utils";
+
+export const SESSION_TTL_MS = 15 * 60 * 1000;
+
+const hashSessionToken = (token: string): Hex => sha256(stringToBytes(token));
+
+/**
+ * Bearer token of the request. `EventSource` cannot set headers, so the event
+ * stream also accepts it as the `token` query parameter.
+ */
+const getSessionToken = (c: Context) =>
+	c.req.header("Authorization")?.match(/^Bearer (\S+)$/)?.[1] ??
+	c.req.query("token");
+
+/** Starts a session for the account; only the token's hash is stored. */
+export const issueSession = async (
+	storage: AccountStorage,
+	account: Address,
+	credentialId: string,
+	now = Date.now(),
+): Promise<ApiSession> => {
+	const token = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+	const expiresAt = now + SESSION_TTL_MS;
+	await storage.saveAuthSession({
+		tokenHash: hashSessionToken(token),
+		account,
+		credentialId,
+		expiresAt,
+		createdAt: now,
+	});
+	return { token, expiresAt };
+};
+
+/** Deletes the session, resolving to it if it had not expired yet. */
+export const endSession = (storage: AccountStorage, session: AuthSession) =>
+	storage.consumeAuthSession(session.tokenHash, Date.now());
+
+export const isSessionAccount = (session: AuthSession, account: Address) =>
+	normalizeAddress(session.account) === normalizeAddress(account);
+
+/** Unexpired session of the request's token, if it sent one. */
+export const findSession = async <E extends AppEnv>(c: Context<E>) => {
+	const token = getSessionToken(c);
+	return token
+		? getStorage(c.env, c.get("chain").chain.id).getAuthSession(
+				hashSessionToken(token),
+				Date.now(),
+			)
+		: undefined;
+};
+
+/**
+ * Answers 401 unless the request carries an unexpired session token, and 403
+ * when the route's `:address` is another account. Handlers read the session
+ * with `c.get("session")`.
+ */
+export const requireSession = createMiddleware<
+	AppEnv & { Variables: { session: AuthSession } }
+>(async (c, next) => {
+	const session = await findSession(c);
+	if (!session) {
+		return c.json({ error: "Session expired or missing" }, 401);
+	}
+
+	const address = c.req.param("address");
+	if (address && !isSessionAccount(session, address as Address)) {
+		return c.json({ error: "Session does not belong to this account" }, 403);
+	}
+
+	c.set("session", session);
+	await next();
+});
@@ -0,0 +1,308 @@
+import type { Address, Hex } from "viem";
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "vitest";
+import { getPlatformProxy, unstable_splitSqlQuery } from "wrangler";
+import {
+	type AccountStorage,
+	createD1Storage,
+	createMemoryStorage,
+} from "./storage";
+import type { DepositRecord, RefundJob, RefundRecord } from "./types";
+
+const account: Address = "0x1111111111111111111111111111111111111111";
+const sender: Address = "0x2222222222222222222222222222222222222222";
+const token: Address = "0x3333333333333333333333333333333333333333";
+
+const hash = (byte: string): Hex => `0x${byte.repeat(32)}`;
+
+const deposit = (txHash: Hex, amount = 100n): DepositRecord => ({
+	token,
+	sender,
+	amount,
+	txHash,
+	logIndex: 0,
+	blockNumber: 10n,
+	blockHash: hash("0b"),
+	blockTimestamp: 1_700_000_000,
+	confirmations: 3,
+	pending: false,
+	ready: true,
+	refundedAmount: 0n,
+	refunded: false,
+});
+
+const refund = (
+	depositTxHash: Hex,
+	amount: bigint,
+	transactionHash: Hex,
+): RefundRecord => ({
+	depositTxHash,
+	depositLogIndex: 0,
+	token,
+	amount,
+	recipient: sender,
+	userOpHash: hash("0c"),
+	signature: "0x",
+	transactionHash,
+	createdAt: Date.now(),
+});
+
+// Job ids are unique across chains, so each test prefixes its own.
+let testId = "";
+const jobId = (name: string) => `${testId}:${name}`;
+
+const job = (
+	name: string,
+	depositTxHashes: Hex[],
+	idempotencyKey?: string,
+): RefundJob => ({
+	id: jobId(name),
+	account,
+	idempotencyKey,
+	requestHash: hash("0d"),
+	status: "queued",
+	userOpHash: hash("0e"),
+	userOp: {
+		sender: account,
+		nonce: 0n,
+		initCode: "0x",
+		callData: "0x",
+		accountGasLimits: hash("00"),
+		preVerificationGas: 0n,
+		gasFees: hash("00"),
+		paymasterAndData: "0x",
+		signature: "0x",
+	},
+	intents: depositTxHashes.map((depositTxHash) => ({
+		depositTxHash,
+		depositLogIndex: 0,
+		token,
+		amount: 10n,
+		recipient: sender,
+	})),
+	replacedTransactionHashes: [],
+	createdAt: Date.now(),
+	updatedAt: Date.now(),
+});
+
+const migrations = import.meta.glob<string>("../migrations/*.sql", {
+	query: "?raw",
+	import: "default",
+	eager: true,
+});
+
+let platform: Awaited<ReturnType<typeof getPlatformProxy>> | undefined;
+// Each D1 test gets its own chain id, so tests share no rows.
+let nextChainId = 1;
+
+const createTestD1Storage = async () => {
+	if (!platform) {
+		platform = await getPlatformProxy({
+			configPath: "wrangler.test.jsonc",
+			persist: false,
+		});
+		const db = (platform.env as { DB: D1Database }).DB;
+		for (const path of Object.keys(migrations).sort()) {
+			await db.batch(
+				unstable_splitSqlQuery(migrations[path]).map((statement) =>
+					db.prepare(statement),
+				),
+			);
+		}
+	}
+	return createD1Storage(
+		(platform.env as { DB: D1Database }).DB,
+		nextChainId++,
+	);
+};
+
+describe.each([
+	["memory", async () => createMemoryStorage()],
+	["D1", createTestD1Storage],
+] as const)("%s storage", (_, createStorage) => {
+	let storage: AccountStorage;
+
+	beforeAll(async () => {
+		// Starting Miniflare takes a few seconds.
+		await createStorage();
+	}, 30_000);
+
+	beforeEach(async () => {
+		storage = await createStorage();
+		testId = crypto.randomUUID();
+		// Deposits belong to a registered account.
+		await storage.upsertAccountSession(account, testId, {
+			x: hash("0f"),
+			y: hash("0f"),
+		});
+	});
+
+	afterAll(async () => {
+		await platform?.dispose();
+		platform = undefined;
+	});
+
+	describe("recordDeposit", () => {
+		it("records each deposit once", async () => {
+			expect(await storage.recordDeposit(account, deposit(hash("01")))).toBe(
+				true,
+			);
+			expect(await storage.recordDeposit(account, deposit(hash("01")))).toBe(
+				false,
+			);
+			expect(await storage.recordDeposit(account, deposit(hash("02")))).toBe(
+				true,
+			);
+
+			const { deposits } = await storage.listDeposits(account);
+			expect(deposits.map((entry) => entry.txHash)).toEqual([
+				hash("02"),
+				hash("01"),
+			]);
+			expect(await storage.getDeposit(account, hash("01"), 0)).toMatchObject({
+				amount: 100n,
+				blockNumber: 10n,
+				ready: true,
+			});
+		});
+	});
+
+	describe("recordRefunds", () => {
+		it("adds refunds to their deposits until nothing is left", async () => {
+			await storage.recordDeposit(account, deposit(hash("01")));
+			await storage.recordDeposit(account, deposit(hash("02")));
+
+			await storage.recordRefunds(account, [
+				refund(hash("01"), 30n, hash("a1")),
+				refund(hash("01"), 20n, hash("a1")),
+			]);
+			expect(await storage.getDeposit(account, hash("01"), 0)).toMatchObject({
+				refundedAmount: 50n,
+				refunded: false,
+				refundTxHash: hash("a1"),
+			});
+
+			await storage.recordRefunds(account, [
+				refund(hash("01"), 50n, hash("a2")),
+				refund(hash("02"), 100n, hash("a2")),
+			]);
+			for (const txHash of [hash("01"), hash("02")]) {
+				expect(await storage.getDeposit(account, txHash, 0)).toMatchObject({
+					refundedAmount: 100n,
+					refunded: true,
+					refundTxHash: hash("a2"),
+				});
+			}
+			expect(
+				(await storage.listRefunds(account)).map((entry) => entry.amount),
+			).toEqual([100n, 50n, 20n, 30n]);
+			expect(
+				(await storage.listDeposits(account, { status: "refunded" })).deposits,
+			).toHaveLength(2);
+		});
+	});
+
+	describe("createRefundJob", () => {
+		it("locks the job's deposits until it is confirmed or failed", async () => {
+			expect(
+				await storage.createRefundJob(job("a", [hash("01"), hash("01")])),
+			).toBe(true);
+			expect(
+				await storage.createRefundJob(job("b", [hash("02"), hash("01")])),
+			).toBe(false);
+			expect(await storage.getRefundJob(jobId("b"))).toBeUndefined();
+			expect(await storage.createRefundJob(job("c", [hash("02")]))).toBe(true);
+
+			const locked = await storage.getRefundJob(jobId("a"));
+			if (!locked) {
+				throw new Error("Job a was not stored");
+			}
+			await storage.saveRefundJob({ ...locked, status: "submitted" });
+			expect(await storage.createRefundJob(job("d", [hash("01")]))).toBe(
+				false,
+			);
+
+			await storage.saveRefundJob({ ...locked, status: "failed" });
+			expect(await storage.createRefundJob(job("e", [hash("01")]))).toBe(true);
+		});
+
+		it("counts jobs against the daily spend until they fail", async () => {
+			const day = new Date().toISOString().slice(0, 10);
+			await storage.createRefundJob(job("a", [hash("01"), hash("01")]));
+			await storage.createRefundJob(job("b", [hash("02")]));
+			expect(await storage.getDailySpend(account, day)).toEqual({
+				[token]: 30n,
+			});
+
+			const confirmed = await storage.getRefundJob(jobId("a"));
+			const failed = await storage.getRefundJob(jobId("b"));
+			if (!confirmed || !failed) {
+				throw new Error("Jobs were not stored");
+			}
+			await storage.saveRefundJob({ ...confirmed, status: "confirmed" });
+			await storage.saveRefundJob({ ...failed, status: "failed" });
+			expect(await storage.getDailySpend(account, day)).toEqual({
+				[token]: 20n,
+			});
+			expect(await storage.getDailySpend(account, "2000-01-01")).toEqual({});
+		});
+
+		it("refuses a second job with the same idempotency key", async () => {
+			expect(
+				await storage.createRefundJob(job("a", [hash("01")], "key")),
+			).toBe(true);
+			expect(
+				await storage.createRefundJob(job("b", [hash("02")], "key")),
+			).toBe(false);
+			expect(
+				(await storage.getRefundJobByIdempotencyKey(account, "key"))?.id,
+			).toBe(jobId("a"));
+			// The refused job took no locks.
+			expect(await storage.createRefundJob(job("c", [hash("02")]))).toBe(true);
+		});
+	});
+
+	describe("logAccountEvent", () => {
+		const event = (id: string, createdAt = Date.now()) => ({
+			id,
+			type: "deposit.detected" as const,
+			account,
+			payload: JSON.stringify({ id }),
+			createdAt,
+		});
+
+		it("lists the account's events after a sequence in order", async () => {
+			const start = await storage.getLastAccountEventSequence();
+			await storage.logAccountEvent(event("a"));
+			await storage.logAccountEvent({ ...event("b"), account: sender });
+			await storage.logAccountEvent(event("c"));
+
+			const events = await storage.listAccountEvents(account, start, 10);
+			expect(events.map((entry) => entry.id)).toEqual(["a", "c"]);
+			expect(
+				await storage.listAccountEvents(account, events[0].sequence, 10),
+			).toEqual([events[1]]);
+			expect(await storage.getLastAccountEventSequence()).toBe(
+				events[1].sequence,
+			);
+		});
+
+		it("drops events older than an hour", async () => {
+			const start = await storage.getLastAccountEventSequence();
+			await storage.logAccountEvent(event("a", Date.now() - 2 * 60 * 60_000));
+			await storage.logAccountEvent(event("b"));
+
+			expect(
+				(await storage.listAccountEvents(account, start, 10)).map(
+					(entry) => entry.id,
+				),
+			).toEqual(["b"]);
+		});
+	});
+});
@@ -0,0 +1,2027 @@
+import type { Address, Hex } from "viem";
+import type { PackedUserOperation } from "viem/account-abstraction";
+import type { AccountEventType } from "../../shared";
+import type {
+	AccountEventRecord,
+	AccountSession,
+	AuthSession,
+	Bindings,
+	ChainHead,
+	DepositPage,
+	DepositQuery,
+	DepositBackfill,
+	DepositRecord,
+	DepositStatus,
+	RefundIntent,
+	RefundJob,
+	RefundJobStatus,
+	RefundRecord,
+	RelayerBundle,
+	RelayerBundleStatus,
+	RelayerTransaction,
+	SponsorshipReservation,
+	UserOperationRecord,
+	WebAuthnPublicKey,
+	WebhookDelivery,
+	WebhookEventType,
+	WebhookSubscription,
+} from "./types";
+import type { EntryPointErrorCode } from "./entryPointErrors";
+import { getUtcDay, normalizeAddress } from "./utils";
+
+export const MAX_WEBHOOK_DELIVERIES = 100;
+// Streams only read events raised while they are open, so the log stays short.
+const ACCOUNT_EVENT_TTL_MS = 60 * 60 * 1000;
+
+export type AccountStorage = {
+	getAccountSession(address: Address): Promise<AccountSession | undefined>;
+	getAccountSessionByCredential(
+		credentialId: string,
+	): Promise<AccountSession | undefined>;
+	/** Undefined when the credential already belongs to another account. */
+	upsertAccountSession(
+		address: Address,
+		credentialId: string,
+		publicKey: WebAuthnPublicKey,
+	): Promise<AccountSession | undefined>;
+	setLastSyncedBlock(
+		address: Address,
+		blockNumber: bigint,
+		syncedAt: number,
+	): Promise<void>;
+	/** Unsets the backfill when passed `undefined`. */
+	setDepositBackfill(
+		address: Address,
+		backfill: DepositBackfill | undefined,
+	): Promise<void>;
+	touchAccount(address: Address, activeAt: number): Promise<void>;
+	/** Accounts whose owner used the API at or after `since`. */
+	listActiveAccounts(since: number): Promise<AccountSession[]>;
+	/** Up to `limit` accounts, most recently active first. */
+	listAccounts(limit: number): Promise<AccountSession[]>;
+	listDeposits(address: Address, query?: DepositQuery): Promise<DepositPage>;
+	getDeposit(
+		address: Address,
+		txHash: Hex,
+		logIndex: number,
+	): Promise<DepositRecord | undefined>;
+	/** Resolves to false when the deposit was already recorded. */
+	recordDeposit(address: Address, record: DepositRecord): Promise<boolean>;
+	/** Stores the deposit's `confirmations`, `pending` and `ready` flags. */
+	updateDepositConfirmations(
+		address: Address,
+		record: DepositRecord,
+	): Promise<void>;
+	/** Forgets a deposit whose block was reorged out. */
+	removeDeposit(address: Address, txHash: Hex, logIndex: number): Promise<void>;
+	/**
+	 * Stores the refunds and adds them to their deposits' refunded amounts,
+	 * all or none.
+	 */
+	recordRefunds(address: Address, refunds: RefundRecord[]): Promise<void>;
+	/** Refunds of the account's deposits, newest first. */
+	listRefunds(address: Address): Promise<RefundRecord[]>;
+	/**
+	 * Stores a new job, locks the deposits it refunds and adds its intents to
+	 * the account's spend on the job's day. Resolves to false, storing nothing,
+	 * when an open job holds one of those deposits or already uses the
+	 * idempotency key.
+	 */
+	createRefundJob(job: RefundJob): Promise<boolean>;
+	/**
+	 * Updates the job; confirmed and failed jobs release their deposit locks,
+	 * and failed ones also take their intents off the daily spend.
+	 */
+	saveRefundJob(job: RefundJob): Promise<void>;
+	getRefundJob(id: string): Promise<RefundJob | undefined>;
+	/** Jobs of the account, newest first. */
+	listRefundJobs(address: Address): Promise<RefundJob[]>;
+	getRefundJobByIdempotencyKey(
+		address: Address,
+		idempotencyKey: string,
+	): Promise<RefundJob | undefined>;
+	/**
+	 * Assigns up to `limit` queued jobs, oldest first, to the bundle and returns
+	 * them. Jobs another bundle claimed are skipped unless last updated at or
+	 * before `staleBefore`.
+	 */
+	claimQueuedRefundJobs(
+		bundleId: string,
+		limit: number,
+		staleBefore: number,
+	): Promise<RefundJob[]>;
+	/** Inserts or replaces the bundle with the same id. */
+	saveRelayerBundle(bundle: RelayerBundle): Promise<void>;
+	/** Bundles that are neither confirmed nor failed, oldest first. */
+	listOpenRelayerBundles(): Promise<RelayerBundle[]>;
+	/** Up to `limit` bundles, newest first. */
+	listRelayerBundles(limit: number): Promise<RelayerBundle[]>;
+	/**
+	 * Hands out the relayer's next nonce: the lowest released one from
+	 * `pendingNonce`, the chain's pending transaction count, on; otherwise one
+	 * past the last one handed out, or `pendingNonce` if that is higher.
+	 */
+	reserveRelayerNonce(address: Address, pendingNonce: number): Promise<number>;
+	/** Returns a nonce whose transaction was never sent, for reuse. */
+	releaseRelayerNonce(address: Address, nonce: number): Promise<void>;
+	/**
+	 * Amounts spent on `day` (UTC `YYYY-MM-DD`) by refund jobs that have not
+	 * failed, keyed by lower-cased token.
+	 */
+	getDailySpend(address: Address, day: string): Promise<Record<string, bigint>>;
+	/** Maximum gas cost, in wei, the paymaster has sponsored for the account. */
+	getSponsoredSpend(address: Address): Promise<bigint>;
+	listSponsorshipReservations(
+		address: Address,
+	): Promise<SponsorshipReservation[]>;
+	/** Keeps the larger cost and later expiry when the nonce has one already. */
+	reserveSponsorship(reservation: SponsorshipReservation): Promise<void>;
+	/**
+	 * Drops the nonce's reservation, adding its cost to the sponsored spend
+	 * when an op used it. Does nothing without a reservation.
+	 */
+	settleSponsorship(
+		address: Address,
+		nonce: bigint,
+		used: boolean,
+	): Promise<void>;
+	saveUserOperation(record: UserOperationRecord): Promise<void>;
+	getUserOperation(userOpHash: Hex): Promise<UserOperationRecord | undefined>;
+	saveWebhookSubscription(subscription: WebhookSubscription): Promise<void>;
+	listWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+	/** Resolves to false when no subscription has the id. */
+	deleteWebhookSubscription(id: string): Promise<boolean>;
+	/** Inserts or replaces the delivery with the same id. */
+	saveWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+	/** Latest deliveries of the subscription, newest first. */
+	listWebhookDeliveries(subscriptionId: string): Promise<WebhookDelivery[]>;
+	/** Pending deliveries whose next attempt is due, oldest due first. */
+	listDueWebhookDeliveries(
+		now: number,
+		limit: number,
+	): Promise<WebhookDelivery[]>;
+	/**
+	 * Stores the event under the next sequence number and drops events older
+	 * than an hour.
+	 */
+	logAccountEvent(event: Omit<AccountEventRecord, "sequence">): Promise<void>;
+	/** Up to `limit` events of the account after `afterSequence`, oldest first. */
+	listAccountEvents(
+		address: Address,
+		afterSequence: number,
+		limit: number,
+	): Promise<AccountEventRecord[]>;
+	/** Sequence of the last event logged, or 0 before any. */
+	getLastAccountEventSequence(): Promise<number>;
+	getChainHead(): Promise<ChainHead | undefined>;
+	setChainHead(head: ChainHead): Promise<void>;
+	saveLoginChallenge(challenge: Hex, expiresAt: number): Promise<void>;
+	/** Deletes the challenge and reports whether it was issued and unexpired. */
+	consumeLoginChallenge(challenge: Hex, now: number): Promise<boolean>;
+	/** Also drops sessions that have expired by `session.createdAt`. */
+	saveAuthSession(session: AuthSession): Promise<void>;
+	/** The session for the token hash, unless it has expired. */
+	getAuthSession(tokenHash: Hex, now: number): Promise<AuthSession | undefined>;
+	/** Deletes the session, resolving to it if it had not expired. */
+	consumeAuthSession(
+		tokenHash: Hex,
+		now: number,
+	): Promise<AuthSession | undefined>;
+	/**
+	 * Counts a hit on `key` in the window starting at `windowStart` unless it
+	 * already has `limit` hits there; resolves to whether it was counted.
+	 */
+	hitRateLimit(
+		key: string,
+		windowStart: number,
+		limit: number,
+	): Promise<boolean>;
+};
+
+const matchesStatus = (deposit: DepositRecord, status: DepositStatus) => {
+	switch (status) {
+		case "pending":
+			return deposit.pending;
+		case "ready":
+			return deposit.ready && !deposit.refunded;
+		case "refunded":
+			return deposit.refunded;
+	}
+};
+
+const OPEN_REFUND_JOB_STATUSES: RefundJobStatus[] = [
+	"queued",
+	"simulated",
+	"submitted",
+	"replaced",
+];
+
+export const isOpenRefundJob = (job: RefundJob) =>
+	OPEN_REFUND_JOB_STATUSES.includes(job.status);
+
+const OPEN_RELAYER_BUNDLE_STATUSES: RelayerBundleStatus[] = [
+	"simulated",
+	"submitted",
+	"replaced",
+];
+
+const getRefundLockKey = (address: Address, txHash: Hex, logIndex: number) =>
+	`${normalizeAddress(address)}:${txHash}:${logIndex}`;
+
+/** The job's intents summed per lower-cased token. */
+const getRefundJobSpend = (job: RefundJob) => {
+	const totals = new Map<string, bigint>();
+	for (const intent of job.intents) {
+		const token = normalizeAddress(intent.token);
+		totals.set(token, (totals.get(token) ?? 0n) + intent.amount);
+	}
+	return totals;
+};
+
+const copyRefundJob = (job: RefundJob): RefundJob => ({
+	...job,
+	intents: job.intents.map((intent) => ({ ...intent })),
+	transaction: job.transaction && { ...job.transaction },
+	replacedTransactionHashes: [...job.replacedTransactionHashes],
+});
+
+const copyRelayerBundle = (bundle: RelayerBundle): RelayerBundle => ({
+	...bundle,
+	jobIds: [...bundle.jobIds],
+	transaction: { ...bundle.transaction },
+	replacedTransactionHashes: [...bundle.replacedTransactionHashes],
+});
+
+const applyRefund = (deposit: DepositRecord, refund: RefundRecord) => {
+	deposit.refundedAmount += refund.amount;
+	deposit.refunded = deposit.refundedAmount >= deposit.amount;
+	deposit.refundTxHash = refund.transactionHash;
+};
+
+/**
+ * Volatile backend used for tests and local runs without a D1 binding.
+ * Records only live as long as the isolate that created them.
+ */
+export const createMemoryStorage = (): AccountStorage => {
+	const sessions = new Map<string, AccountSession>();
+	// Ids only order deposits and back the page cursor.
+	const deposits = new Map<string, (DepositRecord & { id: number })[]>();
+	let lastDepositId = 0;
+	const refunds = new Map<string, RefundRecord[]>();
+	const refundJobs = new Map<string, RefundJob>();
+	// Lock key to the id of the open job refunding that deposit.
+	const refundLocks = new Map<string, string>();
+	const relayerBundles = new Map<string, RelayerBundle>();
+	const relayerNonces = new Map<string, number>();
+	const releasedRelayerNonces = new Map<string, Set<number>>();
+	const loginChallenges = new Map<Hex, number>();
+	const authSessions = new Map<Hex, AuthSession>();
+	const rateLimits = new Map<string, { windowStart: number; hits: number }>();
+	// Job id to the job's spend, counted against its account's day.
+	const refundSpend = new Map<
+		string,
+		{ key: string; totals: Map<string, bigint> }
+	>();
+	const userOperations = new Map<Hex, UserOperationRecord>();
+	const sponsoredSpend = new Map<string, bigint>();
+	const sponsorshipReservations = new Map<string, SponsorshipReservation>();
+	const webhookSubscriptions = new Map<string, WebhookSubscription>();
+	const webhookDeliveries = new Map<string, WebhookDelivery>();
+	const accountEvents: AccountEventRecord[] = [];
+	let lastAccountEventSequence = 0;
+	let chainHead: ChainHead | undefined;
+
+	return {
+		async getAccountSession(address) {
+			const session = sessions.get(normalizeAddress(address));
+			return session ? { ...session } : undefined;
+		},
+
+		async getAccountSessionByCredential(credentialId) {
+			for (const session of sessions.values()) {
+				if (session.credentialId === credentialId) {
+					return { ...session };
+				}
+			}
+			return undefined;
+		},
+
+		async upsertAccountSession(address, credentialId, publicKey) {
+			const key = normalizeAddress(address);
+			for (const [other, session] of sessions) {
+				if (other !== key && session.credentialId === credentialId) {
+					return undefined;
+				}
+			}
+			const session: AccountSession = {
+				...sessions.get(key),
+				credentialId,
+				accountAddress: address,
+				publicKey,
+			};
+			sessions.set(key, session);
+			return { ...session };
+		},
+
+		async setLastSyncedBlock(address, blockNumber, syncedAt) {
+			const session = sessions.get(normalizeAddress(address));
+			if (session) {
+				session.lastSyncedBlock = blockNumber;
+				session.lastSyncedAt = syncedAt;
+			}
+		},
+
+		async setDepositBackfill(address, backfill) {
+			const session = sessions.get(normalizeAddress(address));
+			if (session) {
+				session.backfill = backfill && { ...backfill };
+			}
+		},
+
+		async touchAccount(address, activeAt) {
+			const session = sessions.get(normalizeAddress(address));
+			if (session) {
+				session.lastActiveAt = activeAt;
+			}
+		},
+
+		async listActiveAccounts(since) {
+			return [...sessions.values()]
+				.filter((session) => (session.lastActiveAt ?? 0) >= since)
+				.map((session) => ({ ...session }));
+		},
+
+		async listAccounts(limit) {
+			return [...sessions.values()]
+				.sort((a, b) => (b.lastActiveAt ?? 0) - (a.lastActiveAt ?? 0))
+				.slice(0, limit)
+				.map((session) => ({ ...session }));
+		},
+
+		async listDeposits(address, query = {}) {
+			const { status, sender, from, to, cursor, limit } = query;
+			const matches = (deposits.get(normalizeAddress(address)) ?? []).filter(
+				(entry) =>
+					(!status || matchesStatus(entry, status)) &&
+					(!sender ||
+						normalizeAddress(entry.sender) === normalizeAddress(sender)) &&
+					(from === undefined || entry.blockTimestamp >= from) &&
+					(to === undefined || entry.blockTimestamp <= to) &&
+					(cursor === undefined || entry.id < Number(cursor)),
+			);
+			const page = limit === undefined ? matches : matches.slice(0, limit);
+			return {
+				deposits: page.map(({ id: _id, ...record }) => record),
+				nextCursor:
+					page.length < matches.length
+						? `${page[page.length - 1].id}`
+						: undefined,
+			};
+		},
+
+		async getDeposit(address, txHash, logIndex) {
+			const entry = deposits
+				.get(normalizeAddress(address))
+				?.find(
+					(deposit) =>
+						deposit.txHash === txHash && deposit.logIndex === logIndex,
+				);
+			if (!entry) {
+				return undefined;
+			}
+			const { id: _id, ...record } = entry;
+			return record;
+		},
+
+		async recordDeposit(address, record) {
+			const key = normalizeAddress(address);
+			const existing = deposits.get(key) ?? [];
+			const duplicate = existing.some(
+				(entry) =>
+					entry.txHash === record.txHash && entry.logIndex === record.logIndex,
+			);
+
+			if (!duplicate) {
+				existing.unshift({ ...record, id: ++lastDepositId });
+			}
+			deposits.set(key, existing);
+			return !duplicate;
+		},
+
+		async updateDepositConfirmations(address, record) {
+			const deposit = deposits
+				.get(normalizeAddress(address))
+				?.find(
+					(entry) =>
+						entry.txHash === record.txHash && entry.logIndex === record.logIndex,
+				);
+			if (deposit) {
+				deposit.confirmations = record.confirmations;
+				deposit.pending = record.pending;
+				deposit.ready = record.ready;
+			}
+		},
+
+		async removeDeposit(address, txHash, logIndex) {
+			const key = normalizeAddress(address);
+			deposits.set(
+				key,
+				(deposits.get(key) ?? []).filter(
+					(entry) => entry.txHash !== txHash || entry.logIndex !== logIndex,
+				),
+			);
+		},
+
+		async recordRefunds(address, records) {
+			const key = normalizeAddress(address);
+			for (const refund of records) {
+				const deposit = deposits
+					.get(key)
+					?.find(
+						(entry) =>
+							entry.txHash === refund.depositTxHash &&
+							entry.logIndex === refund.depositLogIndex,
+					);
+				if (deposit) {
+					applyRefund(deposit, refund);
+				}
+			}
+			refunds.set(key, [
+				...records.map((refund) => ({ ...refund })).reverse(),
+				...(refunds.get(key) ?? []),
+			]);
+		},
+
+		async listRefunds(address) {
+			return (refunds.get(normalizeAddress(address)) ?? []).map((refund) => ({
+				...refund,
+			}));
+		},
+
+		async createRefundJob(job) {
+			const lockKeys = job.intents.map((intent) =>
+				getRefundLockKey(job.account, intent.depositTxHash, intent.depositLogIndex),
+			);
+			const keyTaken =
+				job.idempotencyKey !== undefined &&
+				[...refundJobs.values()].some(
+					(entry) =>
+						normalizeAddress(entry.account) === normalizeAddress(job.account) &&
+						entry.idempotencyKey === job.idempotencyKey,
+				);
+			if (keyTaken || lockKeys.some((key) => refundLocks.has(key))) {
+				return false;
+			}
+			refundJobs.set(job.id, copyRefundJob(job));
+			for (const key of lockKeys) {
+				refundLocks.set(key, job.id);
+			}
+			refundSpend.set(job.id, {
+				key: `${normalizeAddress(job.account)}:${getUtcDay(job.createdAt)}`,
+				totals: getRefundJobSpend(job),
+			});
+			return true;
+		},
+
+		async saveRefundJob(job) {
+			refundJobs.set(job.id, copyRefundJob(job));
+			if (job.status === "failed") {
+				refundSpend.delete(job.id);
+			}
+			if (!isOpenRefundJob(job)) {
+				for (const [key, jobId] of refundLocks) {
+					if (jobId === job.id) {
+						refundLocks.delete(key);
+					}
+				}
+			}
+		},
+
+		async getRefundJob(id) {
+			const job = refundJobs.get(id);
+			return job ? copyRefundJob(job) : undefined;
+		},
+
+		async listRefundJobs(address) {
+			return [...refundJobs.values()]
+				.filter(
+					(job) =>
+						normalizeAddress(job.account) === normalizeAddress(address),
+				)
+				.sort((a, b) => b.createdAt - a.createdAt)
+				.map(copyRefundJob);
+		},
+
+		async getRefundJobByIdempotencyKey(address, idempotencyKey) {
+			for (const job of refundJobs.values()) {
+				if (
+					normalizeAddress(job.account) === normalizeAddress(address) &&
+					job.idempotencyKey === idempotencyKey
+				) {
+					return copyRefundJob(job);
+				}
+			}
+			return undefined;
+		},
+
+		async claimQueuedRefundJobs(bundleId, limit, staleBefore) {
+			const now = Date.now();
+			const claimed = [...refundJobs.values()]
+				.filter(
+					(job) =>
+						job.status === "queued" &&
+						(job.bundleId === undefined || job.updatedAt <= staleBefore),
+				)
+				.sort((a, b) => a.createdAt - b.createdAt)
+				.slice(0, limit);
+			for (const job of claimed) {
+				job.bundleId = bundleId;
+				job.updatedAt = now;
+			}
+			return claimed.map(copyRefundJob);
+		},
+
+		async saveRelayerBundle(bundle) {
+			relayerBundles.set(bundle.id, copyRelayerBundle(bundle));
+		},
+
+		async listOpenRelayerBundles() {
+			return [...relayerBundles.values()]
+				.filter((bundle) =>
+					OPEN_RELAYER_BUNDLE_STATUSES.includes(bundle.status),
+				)
+				.sort((a, b) => a.createdAt - b.createdAt)
+				.map(copyRelayerBundle);
+		},
+
+		async listRelayerBundles(limit) {
+			return [...relayerBundles.values()]
+				.sort((a, b) => b.createdAt - a.createdAt)
+				.slice(0, limit)
+				.map(copyRelayerBundle);
+		},
+
+		async reserveRelayerNonce(address, pendingNonce) {
+			const key = normalizeAddress(address);
+			const released = [...(releasedRelayerNonces.get(key) ?? [])]
+				.filter((nonce) => nonce >= pendingNonce)
+				.sort((a, b) => a - b);
+			if (released.length > 0) {
+				releasedRelayerNonces.set(key, new Set(released.slice(1)));
+				return released[0];
+			}
+			releasedRelayerNonces.delete(key);
+
+			const nonce = Math.max(relayerNonces.get(key) ?? 0, pendingNonce);
+			relayerNonces.set(key, nonce + 1);
+			return nonce;
+		},
+
+		async releaseRelayerNonce(address, nonce) {
+			const key = normalizeAddress(address);
+			const released = releasedRelayerNonces.get(key) ?? new Set();
+			releasedRelayerNonces.set(key, released.add(nonce));
+		},
+
+		async getDailySpend(address, day) {
+			const key = `${normalizeAddress(address)}:${day}`;
+			const totals: Record<string, bigint> = {};
+			for (const spend of refundSpend.values()) {
+				if (spend.key !== key) {
+					continue;
+				}
+				for (const [token, amount] of spend.totals) {
+					totals[token] = (totals[token] ?? 0n) + amount;
+				}
+			}
+			return totals;
+		},
+
+		async getSponsoredSpend(address) {
+			return sponsoredSpend.get(normalizeAddress(address)) ?? 0n;
+		},
+
+		async listSponsorshipReservations(address) {
+			const account = normalizeAddress(address);
+			return [...sponsorshipReservations.values()]
+				.filter((reservation) => reservation.account === account)
+				.map((reservation) => ({ ...reservation }));
+		},
+
+		async reserveSponsorship(reservation) {
+			const account = normalizeAddress(reservation.account);
+			const key = `${account}:${reservation.nonce}`;
+			const current = sponsorshipReservations.get(key);
+			sponsorshipReservations.set(key, {
+				account,
+				nonce: reservation.nonce,
+				maxCost:
+					current && current.maxCost > reservation.maxCost
+						? current.maxCost
+						: reservation.maxCost,
+				validUntil: Math.max(
+					current?.validUntil ?? 0,
+					reservation.validUntil,
+				),
+			});
+		},
+
+		async settleSponsorship(address, nonce, used) {
+			const account = normalizeAddress(address);
+			const key = `${account}:${nonce}`;
+			const reservation = sponsorshipReservations.get(key);
+			if (!reservation) {
+				return;
+			}
+			sponsorshipReservations.delete(key);
+			if (used) {
+				sponsoredSpend.set(
+					account,
+					(sponsoredSpend.get(account) ?? 0n) + reservation.maxCost,
+				);
+			}
+		},
+
+		async saveUserOperation(record) {
+			userOperations.set(record.userOpHash, { ...record });
+		},
+
+		async getUserOperation(userOpHash) {
+			const record = userOperations.get(userOpHash);
+			return record ? { ...record } : undefined;
+		},
+
+		async saveWebhookSubscription(subscription) {
+			webhookSubscriptions.set(subscription.id, {
+				...subscription,
+				events: [...subscription.events],
+			});
+		},
+
+		async listWebhookSubscriptions() {
+			return [...webhookSubscriptions.values()].map((subscription) => ({
+				...subscription,
+				events: [...subscription.events],
+			}));
+		},
+
+		async deleteWebhookSubscription(id) {
+			for (const delivery of webhookDeliveries.values()) {
+				if (delivery.subscriptionId === id) {
+					webhookDeliveries.delete(delivery.id);
+				}
+			}
+			return webhookSubscriptions.delete(id);
+		},
+
+		async saveWebhookDelivery(delivery) {
+			webhookDeliveries.set(delivery.id, { ...delivery });
+		},
+
+		async listWebhookDeliveries(subscriptionId) {
+			return [...webhookDeliveries.values()]
+				.filter((delivery) => delivery.subscriptionId === subscriptionId)
+				.sort((a, b) => b.createdAt - a.createdAt)
+				.slice(0, MAX_WEBHOOK_DELIVERIES)
+				.map((delivery) => ({ ...delivery }));
+		},
+
+		async listDueWebhookDeliveries(now, limit) {
+			return [...webhookDeliveries.values()]
+				.filter(
+					(delivery) =>
+						delivery.status === "pending" &&
+						delivery.nextAttemptAt !== undefined &&
+						delivery.nextAttemptAt <= now,
+				)
+				.sort((a, b) => (a.nextAttemptAt ?? 0) - (b.nextAttemptAt ?? 0))
+				.slice(0, limit)
+				.map((delivery) => ({ ...delivery }));
+		},
+
+		async logAccountEvent(event) {
+			const expired = accountEvents.findIndex(
+				(entry) => entry.createdAt >= event.createdAt - ACCOUNT_EVENT_TTL_MS,
+			);
+			accountEvents.splice(0, expired < 0 ? accountEvents.length : expired);
+			accountEvents.push({ ...event, sequence: ++lastAccountEventSequence });
+		},
+
+		async listAccountEvents(address, afterSequence, limit) {
+			const key = normalizeAddress(address);
+			return accountEvents
+				.filter(
+					(event) =>
+						event.sequence > afterSequence &&
+						normalizeAddress(event.account) === key,
+				)
+				.slice(0, limit)
+				.map((event) => ({ ...event }));
+		},
+
+		async getLastAccountEventSequence() {
+			return lastAccountEventSequence;
+		},
+
+		async getChainHead() {
+			return chainHead && { ...chainHead };
+		},
+
+		async setChainHead(head) {
+			chainHead = { ...head };
+		},
+
+		async saveLoginChallenge(challenge, expiresAt) {
+			loginChallenges.set(challenge, expiresAt);
+		},
+
+		async consumeLoginChallenge(challenge, now) {
+			const expiresAt = loginChallenges.get(challenge);
+			loginChallenges.delete(challenge);
+			return expiresAt !== undefined && expiresAt > now;
+		},
+
+		async saveAuthSession(session) {
+			for (const [tokenHash, existing] of authSessions) {
+				if (existing.expiresAt <= session.createdAt) {
+					authSessions.delete(tokenHash);
+				}
+			}
+			authSessions.set(session.tokenHash, { ...session });
+		},
+
+		async getAuthSession(tokenHash, now) {
+			const session = authSessions.get(tokenHash);
+			return session && session.expiresAt > now ? { ...session } : undefined;
+		},
+
+		async consumeAuthSession(tokenHash, now) {
+			const session = authSessions.get(tokenHash);
+			authSessions.delete(tokenHash);
+			return session && session.expiresAt > now ? session : undefined;
+		},
+
+		async hitRateLimit(key, windowStart, limit) {
+			const current = rateLimits.get(key);
+			const hits = current?.windowStart === windowStart ? current.hits : 0;
+			if (hits >= limit) {
+				return false;
+			}
+			rateLimits.set(key, { windowStart, hits: hits + 1 });
+			return true;
+		},
+	};
+};
+
+type AccountRow = {
+	address: string;
+	credential_id: string;
+	public_key_x: string | null;
+	public_key_y: string | null;
+	last_synced_block: number | null;
+	last_synced_at: number | null;
+	last_active_at: number | null;
+	backfill_floor: number | null;
+	backfill_before: number | null;
+};
+
+type DepositRow = {
+	id: number;
+	token: string;
+	sender: string;
+	amount: string;
+	tx_hash: string;
+	log_index: number;
+	block_number: number;
+	block_hash: string | null;
+	block_timestamp: number;
+	confirmations: number;
+	pending: number;
+	ready: number;
+	refunded_amount: string;
+	refunded: number;
+	refund_tx_hash: string | null;
+};
+
+type RefundRow = {
+	deposit_tx_hash: string;
+	deposit_log_index: number;
+	token: string;
+	amount: string;
+	recipient: string;
+	reason: string | null;
+	user_op_hash: string;
+	signature: string;
+	transaction_hash: string;
+	created_at: number;
+};
+
+type RefundJobRow = {
+	id: string;
+	account: string;
+	idempotency_key: string | null;
+	request_hash: string;
+	status: string;
+	user_op_hash: string;
+	user_op: string;
+	intents: string;
+	bundle_id: string | null;
+	transaction_json: string | null;
+	replaced_transaction_hashes: string;
+	error: string | null;
+	error_code: string | null;
+	created_at: number;
+	updated_at: number;
+};
+
+type RelayerBundleRow = {
+	id: string;
+	status: string;
+	job_ids: string;
+	transaction_json: string;
+	replaced_transaction_hashes: string;
+	created_at: number;
+	updated_at: number;
+};
+
+type WebhookSubscriptionRow = {
+	id: string;
+	account: string | null;
+	url: string;
+	secret: string;
+	events: string;
+	created_at: number;
+};
+
+type WebhookDeliveryRow = {
+	id: string;
+	subscription_id: string;
+	event_id: string;
+	event_type: string;
+	payload: string;
+	status: string;
+	attempts: number;
+	last_status_code: number | null;
+	last_error: string | null;
+	next_attempt_at: number | null;
+	created_at: number;
+	delivered_at: number | null;
+};
+
+type AccountEventRow = {
+	sequence: number;
+	id: string;
+	type: string;
+	account: string;
+	payload: string;
+	created_at: number;
+};
+
+type AuthSessionRow = {
+	token_hash: string;
+	account: string;
+	credential_id: string;
+	expires_at: number;
+	created_at: number;
+};
+
+type UserOperationRow = {
+	user_op_hash: string;
+	entry_point: string;
+	user_op: string;
+	transaction_hash: string;
+	submitted_at: number;
+};
+
+type SponsorshipReservationRow = {
+	account: string;
+	nonce: string;
+	max_cost: string;
+	valid_until: number;
+};
+
+// Packed operations are stored as JSON with the two bigint fields as strings.
+const serializeUserOp = (userOp: PackedUserOperation) =>
+	JSON.stringify({
+		...userOp,
+		nonce: userOp.nonce.toString(),
+		preVerificationGas: userOp.preVerificationGas.toString(),
+	});
+
+const deserializeUserOp = (value: string): PackedUserOperation => {
+	const parsed = JSON.parse(value);
+	return {
+		...parsed,
+		nonce: BigInt(parsed.nonce),
+		preVerificationGas: BigInt(parsed.preVerificationGas),
+	};
+};
+
+// Intents and transactions are JSON with their bigint fields as strings.
+const serializeIntents = (intents: RefundIntent[]) =>
+	JSON.stringify(
+		intents.map((intent) => ({ ...intent, amount: intent.amount.toString() })),
+	);
+
+const deserializeIntents = (value: string): RefundIntent[] =>
+	JSON.parse(value).map((intent: RefundIntent & { amount: string }) => ({
+		...intent,
+		amount: BigInt(intent.amount),
+	}));
+
+const serializeTransaction = (transaction: RelayerTransaction) =>
+	JSON.stringify({
+		...transaction,
+		gas: transaction.gas.toString(),
+		maxFeePerGas: transaction.maxFeePerGas.toString(),
+		maxPriorityFeePerGas: transaction.maxPriorityFeePerGas.toString(),
+	});
+
+const deserializeTransaction = (value: string): RelayerTransaction => {
+	const parsed = JSON.parse(value);
+	return {
+		...parsed,
+		gas: BigInt(parsed.gas),
+		maxFeePerGas: BigInt(parsed.maxFeePerGas),
+		maxPriorityFeePerGas: BigInt(parsed.maxPriorityFeePerGas),
+	};
+};
+
+const toUserOperationRecord = (row: UserOperationRow): UserOperationRecord => ({
+	userOpHash: row.user_op_hash as Hex,
+	entryPoint: row.entry_point as Address,
+	userOp: deserializeUserOp(row.user_op),
+	transactionHash: row.transaction_hash as Hex,
+	submittedAt: row.submitted_at,
+});
+
+const toSponsorshipReservation = (
+	row: SponsorshipReservationRow,
+): SponsorshipReservation => ({
+	account: row.account as Address,
+	nonce: BigInt(row.nonce),
+	maxCost: BigInt(row.max_cost),
+	validUntil: row.valid_until,
+});
+
+const toAccountSession = (row: AccountRow): AccountSession => ({
+	credentialId: row.credential_id,
+	accountAddress: row.address as Address,
+	publicKey:
+		row.public_key_x && row.public_key_y
+			? { x: row.public_key_x as Hex, y: row.public_key_y as Hex }
+			: undefined,
+	lastSyncedBlock:
+		row.last_synced_block === null ? undefined : BigInt(row.last_synced_block),
+	lastSyncedAt: row.last_synced_at ?? undefined,
+	backfill:
+		row.backfill_floor === null || row.backfill_before === null
+			? undefined
+			: {
+					floor: BigInt(row.backfill_floor),
+					before: BigInt(row.backfill_before),
+				},
+	lastActiveAt: row.last_active_at ?? undefined,
+});
+
+const toDepositRecord = (row: DepositRow): DepositRecord => ({
+	token: row.token as Address,
+	sender: row.sender as Address,
+	amount: BigInt(row.amount),
+	txHash: row.tx_hash as Hex,
+	logIndex: row.log_index,
+	blockNumber: BigInt(row.block_number),
+	blockHash: (row.block_hash ?? undefined) as Hex | undefined,
+	blockTimestamp: row.block_timestamp,
+	confirmations: row.confirmations,
+	pending: row.pending === 1,
+	ready: row.ready === 1,
+	refundedAmount: BigInt(row.refunded_amount),
+	refunded: row.refunded === 1,
+	refundTxHash: (row.refund_tx_hash ?? undefined) as Hex | undefined,
+});
+
+const toRefundRecord = (row: RefundRow): RefundRecord => ({
+	depositTxHash: row.deposit_tx_hash as Hex,
+	depositLogIndex: row.deposit_log_index,
+	token: row.token as Address,
+	amount: BigInt(row.amount),
+	recipient: row.recipient as Address,
+	reason: row.reason ?? undefined,
+	userOpHash: row.user_op_hash as Hex,
+	signature: row.signature as Hex,
+	transactionHash: row.transaction_hash as Hex,
+	createdAt: row.created_at,
+});
+
+const toRefundJob = (row: RefundJobRow): RefundJob => ({
+	id: row.id,
+	account: row.account as Address,
+	idempotencyKey: row.idempotency_key ?? undefined,
+	requestHash: row.request_hash as Hex,
+	status: row.status as RefundJobStatus,
+	userOpHash: row.user_op_hash as Hex,
+	userOp: deserializeUserOp(row.user_op),
+	intents: deserializeIntents(row.intents),
+	bundleId: row.bundle_id ?? undefined,
+	transaction: row.transaction_json
+		? deserializeTransaction(row.transaction_json)
+		: undefined,
+	replacedTransactionHashes: splitHashes(row.replaced_transaction_hashes),
+	error: row.error ?? undefined,
+	errorCode: (row.error_code ?? undefined) as EntryPointErrorCode | undefined,
+	createdAt: row.created_at,
+	updatedAt: row.updated_at,
+});
+
+const splitHashes = (value: string) =>
+	value ? (value.split(",") as Hex[]) : [];
+
+const toRelayerBundle = (row: RelayerBundleRow): RelayerBundle => ({
+	id: row.id,
+	status: row.status as RelayerBundleStatus,
+	jobIds: row.job_ids.split(","),
+	transaction: deserializeTransaction(row.transaction_json),
+	replacedTransactionHashes: splitHashes(row.replaced_transaction_hashes),
+	createdAt: row.created_at,
+	updatedAt: row.updated_at,
+});
+
+const toWebhookSubscription = (
+	row: WebhookSubscriptionRow,
+): WebhookSubscription => ({
+	id: row.id,
+	account: (row.account ?? undefined) as Address | undefined,
+	url: row.url,
+	secret: row.secret,
+	events: row.events.split(",") as WebhookEventType[],
+	createdAt: row.created_at,
+});
+
+const toAuthSession = (row: AuthSessionRow): AuthSession => ({
+	tokenHash: row.token_hash as Hex,
+	account: row.account as Address,
+	credentialId: row.credential_id,
+	expiresAt: row.expires_at,
+	createdAt: row.created_at,
+});
+
+const toWebhookDelivery = (row: WebhookDeliveryRow): WebhookDelivery => ({
+	id: row.id,
+	subscriptionId: row.subscription_id,
+	eventId: row.event_id,
+	eventType: row.event_type as WebhookEventType,
+	payload: row.payload,
+	status: row.status as WebhookDelivery["status"],
+	attempts: row.attempts,
+	lastStatusCode: row.last_status_code ?? undefined,
+	lastError: row.last_error ?? undefined,
+	nextAttemptAt: row.next_attempt_at ?? undefined,
+	createdAt: row.created_at,
+	deliveredAt: row.delivered_at ?? undefined,
+});
+
+const toAccountEventRecord = (row: AccountEventRow): AccountEventRecord => ({
+	sequence: row.sequence,
+	id: row.id,
+	type: row.type as AccountEventType,
+	account: row.account as Address,
+	payload: row.payload,
+	createdAt: row.created_at,
+});
+
+const DEPOSIT_STATUS_CONDITIONS: Record<DepositStatus, string> = {
+	pending: "pending = 1",
+	ready: "ready = 1 AND refunded = 0",
+	refunded: "refunded = 1",
+};
+
+/**
+ * Durable backend on Cloudflare D1. Schema lives in `server/migrations`.
+ * Addresses are stored lower-cased so lookups are case-insensitive, and every
+ * query is scoped to `chainId`; login challenges are shared across chains.
+ */
+export const createD1Storage = (
+	db: D1Database,
+	chainId: number,
+): AccountStorage => ({
+	async getAccountSession(address) {
+		const row = await db
+			.prepare("SELECT * FROM accounts WHERE chain_id = ? AND address = ?")
+			.bind(chainId, normalizeAddress(address))
+			.first<AccountRow>();
+		return row ? toAccountSession(row) : undefined;
+	},
+
+	async getAccountSessionByCredential(credentialId) {
+		const row = await db
+			.prepare("SELECT * FROM accounts WHERE chain_id = ? AND credential_id = ?")
+			.bind(chainId, credentialId)
+			.first<AccountRow>();
+		return row ? toAccountSession(row) : undefined;
+	},
+
+	async upsertAccountSession(address, credentialId, publicKey) {
+		let row: AccountRow | null;
+		try {
+			row = await db
+				.prepare(
+					`INSERT INTO accounts (chain_id, address, credential_id, public_key_x, public_key_y)
+					VALUES (?, ?, ?, ?, ?)
+					ON CONFLICT (chain_id, address) DO UPDATE SET
+						credential_id = excluded.credential_id,
+						public_key_x = excluded.public_key_x,
+						public_key_y = excluded.public_key_y
+					RETURNING *`,
+				)
+				.bind(
+					chainId,
+					normalizeAddress(address),
+					credentialId,
+					publicKey.x,
+					publicKey.y,
+				)
+				.first<AccountRow>();
+		} catch (error) {
+			// The unique index on (chain_id, credential_id) rejects a credential
+			// bound to another account.
+			if (`${error}`.includes("UNIQUE constraint failed")) {
+				return undefined;
+			}
+			throw error;
+		}
+		if (!row) {
+			throw new Error(`Failed to upsert account ${address}`);
+		}
+		return toAccountSession(row);
+	},
+
+	async setLastSyncedBlock(address, blockNumber, syncedAt) {
+		await db
+			.prepare(
+				"UPDATE accounts SET last_synced_block = ?, last_synced_at = ? WHERE chain_id = ? AND address = ?",
+			)
+			.bind(Number(blockNumber), syncedAt, chainId, normalizeAddress(address))
+			.run();
+	},
+
+	async setDepositBackfill(address, backfill) {
+		await db
+			.prepare(
+				"UPDATE accounts SET backfill_floor = ?, backfill_before = ? WHERE chain_id = ? AND address = ?",
+			)
+			.bind(
+				backfill ? Number(backfill.floor) : null,
+				backfill ? Number(backfill.before) : null,
+				chainId,
+				normalizeAddress(address),
+			)
+			.run();
+	},
+
+	async touchAccount(address, activeAt) {
+		await db
+			.prepare(
+				"UPDATE accounts SET last_active_at = ? WHERE chain_id = ? AND address = ?",
+			)
+			.bind(activeAt, chainId, normalizeAddress(address))
+			.run();
+	},
+
+	async listActiveAccounts(since) {
+		const { results } = await db
+			.prepare(
+				"SELECT * FROM accounts WHERE chain_id = ? AND last_active_at >= ?",
+			)
+			.bind(chainId, since)
+			.all<AccountRow>();
+		return results.map(toAccountSession);
+	},
+
+	async listAccounts(limit) {
+		const { results } = await db
+			.prepare(
+				"SELECT * FROM accounts WHERE chain_id = ? ORDER BY last_active_at DESC LIMIT ?",
+			)
+			.bind(chainId, limit)
+			.all<AccountRow>();
+		return results.map(toAccountSession);
+	},
+
+	async listDeposits(address, query = {}) {
+		const { status, sender, from, to, cursor, limit } = query;
+		const conditions = ["chain_id = ?", "account = ?"];
+		const params: (number | string)[] = [chainId, normalizeAddress(address)];
+		if (status) {
+			conditions.push(DEPOSIT_STATUS_CONDITIONS[status]);
+		}
+		if (sender) {
+			conditions.push("LOWER(sender) = ?");
+			params.push(normalizeAddress(sender));
+		}
+		if (from !== undefined) {
+			conditions.push("block_timestamp >= ?");
+			params.push(from);
+		}
+		if (to !== undefined) {
+			conditions.push("block_timestamp <= ?");
+			params.push(to);
+		}
+		if (cursor !== undefined) {
+			conditions.push("id < ?");
+			params.push(Number(cursor));
+		}
+
+		// One extra row tells whether another page follows.
+		const { results } = await db
+			.prepare(
+				`SELECT * FROM deposits WHERE ${conditions.join(" AND ")} ORDER BY id DESC${
+					limit === undefined ? "" : " LIMIT ?"
+				}`,
+			)
+			.bind(...params, ...(limit === undefined ? [] : [limit + 1]))
+			.all<DepositRow>();
+		const page = limit === undefined ? results : results.slice(0, limit);
+		return {
+			deposits: page.map(toDepositRecord),
+			nextCursor:
+				page.length < results.length ? `${page[page.length - 1].id}` : undefined,
+		};
+	},
+
+	async getDeposit(address, txHash, logIndex) {
+		const row = await db
+			.prepare(
+				"SELECT * FROM deposits WHERE chain_id = ? AND account = ? AND tx_hash = ? AND log_index = ?",
+			)
+			.bind(chainId, normalizeAddress(address), txHash, logIndex)
+			.first<DepositRow>();
+		return row ? toDepositRecord(row) : undefined;
+	},
+
+	async recordDeposit(address, record) {
+		const inserted = await db
+			.prepare(
+				`INSERT OR IGNORE INTO deposits
+				(chain_id, account, token, sender, amount, tx_hash, log_index, block_number, block_hash, block_timestamp, confirmations, pending, ready, refunded_amount, refunded, refund_tx_hash)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.bind(
+				chainId,
+				normalizeAddress(address),
+				normalizeAddress(record.token),
+				record.sender,
+				record.amount.toString(),
+				record.txHash,
+				record.logIndex,
+				Number(record.blockNumber),
+				record.blockHash ?? null,
+				record.blockTimestamp,
+				record.confirmations,
+				record.pending ? 1 : 0,
+				record.ready ? 1 : 0,
+				record.refundedAmount.toString(),
+				record.refunded ? 1 : 0,
+				record.refundTxHash ?? null,
+			)
+			.run();
+		return inserted.meta.changes > 0;
+	},
+
+	async updateDepositConfirmations(address, record) {
+		await db
+			.prepare(
+				`UPDATE deposits SET confirmations = ?, pending = ?, ready = ?
+				WHERE chain_id = ? AND account = ? AND tx_hash = ? AND log_index = ?`,
+			)
+			.bind(
+				record.confirmations,
+				record.pending ? 1 : 0,
+				record.ready ? 1 : 0,
+				chainId,
+				normalizeAddress(address),
+				record.txHash,
+				record.logIndex,
+			)
+			.run();
+	},
+
+	async removeDeposit(address, txHash, logIndex) {
+		await db
+			.prepare(
+				"DELETE FROM deposits WHERE chain_id = ? AND account = ? AND tx_hash = ? AND log_index = ?",
+			)
+			.bind(chainId, normalizeAddress(address), txHash, logIndex)
+			.run();
+	},
+
+	async recordRefunds(address, refunds) {
+		const account = normalizeAddress(address);
+		const { results } = await db
+			.prepare("SELECT * FROM deposits WHERE chain_id = ? AND account = ?")
+			.bind(chainId, account)
+			.all<DepositRow>();
+		// Amounts are uint256 strings, so new totals are computed here rather
+		// than in SQL.
+		const updated = new Map<string, DepositRecord>();
+		for (const refund of refunds) {
+			const key = `${refund.depositTxHash}:${refund.depositLogIndex}`;
+			const row = results.find(
+				(entry) =>
+					entry.tx_hash === refund.depositTxHash &&
+					entry.log_index === refund.depositLogIndex,
+			);
+			const deposit = updated.get(key) ?? (row && toDepositRecord(row));
+			if (deposit) {
+				applyRefund(deposit, refund);
+				updated.set(key, deposit);
+			}
+		}
+
+		// D1 runs a batch as a single transaction.
+		await db.batch([
+			...refunds.map((refund) =>
+				db
+					.prepare(
+						`INSERT INTO refunds
+						(chain_id, account, deposit_tx_hash, deposit_log_index, token, amount, recipient, reason, user_op_hash, signature, transaction_hash, created_at)
+						VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+					)
+					.bind(
+						chainId,
+						account,
+						refund.depositTxHash,
+						refund.depositLogIndex,
+						normalizeAddress(refund.token),
+						refund.amount.toString(),
+						refund.recipient,
+						refund.reason ?? null,
+						refund.userOpHash,
+						refund.signature,
+						refund.transactionHash,
+						refund.createdAt,
+					),
+			),
+			...[...updated.values()].map((deposit) =>
+				db
+					.prepare(
+						`UPDATE deposits SET refunded_amount = ?, refunded = ?, refund_tx_hash = ?
+						WHERE chain_id = ? AND account = ? AND tx_hash = ? AND log_index = ?`,
+					)
+					.bind(
+						deposit.refundedAmount.toString(),
+						deposit.refunded ? 1 : 0,
+						deposit.refundTxHash ?? null,
+						chainId,
+						account,
+						deposit.txHash,
+						deposit.logIndex,
+					),
+			),
+		]);
+	},
+
+	async listRefunds(address) {
+		const { results } = await db
+			.prepare(
+				"SELECT * FROM refunds WHERE chain_id = ? AND account = ? ORDER BY id DESC",
+			)
+			.bind(chainId, normalizeAddress(address))
+			.all<RefundRow>();
+		return results.map(toRefundRecord);
+	},
+
+	async createRefundJob(job) {
+		const account = normalizeAddress(job.account);
+		// Intents splitting one deposit share its lock.
+		const lockedDeposits = new Map(
+			job.intents.map((intent) => [
+				`${intent.depositTxHash}:${intent.depositLogIndex}`,
+				intent,
+			]),
+		);
+		try {
+			// The batch is one transaction, so a taken lock or key inserts nothing.
+			await db.batch([
+				db
+					.prepare(
+						`INSERT INTO refund_jobs
+						(id, chain_id, account, idempotency_key, request_hash, status, user_op_hash, user_op, intents, transaction_json, replaced_transaction_hashes, error, error_code, created_at, updated_at)
+						VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+					)
+					.bind(
+						job.id,
+						chainId,
+						account,
+						job.idempotencyKey ?? null,
+						job.requestHash,
+						job.status,
+						job.userOpHash,
+						serializeUserOp(job.userOp),
+						serializeIntents(job.intents),
+						job.transaction ? serializeTransaction(job.transaction) : null,
+						job.replacedTransactionHashes.join(","),
+						job.error ?? null,
+						job.errorCode ?? null,
+						job.createdAt,
+						job.updatedAt,
+					),
+				...[...lockedDeposits.values()].map((intent) =>
+					db
+						.prepare(
+							`INSERT INTO refund_locks (chain_id, account, deposit_tx_hash, deposit_log_index, job_id)
+							VALUES (?, ?, ?, ?, ?)`,
+						)
+						.bind(
+							chainId,
+							account,
+							intent.depositTxHash,
+							intent.depositLogIndex,
+							job.id,
+						),
+				),
+				...[...getRefundJobSpend(job)].map(([token, amount]) =>
+					db
+						.prepare(
+							`INSERT INTO refund_spend (chain_id, job_id, account, day, token, amount)
+							VALUES (?, ?, ?, ?, ?, ?)`,
+						)
+						.bind(
+							chainId,
+							job.id,
+							account,
+							getUtcDay(job.createdAt),
+							token,
+							amount.toString(),
+						),
+				),
+			]);
+			return true;
+		} catch (error) {
+			if (`${error}`.includes("UNIQUE constraint failed")) {
+				return false;
+			}
+			throw error;
+		}
+	},
+
+	async saveRefundJob(job) {
+		await db.batch([
+			db
+				.prepare(
+					`UPDATE refund_jobs SET status = ?, bundle_id = ?, transaction_json = ?, replaced_transaction_hashes = ?, error = ?, error_code = ?, updated_at = ?
+					WHERE chain_id = ? AND id = ?`,
+				)
+				.bind(
+					job.status,
+					job.bundleId ?? null,
+					job.transaction ? serializeTransaction(job.transaction) : null,
+					job.replacedTransactionHashes.join(","),
+					job.error ?? null,
+					job.errorCode ?? null,
+					job.updatedAt,
+					chainId,
+					job.id,
+				),
+			...(isOpenRefundJob(job)
+				? []
+				: [
+						db
+							.prepare(
+								"DELETE FROM refund_locks WHERE chain_id = ? AND job_id = ?",
+							)
+							.bind(chainId, job.id),
+					]),
+			...(job.status === "failed"
+				? [
+						db
+							.prepare(
+								"DELETE FROM refund_spend WHERE chain_id = ? AND job_id = ?",
+							)
+							.bind(chainId, job.id),
+					]
+				: []),
+		]);
+	},
+
+	async getRefundJob(id) {
+		const row = await db
+			.prepare("SELECT * FROM refund_jobs WHERE chain_id = ? AND id = ?")
+			.bind(chainId, id)
+			.first<RefundJobRow>();
+		return row ? toRefundJob(row) : undefined;
+	},
+
+	async listRefundJobs(address) {
+		const { results } = await db
+			.prepare(
+				"SELECT * FROM refund_jobs WHERE chain_id = ? AND account = ? ORDER BY created_at DESC",
+			)
+			.bind(chainId, normalizeAddress(address))
+			.all<RefundJobRow>();
+		return results.map(toRefundJob);
+	},
+
+	async getRefundJobByIdempotencyKey(address, idempotencyKey) {
+		const row = await db
+			.prepare(
+				"SELECT * FROM refund_jobs WHERE chain_id = ? AND account = ? AND idempotency_key = ?",
+			)
+			.bind(chainId, normalizeAddress(address), idempotencyKey)
+			.first<RefundJobRow>();
+		return row ? toRefundJob(row) : undefined;
+	},
+
+	async claimQueuedRefundJobs(bundleId, limit, staleBefore) {
+		// A single statement, so two flushes never claim the same job.
+		const { results } = await db
+			.prepare(
+				`UPDATE refund_jobs SET bundle_id = ?, updated_at = ?
+				WHERE id IN (
+					SELECT id FROM refund_jobs
+					WHERE chain_id = ? AND status = 'queued' AND (bundle_id IS NULL OR updated_at <= ?)
+					ORDER BY created_at LIMIT ?
+				)
+				RETURNING *`,
+			)
+			.bind(bundleId, Date.now(), chainId, staleBefore, limit)
+			.all<RefundJobRow>();
+		return results
+			.map(toRefundJob)
+			.sort((a, b) => a.createdAt - b.createdAt);
+	},
+
+	async saveRelayerBundle(bundle) {
+		await db
+			.prepare(
+				`INSERT OR REPLACE INTO relayer_bundles
+				(id, chain_id, status, job_ids, transaction_json, replaced_transaction_hashes, created_at, updated_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.bind(
+				bundle.id,
+				chainId,
+				bundle.status,
+				bundle.jobIds.join(","),
+				serializeTransaction(bundle.transaction),
+				bundle.replacedTransactionHashes.join(","),
+				bundle.createdAt,
+				bundle.updatedAt,
+			)
+			.run();
+	},
+
+	async listOpenRelayerBundles() {
+		const { results } = await db
+			.prepare(
+				`SELECT * FROM relayer_bundles WHERE chain_id = ? AND status IN (${OPEN_RELAYER_BUNDLE_STATUSES.map(() => "?").join(", ")})
+				ORDER BY created_at`,
+			)
+			.bind(chainId, ...OPEN_RELAYER_BUNDLE_STATUSES)
+			.all<RelayerBundleRow>();
+		return results.map(toRelayerBundle);
+	},
+
+	async listRelayerBundles(limit) {
+		const { results } = await db
+			.prepare(
+				"SELECT * FROM relayer_bundles WHERE chain_id = ? ORDER BY created_at DESC LIMIT ?",
+			)
+			.bind(chainId, limit)
+			.all<RelayerBundleRow>();
+		return results.map(toRelayerBundle);
+	},
+
+	async reserveRelayerNonce(address, pendingNonce) {
+		const key = normalizeAddress(address);
+		// Nonces below the pending count were taken by other transactions.
+		const [, released] = await db.batch<{ nonce: number }>([
+			db
+				.prepare(
+					"DELETE FROM relayer_released_nonces WHERE chain_id = ? AND address = ? AND nonce < ?",
+				)
+				.bind(chainId, key, pendingNonce),
+			db
+				.prepare(
+					`DELETE FROM relayer_released_nonces WHERE chain_id = ? AND address = ? AND nonce =
+					(SELECT MIN(nonce) FROM relayer_released_nonces WHERE chain_id = ? AND address = ?)
+					RETURNING nonce`,
+				)
+				.bind(chainId, key, chainId, key),
+		]);
+		if (released.results.length > 0) {
+			return released.results[0].nonce;
+		}
+
+		const row = await db
+			.prepare(
+				`INSERT INTO relayer_nonces (chain_id, address, next_nonce) VALUES (?, ?, ? + 1)
+				ON CONFLICT (chain_id, address) DO UPDATE SET next_nonce = MAX(next_nonce, excluded.next_nonce - 1) + 1
+				RETURNING next_nonce - 1 AS nonce`,
+			)
+			.bind(chainId, key, pendingNonce)
+			.first<{ nonce: number }>();
+		if (!row) {
+			throw new Error("Failed to reserve a relayer nonce");
+		}
+		return row.nonce;
+	},
+
+	async releaseRelayerNonce(address, nonce) {
+		await db
+			.prepare(
+				"INSERT OR IGNORE INTO relayer_released_nonces (chain_id, address, nonce) VALUES (?, ?, ?)",
+			)
+			.bind(chainId, normalizeAddress(address), nonce)
+			.run();
+	},
+
+	async getDailySpend(address, day) {
+		const key = [chainId, normalizeAddress(address), day];
+		// Totals from before spend was tracked per job still count.
+		const { results } = await db
+			.prepare(
+				`SELECT token, amount FROM daily_spend WHERE chain_id = ? AND account = ? AND day = ?
+				UNION ALL
+				SELECT token, amount FROM refund_spend WHERE chain_id = ? AND account = ? AND day = ?`,
+			)
+			.bind(...key, ...key)
+			.all<{ token: string; amount: string }>();
+		// Amounts are uint256 strings, so they are summed here rather than in SQL.
+		const totals: Record<string, bigint> = {};
+		for (const row of results) {
+			totals[row.token] = (totals[row.token] ?? 0n) + BigInt(row.amount);
+		}
+		return totals;
+	},
+
+	async getSponsoredSpend(address) {
+		const row = await db
+			.prepare(
+				"SELECT amount FROM sponsored_spend WHERE chain_id = ? AND account = ?",
+			)
+			.bind(chainId, normalizeAddress(address))
+			.first<{ amount: string }>();
+		return row ? BigInt(row.amount) : 0n;
+	},
+
+	async listSponsorshipReservations(address) {
+		const { results } = await db
+			.prepare(
+				"SELECT * FROM sponsorship_reservations WHERE chain_id = ? AND account = ?",
+			)
+			.bind(chainId, normalizeAddress(address))
+			.all<SponsorshipReservationRow>();
+		return results.map(toSponsorshipReservation);
+	},
+
+	async reserveSponsorship(reservation) {
+		const account = normalizeAddress(reservation.account);
+		const nonce = reservation.nonce.toString();
+		const current = await db
+			.prepare(
+				"SELECT * FROM sponsorship_reservations WHERE chain_id = ? AND account = ? AND nonce = ?",
+			)
+			.bind(chainId, account, nonce)
+			.first<SponsorshipReservationRow>();
+		const maxCost =
+			current && BigInt(current.max_cost) > reservation.maxCost
+				? BigInt(current.max_cost)
+				: reservation.maxCost;
+		await db
+			.prepare(
+				`INSERT INTO sponsorship_reservations (chain_id, account, nonce, max_cost, valid_until)
+				VALUES (?, ?, ?, ?, ?)
+				ON CONFLICT (chain_id, account, nonce) DO UPDATE SET
+					max_cost = excluded.max_cost,
+					valid_until = MAX(valid_until, excluded.valid_until)`,
+			)
+			.bind(
+				chainId,
+				account,
+				nonce,
+				maxCost.toString(),
+				reservation.validUntil,
+			)
+			.run();
+	},
+
+	async settleSponsorship(address, nonce, used) {
+		const account = normalizeAddress(address);
+		// Deleting first lets only one settlement charge the reservation.
+		const reservation = await db
+			.prepare(
+				`DELETE FROM sponsorship_reservations WHERE chain_id = ? AND account = ? AND nonce = ?
+				RETURNING max_cost`,
+			)
+			.bind(chainId, account, nonce.toString())
+			.first<{ max_cost: string }>();
+		if (!reservation || !used) {
+			return;
+		}
+
+		const row = await db
+			.prepare(
+				"SELECT amount FROM sponsored_spend WHERE chain_id = ? AND account = ?",
+			)
+			.bind(chainId, account)
+			.first<{ amount: string }>();
+		const total =
+			(row ? BigInt(row.amount) : 0n) + BigInt(reservation.max_cost);
+		await db
+			.prepare(
+				`INSERT INTO sponsored_spend (chain_id, account, amount) VALUES (?, ?, ?)
+				ON CONFLICT (chain_id, account) DO UPDATE SET amount = excluded.amount`,
+			)
+			.bind(chainId, account, total.toString())
+			.run();
+	},
+
+	async saveUserOperation(record) {
+		await db
+			.prepare(
+				`INSERT OR REPLACE INTO user_operations
+				(user_op_hash, chain_id, sender, entry_point, user_op, transaction_hash, submitted_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.bind(
+				record.userOpHash,
+				chainId,
+				normalizeAddress(record.userOp.sender),
+				record.entryPoint,
+				serializeUserOp(record.userOp),
+				record.transactionHash,
+				record.submittedAt,
+			)
+			.run();
+	},
+
+	async getUserOperation(userOpHash) {
+		const row = await db
+			.prepare(
+				"SELECT * FROM user_operations WHERE chain_id = ? AND user_op_hash = ?",
+			)
+			.bind(chainId, userOpHash)
+			.first<UserOperationRow>();
+		return row ? toUserOperationRecord(row) : undefined;
+	},
+
+	async saveWebhookSubscription(subscription) {
+		await db
+			.prepare(
+				`INSERT OR REPLACE INTO webhook_subscriptions
+				(id, chain_id, account, url, secret, events, created_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.bind(
+				subscription.id,
+				chainId,
+				subscription.account ? normalizeAddress(subscription.account) : null,
+				subscription.url,
+				subscription.secret,
+				subscription.events.join(","),
+				subscription.createdAt,
+			)
+			.run();
+	},
+
+	async listWebhookSubscriptions() {
+		const { results } = await db
+			.prepare(
+				"SELECT * FROM webhook_subscriptions WHERE chain_id = ? ORDER BY created_at",
+			)
+			.bind(chainId)
+			.all<WebhookSubscriptionRow>();
+		return results.map(toWebhookSubscription);
+	},
+
+	async deleteWebhookSubscription(id) {
+		const [, deleted] = await db.batch([
+			db
+				.prepare(
+					`DELETE FROM webhook_deliveries WHERE subscription_id IN
+					(SELECT id FROM webhook_subscriptions WHERE chain_id = ? AND id = ?)`,
+				)
+				.bind(chainId, id),
+			db
+				.prepare(
+					"DELETE FROM webhook_subscriptions WHERE chain_id = ? AND id = ?",
+				)
+				.bind(chainId, id),
+		]);
+		return deleted.meta.changes > 0;
+	},
+
+	async saveWebhookDelivery(delivery) {
+		await db
+			.prepare(
+				`INSERT OR REPLACE INTO webhook_deliveries
+				(id, subscription_id, event_id, event_type, payload, status, attempts, last_status_code, last_error, next_attempt_at, created_at, delivered_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.bind(
+				delivery.id,
+				delivery.subscriptionId,
+				delivery.eventId,
+				delivery.eventType,
+				delivery.payload,
+				delivery.status,
+				delivery.attempts,
+				delivery.lastStatusCode ?? null,
+				delivery.lastError ?? null,
+				delivery.nextAttemptAt ?? null,
+				delivery.createdAt,
+				delivery.deliveredAt ?? null,
+			)
+			.run();
+	},
+
+	async listWebhookDeliveries(subscriptionId) {
+		const { results } = await db
+			.prepare(
+				`SELECT * FROM webhook_deliveries WHERE subscription_id = ?
+				ORDER BY created_at DESC LIMIT ?`,
+			)
+			.bind(subscriptionId, MAX_WEBHOOK_DELIVERIES)
+			.all<WebhookDeliveryRow>();
+		return results.map(toWebhookDelivery);
+	},
+
+	async listDueWebhookDeliveries(now, limit) {
+		const { results } = await db
+			.prepare(
+				`SELECT webhook_deliveries.* FROM webhook_deliveries
+				JOIN webhook_subscriptions ON webhook_subscriptions.id = webhook_deliveries.subscription_id
+				WHERE webhook_subscriptions.chain_id = ? AND webhook_deliveries.status = 'pending'
+					AND webhook_deliveries.next_attempt_at <= ?
+				ORDER BY webhook_deliveries.next_attempt_at LIMIT ?`,
+			)
+			.bind(chainId, now, limit)
+			.all<WebhookDeliveryRow>();
+		return results.map(toWebhookDelivery);
+	},
+
+	async logAccountEvent(event) {
+		await db.batch([
+			db
+				.prepare(
+					"DELETE FROM account_events WHERE chain_id = ? AND created_at < ?",
+				)
+				.bind(chainId, event.createdAt - ACCOUNT_EVENT_TTL_MS),
+			db
+				.prepare(
+					`INSERT INTO account_events (chain_id, id, type, account, payload, created_at)
+					VALUES (?, ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					chainId,
+					event.id,
+					event.type,
+					normalizeAddress(event.account),
+					event.payload,
+					event.createdAt,
+				),
+		]);
+	},
+
+	async listAccountEvents(address, afterSequence, limit) {
+		const { results } = await db
+			.prepare(
+				`SELECT * FROM account_events WHERE chain_id = ? AND account = ? AND sequence > ?
+				ORDER BY sequence LIMIT ?`,
+			)
+			.bind(chainId, normalizeAddress(address), afterSequence, limit)
+			.all<AccountEventRow>();
+		return results.map(toAccountEventRecord);
+	},
+
+	async getLastAccountEventSequence() {
+		// Sequences are shared by all chains, so any later event of this chain
+		// still sorts after the last one.
+		const row = await db
+			.prepare(
+				"SELECT MAX(sequence) AS sequence FROM account_events WHERE chain_id = ?",
+			)
+			.bind(chainId)
+			.first<{ sequence: number | null }>();
+		return row?.sequence ?? 0;
+	},
+
+	async getChainHead() {
+		const row = await db
+			.prepare(
+				"SELECT block_number, seen_at FROM chain_heads WHERE chain_id = ?",
+			)
+			.bind(chainId)
+			.first<{ block_number: string; seen_at: number }>();
+		return row
+			? { blockNumber: BigInt(row.block_number), seenAt: row.seen_at }
+			: undefined;
+	},
+
+	async setChainHead(head) {
+		await db
+			.prepare(
+				"INSERT OR REPLACE INTO chain_heads (chain_id, block_number, seen_at) VALUES (?, ?, ?)",
+			)
+			.bind(chainId, head.blockNumber.toString(), head.seenAt)
+			.run();
+	},
+
+	async saveLoginChallenge(challenge, expiresAt) {
+		await db
+			.prepare(
+				"INSERT INTO login_challenges (challenge, expires_at) VALUES (?, ?)",
+			)
+			.bind(challenge, expiresAt)
+			.run();
+	},
+
+	async consumeLoginChallenge(challenge, now) {
+		const row = await db
+			.prepare(
+				"DELETE FROM login_challenges WHERE challenge = ? RETURNING expires_at",
+			)
+			.bind(challenge)
+			.first<{ expires_at: number }>();
+		return row !== null && row.expires_at > now;
+	},
+
+	async saveAuthSession(session) {
+		await db.batch([
+			db
+				.prepare("DELETE FROM auth_sessions WHERE expires_at <= ?")
+				.bind(session.createdAt),
+			db
+				.prepare(
+					`INSERT INTO auth_sessions
+						(token_hash, chain_id, account, credential_id, expires_at, created_at)
+					VALUES (?, ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					session.tokenHash,
+					chainId,
+					normalizeAddress(session.account),
+					session.credentialId,
+					session.expiresAt,
+					session.createdAt,
+				),
+		]);
+	},
+
+	async getAuthSession(tokenHash, now) {
+		const row = await db
+			.prepare(
+				"SELECT * FROM auth_sessions WHERE token_hash = ? AND chain_id = ? AND expires_at > ?",
+			)
+			.bind(tokenHash, chainId, now)
+			.first<AuthSessionRow>();
+		return row ? toAuthSession(row) : undefined;
+	},
+
+	async consumeAuthSession(tokenHash, now) {
+		const row = await db
+			.prepare(
+				"DELETE FROM auth_sessions WHERE token_hash = ? AND chain_id = ? RETURNING *",
+			)
+			.bind(tokenHash, chainId)
+			.first<AuthSessionRow>();
+		return row && row.expires_at > now ? toAuthSession(row) : undefined;
+	},
+
+	async hitRateLimit(key, windowStart, limit) {
+		if (limit <= 0) {
+			return false;
+		}
+		// The update only applies below the limit or in a new window, so a
+		// missing row in the result means the limit was reached.
+		const row = await db
+			.prepare(
+				`INSERT INTO rate_limits (chain_id, key, window_start, hits) VALUES (?, ?, ?, 1)
+				ON CONFLICT (chain_id, key) DO UPDATE SET
+					hits = CASE WHEN window_start = excluded.window_start THEN hits + 1 ELSE 1 END,
+					window_start = excluded.window_start
+				WHERE window_start <> excluded.window_start OR hits < ?
+				RETURNING hits`,
+			)
+			.bind(chainId, key, windowStart, limit)
+			.first<{ hits: number }>();
+		return row !== null;
+	},
+});
+
+const memoryStorages = new Map<number, AccountStorage>();
+
+/** Storage scoped to one chain; the same address is a separate account per chain. */
+export const getStorage = (env: Bindings, chainId: number): AccountStorage => {
+	if (env.DB) {
+		return createD1Storage(env.DB, chainId);
+	}
+
+	let storage = memoryStorages.get(chainId);
+	if (!storage) {
+		storage = createMemoryStorage();
+		memoryStorages.set(chainId, storage);
+	}
+	return storage;
+};
@@ -0,0 +1,188 @@
+import { type Address, formatEther, parseEther } from "viem";
+import { CHAINS, entryPointAbi } from "../../shared";
+import {
+	getPublicClient,
+	getSupportedChain,
+	getWalletClient,
+} from "./clients";
+import { getPaymasterConfig } from "./paymaster";
+import { sendRelayerTransaction } from "./relayer";
+import { getStorage } from "./storage";
+import type { Bindings, SupportedChain } from "./types";
+
+// Balances of the relayer EOA, which pays for funding and `handleOps` gas, and
+// of the paymaster's EntryPoint deposit, which pays for sponsored operations.
+
+const DEFAULT_RELAYER_BALANCE_FLOOR = parseEther("0.02");
+const DEFAULT_PAYMASTER_DEPOSIT_FLOOR = parseEther("0.01");
+// Without a configured target, top-ups bring the deposit to three floors, so
+// they stay rare.
+const DEFAULT_PAYMASTER_TARGET_FLOORS = 3n;
+// A top-up that is not mined yet still leaves the deposit low, so at most one
+// is sent per chain in this window.
+const TOP_UP_INTERVAL_MS = 10 * 60 * 1000;
+
+export type TreasuryConfig = {
+	relayerBalanceFloor: bigint;
+	paymasterDepositFloor: bigint;
+	paymasterDepositTarget: bigint;
+};
+
+export type TreasuryStatus = {
+	relayer: { address: Address; balance: bigint; floor: bigint };
+	/** Unset without a paymaster. */
+	paymaster?: {
+		address: Address;
+		deposit: bigint;
+		floor: bigint;
+		target: bigint;
+	};
+};
+
+/** Error response for a request the relayer cannot afford. */
+export type TreasuryRefusal = {
+	error: string;
+	code: "relayer_balance_low";
+};
+
+export const loadTreasuryConfig = (env: Bindings): TreasuryConfig => {
+	const paymasterDepositFloor = env.PAYMASTER_DEPOSIT_FLOOR
+		? BigInt(env.PAYMASTER_DEPOSIT_FLOOR)
+		: DEFAULT_PAYMASTER_DEPOSIT_FLOOR;
+	return {
+		relayerBalanceFloor: env.RELAYER_BALANCE_FLOOR
+			? BigInt(env.RELAYER_BALANCE_FLOOR)
+			: DEFAULT_RELAYER_BALANCE_FLOOR,
+		paymasterDepositFloor,
+		paymasterDepositTarget: env.PAYMASTER_DEPOSIT_TARGET
+			? BigInt(env.PAYMASTER_DEPOSIT_TARGET)
+			: paymasterDepositFloor * DEFAULT_PAYMASTER_TARGET_FLOORS,
+	};
+};
+
+export async function getTreasuryStatus(
+	env: Bindings,
+	chain: SupportedChain,
+): Promise<TreasuryStatus> {
+	const config = loadTreasuryConfig(env);
+	const publicClient = getPublicClient(env, chain);
+	const relayer = getWalletClient(env, chain).account.address;
+	const paymaster = getPaymasterConfig(env);
+	const [balance, deposit] = await Promise.all([
+		publicClient.getBalance({ address: relayer }),
+		paymaster &&
+			publicClient.readContract({
+				address: chain.entryPoint,
+				abi: entryPointAbi,
+				functionName: "balanceOf",
+				args: [paymaster.address],
+			}),
+	]);
+	return {
+		relayer: {
+			address: relayer,
+			balance,
+			floor: config.relayerBalanceFloor,
+		},
+		paymaster:
+			paymaster && deposit !== undefined
+				? {
+						address: paymaster.address,
+						deposit,
+						floor: config.paymasterDepositFloor,
+						target: config.paymasterDepositTarget,
+					}
+				: undefined,
+	};
+}
+
+/**
+ * Refuses work that would leave the relayer below its floor; `spend` is what
+ * the request sends out of the relayer's balance besides gas.
+ */
+export async function checkRelayerBalance(
+	env: Bindings,
+	chain: SupportedChain,
+	spend = 0n,
+): Promise<TreasuryRefusal | undefined> {
+	const { relayerBalanceFloor } = loadTreasuryConfig(env);
+	const balance = await getPublicClient(env, chain).getBalance({
+		address: getWalletClient(env, chain).account.address,
+	});
+	if (balance - spend >= relayerBalanceFloor) {
+		return undefined;
+	}
+	return {
+		error: `The relayer is low on funds; it keeps at least ${formatEther(relayerBalanceFloor)} ${chain.chain.nativeCurrency.symbol} for gas`,
+		code: "relayer_balance_low",
+	};
+}
+
+/**
+ * Deposits enough of the relayer's balance with the EntryPoint to bring the
+ * paymaster's deposit from below its floor back to the target, unless that
+ * would take the relayer below its own floor.
+ */
+async function topUpPaymasterDeposit(
+	env: Bindings,
+	chain: SupportedChain,
+	now: number,
+) {
+	const { relayer, paymaster } = await getTreasuryStatus(env, chain);
+	if (relayer.balance < relayer.floor) {
+		console.warn(
+			`Relayer ${relayer.address} on chain ${chain.chain.id} is below its floor: ${formatEther(relayer.balance)} left`,
+		);
+	}
+	if (!paymaster || paymaster.deposit >= paymaster.floor) {
+		return;
+	}
+
+	const amount = paymaster.target - paymaster.deposit;
+	if (relayer.balance - amount < relayer.floor) {
+		console.warn(
+			`Paymaster ${paymaster.address} on chain ${chain.chain.id} is below its floor, but the relayer cannot top it up`,
+		);
+		return;
+	}
+	const windowStart = now - (now % TOP_UP_INTERVAL_MS);
+	if (
+		!(await getStorage(env, chain.chain.id).hitRateLimit(
+			"treasury:top-up",
+			windowStart,
+			1,
+		))
+	) {
+		return;
+	}
+
+	await sendRelayerTransaction(env, chain, (nonce) =>
+		getWalletClient(env, chain).writeContract({
+			address: chain.entryPoint,
+			abi: entryPointAbi,
+			functionName: "depositTo",
+			args: [paymaster.address],
+			value: amount,
+			nonce,
+		}),
+	);
+}
+
+/**
+ * Cron entry point: warns about low balances and tops up the paymaster's
+ * deposit on every chain this worker serves.
+ */
+export async function manageTreasury(env: Bindings, now = Date.now()) {
+	for (const chainId of Object.keys(CHAINS)) {
+		const chain = getSupportedChain(env, Number(chainId));
+		if (!chain) {
+			continue;
+		}
+
+		try {
+			await topUpPaymasterDeposit(env, chain, now);
+		} catch (error) {
+			console.error(`Treasury error on chain ${chainId}:`, error);
+		}
+	}
+}
@@ -0,0 +1,294 @@
+import type { Address, Hex } from "viem";
+import type { PackedUserOperation } from "viem/account-abstraction";
+import type {
+	AccountEventType,
+	ChainConfig,
+	DepositStatus,
+	RefundJobStatus,
+	WebhookEventType,
+} from "../../shared";
+import type { EntryPointErrorCode } from "./entryPointErrors";
+
+export type Bindings = {
+	/** Sepolia RPC URL; other chains use the binding named in the registry. */
+	RPC_URL: string;
+	BASE_SEPOLIA_RPC_URL?: string;
+	DEVNET_RPC_URL?: string;
+	PRIVATE_KEY: string;
+	DB?: D1Database;
+	WEBAUTHN_RP_ID?: string;
+	/** Comma-separated list of origins allowed in `clientDataJSON`. */
+	WEBAUTHN_ORIGINS?: string;
+	/** JSON-encoded user-operation policy; see `policy.ts`. */
+	USER_OP_POLICY?: string;
+	/** Deployed `VerifyingPaymaster`; sponsorship is disabled when unset. */
+	PAYMASTER_ADDRESS?: string;
+	/** Key of the paymaster's `verifyingSigner`; defaults to `PRIVATE_KEY`. */
+	PAYMASTER_SIGNER_KEY?: string;
+	/** Lifetime sponsorship budget per account, in wei. */
+	PAYMASTER_ACCOUNT_BUDGET?: string;
+	/** Relayer balance, in wei, below which funding and refunds are refused. */
+	RELAYER_BALANCE_FLOOR?: string;
+	/** Paymaster EntryPoint deposit, in wei, below which it is topped up. */
+	PAYMASTER_DEPOSIT_FLOOR?: string;
+	/** Deposit, in wei, that a top-up brings the paymaster back to. */
+	PAYMASTER_DEPOSIT_TARGET?: string;
+	/** "true" to send new accounts ETH; defaults to true only without a paymaster. */
+	FUND_NEW_ACCOUNTS?: string;
+	/** Bearer token for the `/webhooks` routes; they answer 503 when unset. */
+	WEBHOOK_ADMIN_TOKEN?: string;
+	/** Password of user `admin` on the `/admin` dashboard; 503 when unset. */
+	ADMIN_PASSWORD?: string;
+	/** Overrides the registry's confirmation depth on every chain. */
+	DEPOSIT_CONFIRMATIONS?: string;
+	/** Overrides the registry's `depositStartBlock` on every chain. */
+	DEPOSIT_START_BLOCK?: string;
+	/** `/account/create` calls allowed per client IP and hour; default 10. */
+	ACCOUNT_CREATE_IP_LIMIT?: string;
+	/** `/account/create` calls allowed per passkey and day; default 3. */
+	ACCOUNT_CREATE_CREDENTIAL_LIMIT?: string;
+	/** Wei each chain may spend funding new accounts per UTC day. */
+	DAILY_FUNDING_BUDGET?: string;
+	/** Comma-separated invite codes; when set, `/account/create` needs one. */
+	ACCOUNT_INVITE_CODES?: string;
+	/** "true" to make `/account/create` require a proof of work. */
+	REQUIRE_ACCOUNT_PROOF_OF_WORK?: string;
+};
+
+/** Registry chain the worker has an RPC URL and factory deployment for. */
+export type SupportedChain = ChainConfig & { factory: Address };
+
+export type AppEnv = {
+	Bindings: Bindings;
+	Variables: { chain: SupportedChain };
+};
+
+export type DepositRecord = {
+	/** Lower-cased token address, or `NATIVE_TOKEN_ADDRESS` for ETH. */
+	token: Address;
+	sender: Address;
+	amount: bigint;
+	txHash: Hex;
+	/** `NATIVE_DEPOSIT_LOG_INDEX` for native transfers, which emit no log. */
+	logIndex: number;
+	blockNumber: bigint;
+	/** Missing for deposits recorded before reorgs were tracked. */
+	blockHash?: Hex;
+	blockTimestamp: number;
+	/** Counted up to the chain's confirmation depth. */
+	confirmations: number;
+	/** Below the confirmation depth, so its block may still be reorged out. */
+	pending: boolean;
+	/** Confirmed and at least its token's `minRefundAmount`. */
+	ready: boolean;
+	/** Sum of every refund of this deposit so far. */
+	refundedAmount: bigint;
+	/** Set once `refundedAmount` reaches `amount`. */
+	refunded: boolean;
+	/** Transaction of the latest refund. */
+	refundTxHash?: Hex;
+};
+
+export type { DepositStatus, RefundJobStatus, WebhookEventType };
+
+/** Filters for `listDeposits`; every field that is set narrows the result. */
+export type DepositQuery = {
+	status?: DepositStatus;
+	sender?: Address;
+	/** Inclusive bounds on `blockTimestamp`, in Unix seconds. */
+	from?: number;
+	to?: number;
+	/** `nextCursor` of the previous page. */
+	cursor?: string;
+	/** Page size; every matching deposit when unset. */
+	limit?: number;
+};
+
+export type DepositPage = {
+	/** Newest first. */
+	deposits: DepositRecord[];
+	/** Set when more deposits match the query. */
+	nextCursor?: string;
+};
+
+/** One signed refund of (part of) a deposit, kept as an audit trail. */
+export type RefundRecord = {
+	depositTxHash: Hex;
+	depositLogIndex: number;
+	token: Address;
+	amount: bigint;
+	recipient: Address;
+	reason?: string;
+	/** Hash of the user operation the passkey signed to authorize the refund. */
+	userOpHash: Hex;
+	/** ABI-encoded WebAuthn signature over `userOpHash`. */
+	signature: Hex;
+	transactionHash: Hex;
+	createdAt: number;
+};
+
+/** Refund of (part of) a deposit as requested, before it has a transaction. */
+export type RefundIntent = Pick<
+	RefundRecord,
+	| "depositTxHash"
+	| "depositLogIndex"
+	| "token"
+	| "amount"
+	| "recipient"
+	| "reason"
+>;
+
+/** Relayer transaction carrying a `handleOps` call. */
+export type RelayerTransaction = {
+	hash: Hex;
+	nonce: number;
+	gas: bigint;
+	maxFeePerGas: bigint;
+	maxPriorityFeePerGas: bigint;
+	/** Unset until the signed transaction has been broadcast. */
+	sentAt?: number;
+};
+
+export type RefundJob = {
+	id: string;
+	account: Address;
+	/** `Idempotency-Key` header of the request that created the job. */
+	idempotencyKey?: string;
+	/** SHA-256 of the request body, to reject reused keys. */
+	requestHash: Hex;
+	status: RefundJobStatus;
+	userOpHash: Hex;
+	/** Signed operation, ready for `handleOps`. */
+	userOp: PackedUserOperation;
+	intents: RefundIntent[];
+	/** Bundle that carries the operation, once claimed from the queue. */
+	bundleId?: string;
+	/** Copies of the bundle's transaction fields. */
+	transaction?: RelayerTransaction;
+	/** Earlier transactions of the bundle, superseded by fee bumps. */
+	replacedTransactionHashes: Hex[];
+	error?: string;
+	/** Set when the failure was decoded from an EntryPoint revert. */
+	errorCode?: EntryPointErrorCode;
+	createdAt: number;
+	updatedAt: number;
+};
+
+/** `confirmed` bundles were mined, whatever their operations' outcomes. */
+export type RelayerBundleStatus = Exclude<RefundJobStatus, "queued">;
+
+/** One `handleOps` transaction carrying the operations of several jobs. */
+export type RelayerBundle = {
+	id: string;
+	status: RelayerBundleStatus;
+	/** Jobs in `handleOps` order. */
+	jobIds: string[];
+	transaction: RelayerTransaction;
+	replacedTransactionHashes: Hex[];
+	createdAt: number;
+	updatedAt: number;
+};
+
+export type WebAuthnPublicKey = {
+	x: Hex;
+	y: Hex;
+};
+
+/**
+ * Older blocks a deposit sync still has to scan, from `floor` up to but not
+ * including `before`, the lowest block scanned so far.
+ */
+export type DepositBackfill = {
+	floor: bigint;
+	before: bigint;
+};
+
+export type AccountSession = {
+	credentialId: string;
+	accountAddress: Address;
+	// Missing for accounts registered before public keys were captured.
+	publicKey?: WebAuthnPublicKey;
+	lastSyncedBlock?: bigint;
+	/** When `lastSyncedBlock` was last advanced. */
+	lastSyncedAt?: number;
+	/** Blocks before the first sync that are still to be scanned. */
+	backfill?: DepositBackfill;
+	/** Last time the account's owner used the API; drives scanner eviction. */
+	lastActiveAt?: number;
+};
+
+/** Login issued by a passkey assertion, looked up by its bearer token. */
+export type AuthSession = {
+	/** SHA-256 of the token; the token itself is never stored. */
+	tokenHash: Hex;
+	account: Address;
+	credentialId: string;
+	expiresAt: number;
+	createdAt: number;
+};
+
+export type UserOperationRecord = {
+	userOpHash: Hex;
+	entryPoint: Address;
+	userOp: PackedUserOperation;
+	transactionHash: Hex;
+	submittedAt: number;
+};
+
+/**
+ * Gas the paymaster signed for but has not charged yet. Only one op can use a
+ * nonce, so each nonce holds at most one reservation.
+ */
+export type SponsorshipReservation = {
+	account: Address;
+	nonce: bigint;
+	/** Maximum gas cost, in wei. */
+	maxCost: bigint;
+	/** Unix seconds after which the paymaster signature no longer validates. */
+	validUntil: number;
+};
+
+export type WebhookSubscription = {
+	id: string;
+	/** Unset for subscriptions to every account on the chain. */
+	account?: Address;
+	url: string;
+	/** Key for the `X-Webhook-Signature` HMAC. */
+	secret: string;
+	events: WebhookEventType[];
+	createdAt: number;
+};
+
+export type WebhookDelivery = {
+	id: string;
+	subscriptionId: string;
+	eventId: string;
+	eventType: WebhookEventType;
+	/** JSON body exactly as sent, so retries keep the original signature input. */
+	payload: string;
+	status: "pending" | "delivered" | "failed";
+	attempts: number;
+	lastStatusCode?: number;
+	lastError?: string;
+	nextAttemptAt?: number;
+	createdAt: number;
+	deliveredAt?: number;
+};
+
+/** Account event kept for event streams to read back. */
+export type AccountEventRecord = {
+	/** Grows with every event logged, so streams resume after the last one. */
+	sequence: number;
+	id: string;
+	type: AccountEventType;
+	account: Address;
+	/** The event as streamed, JSON-encoded. */
+	payload: string;
+	createdAt: number;
+};
+
+/** Chain head as last read by the scheduled scan. */
+export type ChainHead = {
+	blockNumber: bigint;
+	seenAt: number;
+};
@@ -0,0 +1,135 @@
+import {
+	type Address,
+	type Hex,
+	concat,
+	hashTypedData,
+	hexToBigInt,
+	numberToHex,
+	pad,
+	size,
+	slice,
+} from "viem";
+import type {
+	PackedUserOperation,
+	UserOperation,
+} from "viem/account-abstraction";
+import { normalizeAddress } from "./utils";
+
+const packedUserOperationTypes = {
+	PackedUserOperation: [
+		{ type: "address", name: "sender" },
+		{ type: "uint256", name: "nonce" },
+		{ type: "bytes", name: "initCode" },
+		{ type: "bytes", name: "callData" },
+		{ type: "bytes32", name: "accountGasLimits" },
+		{ type: "uint256", name: "preVerificationGas" },
+		{ type: "bytes32", name: "gasFees" },
+		{ type: "bytes", name: "paymasterAndData" },
+	],
+} as const;
+
+/**
+ * Mirrors `EntryPoint.getUserOpHash` for v0.8, which is the EIP-712 digest of
+ * the packed operation, so the hash can be checked without an RPC round trip.
+ */
+export const getPackedUserOperationHash = (
+	userOp: PackedUserOperation,
+	chainId: number,
+	entryPoint: Address,
+): Hex =>
+	hashTypedData({
+		domain: {
+			name: "ERC4337",
+			version: "1",
+			chainId,
+			verifyingContract: entryPoint,
+		},
+		types: packedUserOperationTypes,
+		primaryType: "PackedUserOperation",
+		message: {
+			sender: userOp.sender,
+			nonce: userOp.nonce,
+			initCode: userOp.initCode,
+			callData: userOp.callData,
+			accountGasLimits: userOp.accountGasLimits,
+			preVerificationGas: userOp.preVerificationGas,
+			gasFees: userOp.gasFees,
+			paymasterAndData: userOp.paymasterAndData,
+		},
+	});
+
+/** Packs two uint128 values the way `accountGasLimits` and `gasFees` expect. */
+export const packUint128Pair = (high: bigint, low: bigint): Hex =>
+	concat([
+		pad(numberToHex(high), { size: 16 }),
+		pad(numberToHex(low), { size: 16 }),
+	]);
+
+/** Splits `initCode` into the factory and its calldata; empty for deployed accounts. */
+export const splitInitCode = (initCode: Hex) =>
+	size(initCode) >= 20
+		? {
+				factory: slice(initCode, 0, 20) as Address,
+				factoryData: size(initCode) > 20 ? slice(initCode, 20) : ("0x" as Hex),
+			}
+		: undefined;
+
+/** Only our `AccountFactory` may deploy senders, so the relayer never pays for foreign code. */
+export const isSupportedInitCode = (initCode: Hex, factory: Address) => {
+	const split = splitInitCode(initCode);
+	return (
+		!split ||
+		normalizeAddress(split.factory) === normalizeAddress(factory)
+	);
+};
+
+const unpackUint128Pair = (packed: Hex): [bigint, bigint] => [
+	hexToBigInt(slice(packed, 0, 16)),
+	hexToBigInt(slice(packed, 16, 32)),
+];
+
+/** Inverse of viem's `toPackedUserOperation`, used to answer bundler RPC reads. */
+export const unpackUserOperation = (
+	packed: PackedUserOperation,
+): UserOperation<"0.8"> => {
+	const [verificationGasLimit, callGasLimit] = unpackUint128Pair(
+		packed.accountGasLimits,
+	);
+	const [maxPriorityFeePerGas, maxFeePerGas] = unpackUint128Pair(
+		packed.gasFees,
+	);
+
+	const userOperation: UserOperation<"0.8"> = {
+		sender: packed.sender,
+		nonce: packed.nonce,
+		callData: packed.callData,
+		callGasLimit,
+		verificationGasLimit,
+		preVerificationGas: packed.preVerificationGas,
+		maxFeePerGas,
+		maxPriorityFeePerGas,
+		signature: packed.signature,
+	};
+
+	const initCode = splitInitCode(packed.initCode);
+	if (initCode) {
+		userOperation.factory = initCode.factory;
+		userOperation.factoryData = initCode.factoryData;
+	}
+
+	if (size(packed.paymasterAndData) >= 52) {
+		userOperation.paymaster = slice(packed.paymasterAndData, 0, 20) as Address;
+		userOperation.paymasterVerificationGasLimit = hexToBigInt(
+			slice(packed.paymasterAndData, 20, 36),
+		);
+		userOperation.paymasterPostOpGasLimit = hexToBigInt(
+			slice(packed.paymasterAndData, 36, 52),
+		);
+		userOperation.paymasterData =
+			size(packed.paymasterAndData) > 52
+				? slice(packed.paymasterAndData, 52)
+				: "0x";
+	}
+
+	return userOperation;
+};
@@ -0,0 +1,16 @@
+import { type Address, BaseError } from "viem";
+
+export const normalizeAddress = (value: string) =>
+	value.toLowerCase() as Address;
+
+/** UTC calendar day (`YYYY-MM-DD`) used to bucket daily limits. */
+export const getUtcDay = (timestamp = Date.now()) =>
+	new Date(timestamp).toISOString().slice(0, 10);
+
+/** One-line message of an error; viem's own messages run over many lines. */
+export const getErrorMessage = (error: unknown) =>
+	error instanceof BaseError
+		? error.shortMessage
+		: error instanceof Error
+			? error.message
+			: String(error);
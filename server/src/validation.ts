@@ -0,0 +1,40 @@
+import { validator } from "hono/validator";
+import { type Schema, SchemaError } from "../../shared";
+
+type ValidationTarget = "json" | "form" | "query" | "param" | "header";
+
+// Field paths start with the part of the request they were read from.
+const TARGET_PATHS: Record<ValidationTarget, string> = {
+	json: "body",
+	form: "body",
+	query: "query",
+	param: "params",
+	header: "headers",
+};
+
+/** 400 body of a request that does not match its route's schema. */
+export const serializeValidationError = (error: SchemaError) => ({
+	error: error.message,
+	code: "invalid_request" as const,
+	field: error.path,
+});
+
+/**
+ * Parses part of the request with a schema, usually from `API_ROUTES`,
+ * answering 400 with the first invalid field. Handlers read the result with
+ * `c.req.valid`.
+ */
+export const validate = <Target extends ValidationTarget, T>(
+	target: Target,
+	schema: Schema<T>,
+) =>
+	validator(target, (value, c) => {
+		try {
+			return schema.parse(value, TARGET_PATHS[target]);
+		} catch (error) {
+			if (error instanceof SchemaError) {
+				return c.json(serializeValidationError(error), 400);
+			}
+			throw error;
+		}
+	});
@@ -0,0 +1,194 @@
+import { Base64, Bytes, Hash, P256 } from "ox";
+import {
+	type Hex,
+	decodeAbiParameters,
+	encodeAbiParameters,
+	hexToBigInt,
+} from "viem";
+import type { Bindings, WebAuthnPublicKey } from "./types";
+
+const DEFAULT_RP_ID = "localhost";
+const DEFAULT_ORIGINS = ["http://localhost:5173"];
+const P256_HALF_N =
+	0x7fffffff800000007fffffffffffffffde737d56d38bcf4279dce5617e3192a8n;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKUP_STATE = 0x10;
+
+export type WebAuthnMetadata = {
+	challengeIndex: string | number;
+	typeIndex: string | number;
+	authenticatorData: Hex;
+	clientDataJSON: string;
+};
+
+export type WebAuthnAssertion = {
+	metadata: WebAuthnMetadata;
+	rHex: Hex;
+	sHex: Hex;
+};
+
+// Layout expected by OpenZeppelin's `SignerWebAuthn._rawSignatureValidation`.
+const webAuthnSignatureParameters = [
+	{ name: "r", type: "bytes32" },
+	{ name: "s", type: "bytes32" },
+	{ name: "challengeIndex", type: "uint256" },
+	{ name: "typeIndex", type: "uint256" },
+	{ name: "authenticatorData", type: "bytes" },
+	{ name: "clientDataJSON", type: "string" },
+] as const;
+
+export type WebAuthnConfig = {
+	rpId: string;
+	allowedOrigins: string[];
+	requireUserVerification: boolean;
+};
+
+export type WebAuthnVerificationResult =
+	| { valid: true }
+	| { valid: false; error: string };
+
+export const getWebAuthnConfig = (env: Bindings): WebAuthnConfig => ({
+	rpId: env.WEBAUTHN_RP_ID || DEFAULT_RP_ID,
+	allowedOrigins: env.WEBAUTHN_ORIGINS
+		? env.WEBAUTHN_ORIGINS.split(",").map((origin) => origin.trim())
+		: DEFAULT_ORIGINS,
+	requireUserVerification: true,
+});
+
+export const encodeWebAuthnSignature = ({
+	metadata,
+	rHex,
+	sHex,
+}: WebAuthnAssertion): Hex =>
+	encodeAbiParameters(webAuthnSignatureParameters, [
+		rHex,
+		sHex,
+		BigInt(metadata.challengeIndex),
+		BigInt(metadata.typeIndex),
+		metadata.authenticatorData,
+		metadata.clientDataJSON,
+	]);
+
+export const decodeWebAuthnSignature = (signature: Hex): WebAuthnAssertion => {
+	const [
+		rHex,
+		sHex,
+		challengeIndex,
+		typeIndex,
+		authenticatorData,
+		clientDataJSON,
+	] = decodeAbiParameters(webAuthnSignatureParameters, signature);
+
+	return {
+		metadata: {
+			challengeIndex: Number(challengeIndex),
+			typeIndex: Number(typeIndex),
+			authenticatorData,
+			clientDataJSON,
+		},
+		rHex,
+		sHex,
+	};
+};
+
+const fail = (error: string): WebAuthnVerificationResult => ({
+	valid: false,
+	error,
+});
+
+/**
+ * Performs the same checks as OpenZeppelin's `WebAuthn.verify` (plus origin and
+ * RP ID binding) so invalid assertions are rejected before any RPC call.
+ */
+export function verifyWebAuthnAssertion(
+	assertion: WebAuthnAssertion,
+	challenge: Hex,
+	publicKey: WebAuthnPublicKey,
+	config: WebAuthnConfig,
+): WebAuthnVerificationResult {
+	const { metadata } = assertion;
+	const authenticatorData = Bytes.fromHex(metadata.authenticatorData);
+
+	if (authenticatorData.length < 37) {
+		return fail("authenticatorData is too short");
+	}
+
+	const rpIdHash = Hash.sha256(Bytes.fromString(config.rpId));
+	if (!Bytes.isEqual(authenticatorData.slice(0, 32), rpIdHash)) {
+		return fail("authenticatorData RP ID hash does not match");
+	}
+
+	const flags = authenticatorData[32];
+	if ((flags & FLAG_USER_PRESENT) === 0) {
+		return fail("User presence (UP) flag is not set");
+	}
+	if (config.requireUserVerification && (flags & FLAG_USER_VERIFIED) === 0) {
+		return fail("User verification (UV) flag is not set");
+	}
+	if ((flags & FLAG_BACKUP_ELIGIBLE) === 0 && (flags & FLAG_BACKUP_STATE) !== 0) {
+		return fail("Backup state flag set without backup eligibility");
+	}
+
+	const { clientDataJSON } = metadata;
+	let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+	try {
+		clientData = JSON.parse(clientDataJSON);
+	} catch {
+		return fail("clientDataJSON is not valid JSON");
+	}
+
+	// The contract locates fields by index, so both the parsed value and the
+	// indexed substring must agree.
+	const expectedType = '"type":"webauthn.get"';
+	if (
+		clientData.type !== "webauthn.get" ||
+		!clientDataJSON.startsWith(expectedType, Number(metadata.typeIndex))
+	) {
+		return fail("clientDataJSON type must be webauthn.get");
+	}
+
+	const encodedChallenge = Base64.fromHex(challenge, { url: true, pad: false });
+	if (
+		clientData.challenge !== encodedChallenge ||
+		!clientDataJSON.startsWith(
+			`"challenge":"${encodedChallenge}"`,
+			Number(metadata.challengeIndex),
+		)
+	) {
+		return fail("clientDataJSON challenge does not match the expected hash");
+	}
+
+	if (
+		typeof clientData.origin !== "string" ||
+		!config.allowedOrigins.includes(clientData.origin)
+	) {
+		return fail(`Origin ${String(clientData.origin)} is not allowed`);
+	}
+
+	const r = hexToBigInt(assertion.rHex);
+	const s = hexToBigInt(assertion.sHex);
+	if (r === 0n || s === 0n || s > P256_HALF_N) {
+		return fail("Signature is malformed or not in low-s form");
+	}
+
+	const payload = Bytes.concat(
+		authenticatorData,
+		Hash.sha256(Bytes.fromString(clientDataJSON)),
+	);
+
+	const verified = P256.verify({
+		hash: true,
+		payload,
+		publicKey: {
+			prefix: 4,
+			x: hexToBigInt(publicKey.x),
+			y: hexToBigInt(publicKey.y),
+		},
+		signature: { r, s },
+	});
+
+	return verified ? { valid: true } : fail("Invalid P-256 signature");
+}
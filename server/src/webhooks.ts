@@ -0,0 +1,215 @@
+import { waitUntil } from "cloudflare:workers";
+import { type Address, bytesToHex } from "viem";
+import { CHAINS } from "../../shared";
+import { getSupportedChain } from "./clients";
+import { type AccountStorage, getStorage } from "./storage";
+import type {
+	Bindings,
+	WebhookDelivery,
+	WebhookEventType,
+	WebhookSubscription,
+} from "./types";
+import { normalizeAddress } from "./utils";
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+// Retries wait 1, 5, 25 and 125 minutes after the failed attempt; the
+// per-minute cron sends them once due.
+const RETRY_BASE_DELAY_MS = 60_000;
+const RETRY_BACKOFF_FACTOR = 5;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A delivery is not due while an attempt may still be in flight, so the cron
+// only picks up attempts whose isolate went away before recording them.
+const ATTEMPT_LEASE_MS = 2 * DELIVERY_TIMEOUT_MS;
+const MAX_RETRIES_PER_RUN = 50;
+
+export type WebhookEvent = {
+	id: string;
+	type: WebhookEventType;
+	chainId: number;
+	account: Address;
+	createdAt: number;
+	data: Record<string, unknown>;
+};
+
+export const createWebhookSecret = () =>
+	bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}` keyed by the subscription secret,
+ * sent as `X-Webhook-Signature: sha256=<hex>`.
+ */
+export async function signWebhookPayload(
+	secret: string,
+	timestamp: number,
+	body: string,
+) {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		key,
+		encoder.encode(`${timestamp}.${body}`),
+	);
+	return bytesToHex(new Uint8Array(signature)).slice(2);
+}
+
+const isSubscribed = (subscription: WebhookSubscription, event: WebhookEvent) =>
+	subscription.events.includes(event.type) &&
+	(!subscription.account ||
+		normalizeAddress(subscription.account) === normalizeAddress(event.account));
+
+const recordFailure = (
+	delivery: WebhookDelivery,
+	error: string,
+	statusCode?: number,
+): WebhookDelivery => {
+	const attempts = delivery.attempts + 1;
+	const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+	return {
+		...delivery,
+		status: exhausted ? "failed" : "pending",
+		attempts,
+		lastStatusCode: statusCode,
+		lastError: error,
+		nextAttemptAt: exhausted
+			? undefined
+			: Date.now() + RETRY_BASE_DELAY_MS * RETRY_BACKOFF_FACTOR ** (attempts - 1),
+	};
+};
+
+async function attemptDelivery(
+	storage: AccountStorage,
+	delivery: WebhookDelivery,
+) {
+	const subscription = (await storage.listWebhookSubscriptions()).find(
+		(entry) => entry.id === delivery.subscriptionId,
+	);
+	if (!subscription) {
+		return;
+	}
+
+	const timestamp = Math.floor(Date.now() / 1000);
+	let next: WebhookDelivery;
+	try {
+		const response = await fetch(subscription.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"X-Webhook-Id": delivery.eventId,
+				"X-Webhook-Event": delivery.eventType,
+				"X-Webhook-Timestamp": timestamp.toString(),
+				"X-Webhook-Signature": `sha256=${await signWebhookPayload(
+					subscription.secret,
+					timestamp,
+					delivery.payload,
+				)}`,
+			},
+			body: delivery.payload,
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+		next = response.ok
+			? {
+					...delivery,
+					status: "delivered",
+					attempts: delivery.attempts + 1,
+					lastStatusCode: response.status,
+					lastError: undefined,
+					nextAttemptAt: undefined,
+					deliveredAt: Date.now(),
+				}
+			: recordFailure(delivery, `HTTP ${response.status}`, response.status);
+	} catch (error) {
+		next = recordFailure(delivery, `${error}`);
+	}
+
+	await storage.saveWebhookDelivery(next);
+}
+
+const sendDeliveries = (
+	storage: AccountStorage,
+	deliveries: WebhookDelivery[],
+) =>
+	Promise.all(
+		deliveries.map((delivery) =>
+			attemptDelivery(storage, delivery).catch((error) => {
+				console.error(`Webhook delivery ${delivery.id} error:`, error);
+			}),
+		),
+	);
+
+/**
+ * Queues a delivery of the event to every matching subscription on the
+ * storage's chain. The first attempts run in the background, kept alive by
+ * `waitUntil`, and never block the caller; the cron retries failed ones.
+ */
+export async function emitWebhookEvent(
+	storage: AccountStorage,
+	event: WebhookEvent,
+) {
+	try {
+		const subscriptions = (await storage.listWebhookSubscriptions()).filter(
+			(subscription) => isSubscribed(subscription, event),
+		);
+		const body = JSON.stringify(event);
+
+		const deliveries: WebhookDelivery[] = [];
+		for (const subscription of subscriptions) {
+			const delivery: WebhookDelivery = {
+				id: crypto.randomUUID(),
+				subscriptionId: subscription.id,
+				eventId: event.id,
+				eventType: event.type,
+				payload: body,
+				status: "pending",
+				attempts: 0,
+				nextAttemptAt: Date.now() + ATTEMPT_LEASE_MS,
+				createdAt: event.createdAt,
+			};
+			await storage.saveWebhookDelivery(delivery);
+			deliveries.push(delivery);
+		}
+		waitUntil(sendDeliveries(storage, deliveries));
+	} catch (error) {
+		console.error(`Failed to emit ${event.type} webhook:`, error);
+	}
+}
+
+/**
+ * Cron entry point: sends the pending deliveries that are due on every chain
+ * this worker serves.
+ */
+export async function retryWebhookDeliveries(
+	env: Bindings,
+	now = Date.now(),
+) {
+	for (const chainId of Object.keys(CHAINS)) {
+		if (!getSupportedChain(env, Number(chainId))) {
+			continue;
+		}
+
+		try {
+			const storage = getStorage(env, Number(chainId));
+			const due = await storage.listDueWebhookDeliveries(
+				now,
+				MAX_RETRIES_PER_RUN,
+			);
+			// Leased first, so an overlapping run does not send them twice.
+			const leased = due.map((delivery) => ({
+				...delivery,
+				nextAttemptAt: now + ATTEMPT_LEASE_MS,
+			}));
+			for (const delivery of leased) {
+				await storage.saveWebhookDelivery(delivery);
+			}
+			await sendDeliveries(storage, leased);
+		} catch (error) {
+			console.error(`Webhook retry error on chain ${chainId}:`, error);
+		}
+	}
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests run in Node, without the Cloudflare and SSR plugins of the build.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts']
+  }
+})
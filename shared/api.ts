@@ -0,0 +1,543 @@
+import {
+	type Infer,
+	type Schema,
+	address,
+	array,
+	boolean,
+	bytes32,
+	hex,
+	integer,
+	literal,
+	nullable,
+	object,
+	oneOf,
+	optional,
+	string,
+	uintParam,
+	uintString,
+	union,
+	unknown,
+} from "./schema";
+
+// Request and response shapes of every worker route. The worker validates
+// requests against them and `createApiClient` is typed from them.
+
+export const DEPOSIT_STATUSES = ["pending", "ready", "refunded"] as const;
+
+export const REFUND_JOB_STATUSES = [
+	"queued",
+	"simulated",
+	"submitted",
+	"replaced",
+	"confirmed",
+	"failed",
+] as const;
+
+export const WEBHOOK_EVENT_TYPES = [
+	"deposit.detected",
+	"deposit.confirmed",
+	"deposit.ready",
+	"deposit.removed",
+	"refund.submitted",
+	"refund.confirmed",
+	"refund.failed",
+] as const;
+
+/** Webhook events plus confirmation progress, which is only streamed. */
+export const ACCOUNT_EVENT_TYPES = [
+	...WEBHOOK_EVENT_TYPES,
+	"deposit.updated",
+] as const;
+
+export const MAX_REFUND_REASON_LENGTH = 280;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+export const MAX_DEPOSIT_PAGE_SIZE = 100;
+export const MAX_INVITE_CODE_LENGTH = 64;
+
+/**
+ * `ready` deposits can still be refunded (fully refunded ones are `refunded`);
+ * `pending` ones are below the confirmation depth.
+ */
+export type DepositStatus = (typeof DEPOSIT_STATUSES)[number];
+/**
+ * `simulated` jobs are in a signed bundle; `replaced` ones had its transaction
+ * re-sent with higher fees. `confirmed` and `failed` are final.
+ */
+export type RefundJobStatus = (typeof REFUND_JOB_STATUSES)[number];
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+export type AccountEventType = (typeof ACCOUNT_EVENT_TYPES)[number];
+
+// Responses
+
+const tokenSchema = object({
+	address: address(),
+	symbol: string(),
+	decimals: integer({ min: 0 }),
+	/** Base units. */
+	minRefundAmount: uintString(),
+});
+
+const scannerStatusSchema = object({
+	/** Whether the account is recent enough to be in the scheduled scan. */
+	active: boolean(),
+	/** Set when the account has not been synced for several cron runs. */
+	stale: boolean(),
+	latestBlock: uintString(),
+	lastSyncedBlock: nullable(uintString()),
+	lastSyncedAt: nullable(integer()),
+	lagBlocks: nullable(integer()),
+});
+
+const depositSchema = object({
+	token: address(),
+	sender: address(),
+	amount: uintString(),
+	txHash: bytes32(),
+	logIndex: integer(),
+	blockNumber: uintString(),
+	blockHash: nullable(bytes32()),
+	blockTimestamp: integer(),
+	confirmations: integer(),
+	/** Below the chain's confirmation depth, so it may still be reorged out. */
+	pending: boolean(),
+	ready: boolean(),
+	refundedAmount: uintString(),
+	refunded: boolean(),
+	refundTxHash: nullable(bytes32()),
+});
+
+const depositsPageSchema = object({
+	/** Newest first. */
+	deposits: array(depositSchema),
+	nextCursor: nullable(string()),
+	tokens: array(tokenSchema),
+	/** Null for accounts the worker has no session for. */
+	scanner: nullable(scannerStatusSchema),
+});
+
+const refundSchema = object({
+	depositTxHash: bytes32(),
+	depositLogIndex: integer(),
+	token: address(),
+	amount: uintString(),
+	recipient: address(),
+	reason: nullable(string()),
+	userOpHash: bytes32(),
+	signature: hex(),
+	/** Null while the refund's job has no transaction. */
+	transactionHash: nullable(bytes32()),
+	createdAt: integer(),
+});
+
+const refundJobSchema = object({
+	id: string(),
+	account: address(),
+	idempotencyKey: nullable(string()),
+	status: oneOf(REFUND_JOB_STATUSES),
+	userOpHash: bytes32(),
+	intents: array(
+		object({
+			depositTxHash: bytes32(),
+			depositLogIndex: integer(),
+			token: address(),
+			amount: uintString(),
+			recipient: address(),
+			reason: nullable(string()),
+		}),
+	),
+	bundleId: nullable(string()),
+	transactionHash: nullable(bytes32()),
+	maxFeePerGas: nullable(uintString()),
+	replacedTransactionHashes: array(bytes32()),
+	error: nullable(string()),
+	/** Set when the job failed on a decoded EntryPoint revert. */
+	errorCode: nullable(string()),
+	createdAt: integer(),
+	updatedAt: integer(),
+});
+
+const accountShape = {
+	success: literal(true),
+	accountAddress: address(),
+	chainId: integer(),
+	deployed: boolean(),
+	factory: address(),
+	factoryData: hex(),
+	publicKey: object({ qx: bytes32(), qy: bytes32() }),
+};
+
+const webhookSubscriptionShape = {
+	id: string(),
+	/** Null for subscriptions to every account on the chain. */
+	account: nullable(address()),
+	url: string(),
+	events: array(oneOf(WEBHOOK_EVENT_TYPES)),
+	createdAt: integer(),
+};
+
+const webhookSubscriptionSchema = object(webhookSubscriptionShape);
+
+const webhookDeliverySchema = object({
+	id: string(),
+	eventId: string(),
+	eventType: oneOf(WEBHOOK_EVENT_TYPES),
+	status: oneOf(["pending", "delivered", "failed"]),
+	attempts: integer(),
+	lastStatusCode: nullable(integer()),
+	lastError: nullable(string()),
+	nextAttemptAt: nullable(integer()),
+	createdAt: integer(),
+	deliveredAt: nullable(integer()),
+	/** Event body exactly as delivered. */
+	payload: unknown(),
+});
+
+const accountEventSchema = object({
+	id: string(),
+	type: oneOf(ACCOUNT_EVENT_TYPES),
+	chainId: integer(),
+	account: address(),
+	createdAt: integer(),
+	data: object({
+		deposit: optional(depositSchema),
+		deposits: optional(array(depositSchema)),
+		job: optional(refundJobSchema),
+		refunds: optional(array(refundSchema)),
+	}),
+});
+
+const successSchema = object({ success: literal(true) });
+
+const sessionSchema = object({
+	/** Sent as `Authorization: Bearer <token>`. */
+	token: hex(),
+	expiresAt: integer(),
+});
+
+export type ApiToken = Infer<typeof tokenSchema>;
+export type ApiScannerStatus = Infer<typeof scannerStatusSchema>;
+export type ApiDeposit = Infer<typeof depositSchema>;
+export type ApiDepositsPage = Infer<typeof depositsPageSchema>;
+export type ApiRefund = Infer<typeof refundSchema>;
+export type ApiRefundJob = Infer<typeof refundJobSchema>;
+export type ApiWebhookSubscription = Infer<typeof webhookSubscriptionSchema>;
+export type ApiWebhookDelivery = Infer<typeof webhookDeliverySchema>;
+export type ApiSession = Infer<typeof sessionSchema>;
+/** Payload of the event stream's deposit and refund events. */
+export type ApiAccountEvent = Infer<typeof accountEventSchema>;
+
+/**
+ * Body of every error response. Decoded EntryPoint reverts set `code`,
+ * `aaCode` and `reason`; requests that fail validation get `invalid_request`
+ * and the offending `field`.
+ */
+export type ApiError = {
+	error?: string;
+	code?: string | null;
+	aaCode?: string | null;
+	reason?: string | null;
+	field?: string;
+	/** Seconds until a `429` request may be retried. */
+	retryAfter?: number;
+};
+
+// Requests
+
+const addressParams = object({ address: address() });
+
+const idParams = object({ id: string({ minLength: 1 }) });
+
+const depositQuery = object({
+	status: optional(oneOf(DEPOSIT_STATUSES)),
+	sender: optional(address()),
+	/** Inclusive bounds on `blockTimestamp`, in Unix seconds. */
+	from: optional(uintParam()),
+	to: optional(uintParam()),
+	/** `nextCursor` of the previous page. */
+	cursor: optional(uintString()),
+	limit: optional(uintParam({ min: 1, max: MAX_DEPOSIT_PAGE_SIZE })),
+});
+
+const webAuthnAssertionShape = {
+	metadata: object({
+		challengeIndex: union(integer({ min: 0 }), uintString()),
+		typeIndex: union(integer({ min: 0 }), uintString()),
+		authenticatorData: hex(),
+		clientDataJSON: string(),
+	}),
+	rHex: bytes32(),
+	sHex: bytes32(),
+};
+
+const userOpShape = {
+	sender: address(),
+	nonce: uintString(),
+	initCode: hex(),
+	callData: hex(),
+	accountGasLimits: bytes32(),
+	preVerificationGas: uintString(),
+	gasFees: bytes32(),
+	paymasterAndData: hex(),
+	signature: hex(),
+};
+
+const refundIntentInput = object({
+	deposit: object({
+		token: address(),
+		txHash: bytes32(),
+		/** -1 for native transfers, which emit no log. */
+		logIndex: integer({ min: -1 }),
+		sender: address(),
+		amount: uintString(),
+	}),
+	/** Base units to return; at most what is left unrefunded. */
+	amount: uintString(),
+	/** Defaults to the deposit's sender. */
+	recipient: optional(address()),
+	reason: optional(string({ maxLength: MAX_REFUND_REASON_LENGTH })),
+});
+
+type ApiRoute = {
+	method: "GET" | "POST" | "DELETE";
+	path: string;
+	params?: Schema<Record<string, string>>;
+	query?: Schema<Record<string, unknown>>;
+	headers?: Schema<Record<string, string | undefined>>;
+	body?: Schema<unknown>;
+	response: Schema<unknown>;
+	/** Answers with server-sent events rather than one JSON body. */
+	stream?: true;
+	/** Needs the session token of the account the request is about. */
+	auth?: true;
+};
+
+const route = <const R extends ApiRoute>(definition: R) => definition;
+
+export const API_ROUTES = {
+	createAccount: route({
+		method: "POST",
+		path: "/account/create",
+		body: object({
+			credentialId: string({ minLength: 1 }),
+			publicKey: object({ x: bytes32(), y: bytes32() }),
+			/** From `/account/login/challenge`, signed by the new passkey. */
+			challenge: bytes32(),
+			...webAuthnAssertionShape,
+			/** Required when the worker only lets invited users in. */
+			inviteCode: optional(string({ maxLength: MAX_INVITE_CODE_LENGTH })),
+			/** `solveProofOfWork` nonce, when the worker requires one. */
+			proofOfWork: optional(integer({ min: 0 })),
+		}),
+		response: object({
+			...accountShape,
+			fundingTransactionHash: nullable(bytes32()),
+			/** Null when the account was already registered; log in instead. */
+			session: nullable(sessionSchema),
+		}),
+	}),
+	createLoginChallenge: route({
+		method: "POST",
+		path: "/account/login/challenge",
+		response: object({ challenge: bytes32(), expiresAt: integer() }),
+	}),
+	login: route({
+		method: "POST",
+		path: "/account/login",
+		body: object({
+			credentialId: string({ minLength: 1 }),
+			challenge: bytes32(),
+			...webAuthnAssertionShape,
+		}),
+		response: object({
+			...accountShape,
+			credentialId: string(),
+			session: sessionSchema,
+		}),
+	}),
+	/** Swaps the session token for a new one with a fresh expiry. */
+	refreshSession: route({
+		method: "POST",
+		path: "/account/session/refresh",
+		response: object({ session: sessionSchema }),
+		auth: true,
+	}),
+	logout: route({
+		method: "POST",
+		path: "/account/logout",
+		response: successSchema,
+		auth: true,
+	}),
+	listDeposits: route({
+		method: "GET",
+		path: "/account/:address/deposits",
+		params: addressParams,
+		query: depositQuery,
+		response: depositsPageSchema,
+		auth: true,
+	}),
+	/**
+	 * A `snapshot` event with the first page of `listDeposits`, `scanner`
+	 * events with the scanner status and `ApiAccountEvent`s named by type.
+	 */
+	accountEvents: route({
+		method: "GET",
+		path: "/account/:address/events",
+		params: addressParams,
+		query: depositQuery,
+		response: accountEventSchema,
+		stream: true,
+		auth: true,
+	}),
+	listRefunds: route({
+		method: "GET",
+		path: "/account/:address/refunds",
+		params: addressParams,
+		response: object({ refunds: array(refundSchema) }),
+		auth: true,
+	}),
+	createWebhook: route({
+		method: "POST",
+		path: "/webhooks",
+		body: object({
+			url: string({
+				pattern: /^https?:\/\//i,
+				description: "an http(s) URL",
+			}),
+			/** Defaults to every event type. */
+			events: optional(array(oneOf(WEBHOOK_EVENT_TYPES), { minLength: 1 })),
+			/** Omit to subscribe to every account on the chain. */
+			account: optional(address()),
+		}),
+		/** The secret is only ever returned here. */
+		response: object({ ...webhookSubscriptionShape, secret: string() }),
+	}),
+	listWebhooks: route({
+		method: "GET",
+		path: "/webhooks",
+		response: object({
+			subscriptions: array(webhookSubscriptionSchema),
+		}),
+	}),
+	deleteWebhook: route({
+		method: "DELETE",
+		path: "/webhooks/:id",
+		params: idParams,
+		response: successSchema,
+	}),
+	listWebhookDeliveries: route({
+		method: "GET",
+		path: "/webhooks/:id/deliveries",
+		params: idParams,
+		response: object({ deliveries: array(webhookDeliverySchema) }),
+	}),
+	estimateGas: route({
+		method: "POST",
+		path: "/account/estimate-gas",
+		body: object({
+			userOp: object({
+				sender: userOpShape.sender,
+				nonce: userOpShape.nonce,
+				initCode: userOpShape.initCode,
+				callData: userOpShape.callData,
+				paymasterAndData: userOpShape.paymasterAndData,
+			}),
+		}),
+		response: object({
+			accountGasLimits: bytes32(),
+			gasFees: bytes32(),
+			preVerificationGas: uintString(),
+			verificationGasLimit: uintString(),
+			callGasLimit: uintString(),
+			maxFeePerGas: uintString(),
+			maxPriorityFeePerGas: uintString(),
+		}),
+		auth: true,
+	}),
+	sponsorUserOperation: route({
+		method: "POST",
+		path: "/paymaster/sponsor",
+		body: object({
+			userOp: object({
+				sender: userOpShape.sender,
+				nonce: userOpShape.nonce,
+				initCode: userOpShape.initCode,
+				callData: userOpShape.callData,
+				accountGasLimits: userOpShape.accountGasLimits,
+				preVerificationGas: userOpShape.preVerificationGas,
+				gasFees: userOpShape.gasFees,
+			}),
+			/** Alternate recipients named by the refund intents the op carries. */
+			intentRecipients: optional(array(address())),
+		}),
+		response: object({ paymasterAndData: hex(), validUntil: integer() }),
+		auth: true,
+	}),
+	createRefund: route({
+		method: "POST",
+		path: "/account/refund",
+		headers: object({
+			"idempotency-key": optional(
+				string({ maxLength: MAX_IDEMPOTENCY_KEY_LENGTH }),
+			),
+		}),
+		body: object({
+			accountAddress: address(),
+			...webAuthnAssertionShape,
+			userOp: object(userOpShape),
+			nonce: uintString(),
+			/** Executed in call order by the batch in `userOp.callData`. */
+			intents: array(refundIntentInput, { minLength: 1 }),
+		}),
+		response: object({ job: refundJobSchema }),
+		auth: true,
+	}),
+	getRefundJob: route({
+		method: "GET",
+		path: "/refunds/:id",
+		params: idParams,
+		response: object({ job: refundJobSchema }),
+		auth: true,
+	}),
+	getTreasury: route({
+		method: "GET",
+		path: "/treasury",
+		response: object({
+			chainId: integer(),
+			/** The EOA that pays for funding, deployments and `handleOps` gas. */
+			relayer: object({
+				address: address(),
+				balance: uintString(),
+				/** Funding and refunds are refused while `balance` is below it. */
+				floor: uintString(),
+				belowFloor: boolean(),
+			}),
+			/** Null when no paymaster is configured. */
+			paymaster: nullable(
+				object({
+					address: address(),
+					/** The paymaster's EntryPoint deposit, which pays sponsored gas. */
+					deposit: uintString(),
+					/** Below it, the cron trigger tops the deposit up to `target`. */
+					floor: uintString(),
+					target: uintString(),
+					belowFloor: boolean(),
+				}),
+			),
+		}),
+	}),
+} as const;
+
+export type ApiRouteName = keyof typeof API_ROUTES;
+
+type RouteField<
+	N extends ApiRouteName,
+	K extends keyof ApiRoute,
+> = (typeof API_ROUTES)[N] extends { [P in K]: Schema<infer T> } ? T : never;
+
+/** Validated `params`, `query`, `headers` or `body` of the route. */
+export type ApiInput<
+	N extends ApiRouteName,
+	K extends "params" | "query" | "headers" | "body",
+> = RouteField<N, K>;
+
+export type ApiResponse<N extends ApiRouteName> = RouteField<N, "response">;
@@ -0,0 +1,126 @@
+import {
+	API_ROUTES,
+	type ApiError,
+	type ApiInput,
+	type ApiResponse,
+	type ApiRouteName,
+} from "./api";
+
+type Fetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+type Field<N extends ApiRouteName, K extends "params" | "body"> = [
+	ApiInput<N, K>,
+] extends [never]
+	? { [P in K]?: never }
+	: { [P in K]: ApiInput<N, K> };
+
+/** Everything a call to the route needs; query and headers are optional. */
+export type ApiRequest<N extends ApiRouteName> = Field<N, "params"> &
+	Field<N, "body"> & {
+		query?: ApiInput<N, "query">;
+		/** Extra headers, e.g. the admin `Authorization` of the webhook routes. */
+		headers?: Partial<ApiInput<N, "headers">> & Record<string, string>;
+	};
+
+type JsonRouteName = {
+	[N in ApiRouteName]: (typeof API_ROUTES)[N] extends { stream: true }
+		? never
+		: N;
+}[ApiRouteName];
+
+type ApiMethod<N extends ApiRouteName> =
+	Record<string, never> extends ApiRequest<N>
+		? (request?: ApiRequest<N>) => Promise<ApiResponse<N>>
+		: (request: ApiRequest<N>) => Promise<ApiResponse<N>>;
+
+export type ApiClient = { [N in JsonRouteName]: ApiMethod<N> } & {
+	/** URL of the route, e.g. for an `EventSource` on `accountEvents`. */
+	url: <N extends ApiRouteName>(name: N, request?: ApiRequest<N>) => string;
+};
+
+/** Non-2xx response; `body` is the worker's error body. */
+export class ApiRequestError extends Error {
+	readonly status: number;
+	readonly body: ApiError;
+
+	constructor(status: number, body: ApiError) {
+		super(body.error || `Request failed with status ${status}`);
+		this.name = "ApiRequestError";
+		this.status = status;
+		this.body = body;
+	}
+}
+
+/**
+ * Fetch client with one method per JSON route in `API_ROUTES`. Bodies are
+ * checked against the route's schema before they are sent and responses
+ * after they arrive; failed requests throw `ApiRequestError`. Routes marked
+ * `auth` carry the token `sessionToken` returns, if any.
+ */
+export function createApiClient(options: {
+	baseUrl: string;
+	chainId: number;
+	fetch?: Fetch;
+	sessionToken?: () => string | null | undefined;
+}): ApiClient {
+	const fetchJson: Fetch = options.fetch ?? ((...args) => fetch(...args));
+	const sessionToken = (name: ApiRouteName) =>
+		"auth" in API_ROUTES[name] ? options.sessionToken?.() : undefined;
+
+	const url = <N extends ApiRouteName>(
+		name: N,
+		request: ApiRequest<N> = {} as ApiRequest<N>,
+	) => {
+		const params = (request.params ?? {}) as Record<string, string>;
+		const path = API_ROUTES[name].path.replace(/:(\w+)/g, (_, key: string) =>
+			encodeURIComponent(params[key]),
+		);
+		const result = new URL(`${options.baseUrl}${path}`);
+		result.searchParams.set("chainId", String(options.chainId));
+		for (const [key, value] of Object.entries(request.query ?? {})) {
+			if (value !== undefined) {
+				result.searchParams.set(key, String(value));
+			}
+		}
+		// `EventSource` cannot send an `Authorization` header.
+		const token = "stream" in API_ROUTES[name] && sessionToken(name);
+		if (token) {
+			result.searchParams.set("token", token);
+		}
+		return result.toString();
+	};
+
+	const call = async <N extends JsonRouteName>(
+		name: N,
+		request: ApiRequest<N> = {} as ApiRequest<N>,
+	) => {
+		const route: (typeof API_ROUTES)[JsonRouteName] = API_ROUTES[name];
+		const body =
+			"body" in route ? route.body.parse(request.body, "body") : undefined;
+		const token = sessionToken(name);
+		const response = await fetchJson(url(name, request), {
+			method: route.method,
+			headers: {
+				...(body === undefined ? {} : { "Content-Type": "application/json" }),
+				...(token ? { Authorization: `Bearer ${token}` } : {}),
+				...request.headers,
+			},
+			body: body === undefined ? undefined : JSON.stringify(body),
+		});
+		const payload: unknown = await response.json().catch(() => ({}));
+		if (!response.ok) {
+			throw new ApiRequestError(response.status, payload as ApiError);
+		}
+		return route.response.parse(payload, "response") as ApiResponse<N>;
+	};
+
+	const methods = Object.fromEntries(
+		(Object.keys(API_ROUTES) as ApiRouteName[])
+			.filter((name): name is JsonRouteName => !("stream" in API_ROUTES[name]))
+			.map((name) => [
+				name,
+				(request?: ApiRequest<typeof name>) => call(name, request),
+			]),
+	);
+	return { ...methods, url } as ApiClient;
+}
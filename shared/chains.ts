@@ -0,0 +1,145 @@
+type Address = `0x${string}`;
+
+export type TokenConfig = {
+	/** `NATIVE_TOKEN_ADDRESS` for the chain's native currency. */
+	address: Address;
+	symbol: string;
+	decimals: number;
+	/** Smallest deposit, in base units, that can be refunded. */
+	minRefundAmount: bigint;
+};
+
+export type ChainConfig = {
+	/** viem-compatible chain definition. */
+	chain: {
+		id: number;
+		name: string;
+		nativeCurrency: { name: string; symbol: string; decimals: number };
+		rpcUrls: { default: { http: readonly string[] } };
+		testnet?: boolean;
+	};
+	/** Worker binding that holds this chain's RPC URL. */
+	rpcBinding: "RPC_URL" | "BASE_SEPOLIA_RPC_URL" | "DEVNET_RPC_URL";
+	/** Unset until `AccountFactory` has been deployed on the chain. */
+	factory?: Address;
+	entryPoint: Address;
+	/** Deposit assets watched on the chain, keyed by symbol. */
+	tokens: Record<string, TokenConfig>;
+	/** Blocks, counting its own, a deposit needs before it can be refunded. */
+	confirmations: number;
+	/**
+	 * Oldest block new accounts' deposit histories are backfilled to, such as
+	 * the factory's deployment block. Unset, it is 2,000 blocks before the
+	 * account's first sync.
+	 */
+	depositStartBlock?: bigint;
+	explorerUrl?: string;
+};
+
+export const ENTRYPOINT_ADDRESS =
+	"0x4337084d9e255ff0702461cf8895ce9e3b5ff108" as const;
+
+export const NATIVE_TOKEN_ADDRESS =
+	"0x0000000000000000000000000000000000000000" as const;
+
+const ETH: TokenConfig = {
+	address: NATIVE_TOKEN_ADDRESS,
+	symbol: "ETH",
+	decimals: 18,
+	minRefundAmount: 1_000_000_000_000_000n,
+};
+
+const SEPOLIA_TOKENS: Record<string, TokenConfig> = {
+	ETH,
+	USDC: {
+		address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+		symbol: "USDC",
+		decimals: 6,
+		minRefundAmount: 1_000_000n,
+	},
+	EURC: {
+		address: "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4",
+		symbol: "EURC",
+		decimals: 6,
+		minRefundAmount: 1_000_000n,
+	},
+};
+
+const SEPOLIA_FACTORY: Address = "0x7F3505c23FD8ef643447D528E34beb3aF90C4A47";
+
+export const SEPOLIA_CHAIN_ID = 11_155_111;
+export const BASE_SEPOLIA_CHAIN_ID = 84_532;
+export const DEVNET_CHAIN_ID = 31_337;
+
+export const CHAINS: Record<number, ChainConfig> = {
+	[SEPOLIA_CHAIN_ID]: {
+		chain: {
+			id: SEPOLIA_CHAIN_ID,
+			name: "Sepolia",
+			nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+			rpcUrls: { default: { http: ["https://11155111.rpc.thirdweb.com"] } },
+			testnet: true,
+		},
+		rpcBinding: "RPC_URL",
+		factory: SEPOLIA_FACTORY,
+		entryPoint: ENTRYPOINT_ADDRESS,
+		tokens: SEPOLIA_TOKENS,
+		confirmations: 5,
+		explorerUrl: "https://sepolia.etherscan.io",
+	},
+	[BASE_SEPOLIA_CHAIN_ID]: {
+		chain: {
+			id: BASE_SEPOLIA_CHAIN_ID,
+			name: "Base Sepolia",
+			nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+			rpcUrls: { default: { http: ["https://sepolia.base.org"] } },
+			testnet: true,
+		},
+		rpcBinding: "BASE_SEPOLIA_RPC_URL",
+		entryPoint: ENTRYPOINT_ADDRESS,
+		tokens: {
+			ETH,
+			USDC: {
+				address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+				symbol: "USDC",
+				decimals: 6,
+				minRefundAmount: 1_000_000n,
+			},
+		},
+		confirmations: 10,
+		explorerUrl: "https://sepolia.basescan.org",
+	},
+	// Anvil forked from Sepolia (`anvil --fork-url <sepolia rpc>`), so the
+	// Sepolia deployments are available under the local chain id.
+	[DEVNET_CHAIN_ID]: {
+		chain: {
+			id: DEVNET_CHAIN_ID,
+			name: "Devnet",
+			nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+			rpcUrls: { default: { http: ["http://127.0.0.1:8545"] } },
+			testnet: true,
+		},
+		rpcBinding: "DEVNET_RPC_URL",
+		factory: SEPOLIA_FACTORY,
+		entryPoint: ENTRYPOINT_ADDRESS,
+		tokens: SEPOLIA_TOKENS,
+		confirmations: 1,
+	},
+};
+
+export const DEFAULT_CHAIN_ID = SEPOLIA_CHAIN_ID;
+
+export const getChainConfig = (chainId: number): ChainConfig | undefined =>
+	CHAINS[chainId];
+
+export const isNativeToken = (token: TokenConfig) =>
+	token.address === NATIVE_TOKEN_ADDRESS;
+
+/** Registry entry for a deposit asset, matched case-insensitively. */
+export const findToken = (
+	chain: ChainConfig,
+	address: string,
+): TokenConfig | undefined =>
+	Object.values(chain.tokens).find(
+		(token) => token.address.toLowerCase() === address.toLowerCase(),
+	);
@@ -1,11 +1,9 @@
 export * from "./EntrypointV08";
-export const FACTORY_ADDRESS =
-	"0x7F3505c23FD8ef643447D528E34beb3aF90C4A47" as const;
-export const ENTRYPOINT_ADDRESS =
-	"0x4337084d9e255ff0702461cf8895ce9e3b5ff108" as const;
-export const USDC_ADDRESS =
-	"0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238" as const;
-export const USDC_DECIMALS = 6;
+export * from "./chains";
+export * from "./api";
+export * from "./apiClient";
+export * from "./proofOfWork";
+export { type Infer, type Schema, SchemaError } from "./schema";
 export const usdcAbi = [
 	{
 		type: "event",
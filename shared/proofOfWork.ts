@@ -0,0 +1,53 @@
+// Optional gate on account creation: the client finds a nonce whose hash with
+// the new passkey's public key starts with enough zero bits, so every account
+// costs its creator some CPU time.
+
+type Hex = `0x${string}`;
+
+type PublicKey = { x: Hex; y: Hex };
+
+/** Leading zero bits the worker asks for when proof of work is required. */
+export const ACCOUNT_PROOF_OF_WORK_BITS = 16;
+
+const hexToBytes = (value: Hex) =>
+	Uint8Array.from(value.slice(2).match(/../g) ?? [], (byte) =>
+		Number.parseInt(byte, 16),
+	);
+
+/** SHA-256 of the two 32-byte coordinates followed by the 8-byte nonce. */
+const hashProofOfWork = async (publicKey: PublicKey, nonce: number) => {
+	const input = new Uint8Array(72);
+	input.set(hexToBytes(publicKey.x), 0);
+	input.set(hexToBytes(publicKey.y), 32);
+	new DataView(input.buffer).setBigUint64(64, BigInt(nonce));
+	return new Uint8Array(await crypto.subtle.digest("SHA-256", input));
+};
+
+const countLeadingZeroBits = (bytes: Uint8Array) => {
+	let bits = 0;
+	for (const byte of bytes) {
+		if (byte !== 0) {
+			return bits + Math.clz32(byte) - 24;
+		}
+		bits += 8;
+	}
+	return bits;
+};
+
+export const verifyProofOfWork = async (
+	publicKey: PublicKey,
+	nonce: number,
+	bits = ACCOUNT_PROOF_OF_WORK_BITS,
+) => countLeadingZeroBits(await hashProofOfWork(publicKey, nonce)) >= bits;
+
+/** Takes about 2^`bits` hashes. */
+export const solveProofOfWork = async (
+	publicKey: PublicKey,
+	bits = ACCOUNT_PROOF_OF_WORK_BITS,
+) => {
+	let nonce = 0;
+	while (!(await verifyProofOfWork(publicKey, nonce, bits))) {
+		nonce++;
+	}
+	return nonce;
+};
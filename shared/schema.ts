@@ -0,0 +1,198 @@
+// Minimal runtime schemas for the worker API. Each one checks a decoded JSON
+// value and narrows it to the type it describes, so a single definition gives
+// both the static type and the check.
+
+type Hex = `0x${string}`;
+
+export type Schema<T> = {
+	/** Throws a `SchemaError` naming the first invalid field. */
+	parse: (value: unknown, path?: string) => T;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {
+	/** Dotted path of the invalid field, e.g. `intents[0].amount`. */
+	readonly path: string;
+
+	constructor(path: string, message: string) {
+		super(`${path || "value"} ${message}`);
+		this.name = "SchemaError";
+		this.path = path;
+	}
+}
+
+const fail = (path: string, expected: string): never => {
+	throw new SchemaError(path, `must be ${expected}`);
+};
+
+const child = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+export const unknown = (): Schema<unknown> => ({ parse: (value) => value });
+
+export const boolean = (): Schema<boolean> => ({
+	parse: (value, path = "") =>
+		typeof value === "boolean" ? value : fail(path, "a boolean"),
+});
+
+export const literal = <const T extends string | number | boolean>(
+	expected: T,
+): Schema<T> => ({
+	parse: (value, path = "") =>
+		value === expected ? expected : fail(path, JSON.stringify(expected)),
+});
+
+export const oneOf = <const T extends string>(
+	values: readonly T[],
+): Schema<T> => ({
+	parse: (value, path = "") =>
+		values.includes(value as T)
+			? (value as T)
+			: fail(path, `one of ${values.join(", ")}`),
+});
+
+export const string = <T extends string = string>(
+	options: {
+		minLength?: number;
+		maxLength?: number;
+		pattern?: RegExp;
+		/** What `pattern` matches, for the error message. */
+		description?: string;
+	} = {},
+): Schema<T> => ({
+	parse: (value, path = "") => {
+		if (typeof value !== "string") {
+			return fail(path, "a string");
+		}
+		if (options.pattern && !options.pattern.test(value)) {
+			return fail(path, options.description ?? `match ${options.pattern}`);
+		}
+		if (value.length < (options.minLength ?? 0)) {
+			return fail(path, `at least ${options.minLength} characters`);
+		}
+		if (value.length > (options.maxLength ?? Number.POSITIVE_INFINITY)) {
+			return fail(path, `at most ${options.maxLength} characters`);
+		}
+		return value as T;
+	},
+});
+
+export const integer = (
+	options: { min?: number; max?: number } = {},
+): Schema<number> => ({
+	parse: (value, path = "") => {
+		const { min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER } =
+			options;
+		return Number.isSafeInteger(value) &&
+			(value as number) >= min &&
+			(value as number) <= max
+			? (value as number)
+			: fail(path, `an integer between ${min} and ${max}`);
+	},
+});
+
+export const hex = (): Schema<Hex> =>
+	string<Hex>({ pattern: /^0x[0-9a-fA-F]*$/, description: "0x-prefixed hex" });
+
+export const address = () =>
+	string<Hex>({ pattern: /^0x[0-9a-fA-F]{40}$/, description: "an address" });
+
+/** Hex of exactly 32 bytes, such as hashes and P-256 coordinates. */
+export const bytes32 = () =>
+	string<Hex>({
+		pattern: /^0x[0-9a-fA-F]{64}$/,
+		description: "32 bytes of hex",
+	});
+
+/** Bigints travel as decimal strings. */
+export const uintString = () =>
+	string({ pattern: /^\d+$/, description: "a non-negative integer string" });
+
+/** Query parameters are strings; this accepts only non-negative integers. */
+export const uintParam = (options: { min?: number; max?: number } = {}) => {
+	const digits = uintString();
+	const range = integer(options);
+	return {
+		parse: (value: unknown, path = "") =>
+			range.parse(Number(digits.parse(value, path)), path),
+	} satisfies Schema<number>;
+};
+
+/** Absent object fields, and JSON `undefined`, are allowed. */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+	parse: (value, path) =>
+		value === undefined ? undefined : schema.parse(value, path),
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+	parse: (value, path) => (value === null ? null : schema.parse(value, path)),
+});
+
+export const union = <T extends readonly Schema<unknown>[]>(
+	...schemas: T
+): Schema<Infer<T[number]>> => ({
+	parse: (value, path = "") => {
+		let firstError: unknown;
+		for (const schema of schemas) {
+			try {
+				return schema.parse(value, path) as Infer<T[number]>;
+			} catch (error) {
+				firstError ??= error;
+			}
+		}
+		throw firstError;
+	},
+});
+
+export const array = <T>(
+	item: Schema<T>,
+	options: { minLength?: number; maxLength?: number } = {},
+): Schema<T[]> => ({
+	parse: (value, path = "") => {
+		if (!Array.isArray(value)) {
+			return fail(path, "an array");
+		}
+		if (value.length < (options.minLength ?? 0)) {
+			return fail(path, `at least ${options.minLength} items`);
+		}
+		if (value.length > (options.maxLength ?? Number.POSITIVE_INFINITY)) {
+			return fail(path, `at most ${options.maxLength} items`);
+		}
+		return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+	},
+});
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+	[K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/** Fields that accept `undefined` become optional properties. */
+export type ObjectOf<S extends Shape> = Flatten<
+	{ [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+		[K in OptionalKeys<S>]?: Infer<S[K]>;
+	}
+>;
+
+/** Keeps only the fields in `shape`, dropping unknown ones. */
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+	parse: (value, path = "") => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			return fail(path, "an object");
+		}
+		const result: Record<string, unknown> = {};
+		for (const [key, schema] of Object.entries(shape)) {
+			const parsed = schema.parse(
+				(value as Record<string, unknown>)[key],
+				child(path, key),
+			);
+			if (parsed !== undefined) {
+				result[key] = parsed;
+			}
+		}
+		return result as ObjectOf<S>;
+	},
+});